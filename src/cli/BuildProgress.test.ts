@@ -0,0 +1,205 @@
+import { BuildProgress } from './BuildProgress.js';
+import { BuildEventEmitter } from '../utils/BuildEvents.js';
+import { LogEntry, Logger, LogLevel } from '../utils/Logger.js';
+import { BuildPhase } from '../types/Build.js';
+import { BuildStatus, GameBuildResult, GameConfig } from '../types/Game.js';
+
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+const game: GameConfig = {
+  name: 'Chess',
+  tag: 'board game',
+  license: 'MIT',
+  git: 'https://github.com/attogram/chess.git',
+  mobile: true,
+  desktop: true
+};
+
+function result(gameId: string, buildStatus: BuildStatus, overrides: Partial<GameBuildResult> = {}): GameBuildResult {
+  return {
+    game: { id: gameId, config: game, buildStatus },
+    success: buildStatus !== BuildStatus.FAILED,
+    duration: 1500,
+    errors: [],
+    warnings: [],
+    ...overrides
+  };
+}
+
+/** Collects what is written, as a terminal of the given size */
+function createStream(columns = 80, rows = 24): NodeJS.WriteStream & { output: string } {
+  const stream = {
+    output: '',
+    columns,
+    rows,
+    write(chunk: string) {
+      stream.output += chunk;
+      return true;
+    }
+  };
+  return stream as unknown as NodeJS.WriteStream & { output: string };
+}
+
+/**
+ * What a terminal shows after the output: erased lines gone and colours
+ * stripped.
+ */
+function screen(output: string): string[] {
+  const lines: string[] = [];
+  for (const part of output.split(/(\x1b\[\d+A\r\x1b\[0J)/)) {
+    const erase = /^\x1b\[(\d+)A\r\x1b\[0J$/.exec(part);
+    if (erase) {
+      lines.splice(lines.length - Number(erase[1]));
+    } else if (part !== '') {
+      lines.push(...part.replace(ANSI_PATTERN, '').split('\n').slice(0, -1));
+    }
+  }
+  return lines;
+}
+
+function entry(level: LogLevel, label: LogEntry['label'], message: string): LogEntry {
+  return { time: new Date(), level, label, message };
+}
+
+describe('BuildProgress', () => {
+  let events: BuildEventEmitter;
+  let progress: BuildProgress | undefined;
+
+  beforeEach(() => {
+    events = new BuildEventEmitter(new Logger({ level: LogLevel.SILENT }));
+  });
+
+  afterEach(() => {
+    progress?.stop();
+  });
+
+  describe('plain output', () => {
+    it('prints a line per phase and per finished game', () => {
+      const stream = createStream();
+      progress = new BuildProgress({ live: false, stream });
+      progress.attach(events);
+
+      events.emit({ type: 'game:queued', gameId: 'chess' });
+      events.emit({ type: 'game:queued', gameId: 'pool' });
+      events.emit({ type: 'game:queued', gameId: 'go' });
+      events.emit({ type: 'phase:started', gameId: 'chess', phase: BuildPhase.CLONE });
+      events.emit({ type: 'step:output', gameId: 'chess', command: 'npm ci', stream: 'stdout', chunk: 'added 12 packages\n' });
+      events.emit({ type: 'game:done', gameId: 'chess', result: result('chess', BuildStatus.SUCCESS, { fromCache: true }) });
+      events.emit({
+        type: 'game:done',
+        gameId: 'pool',
+        result: result('pool', BuildStatus.FAILED, { errors: ['Clone failed\nfatal: not found'], phase: BuildPhase.CLONE })
+      });
+      events.emit({ type: 'game:done', gameId: 'go', result: result('go', BuildStatus.SKIPPED, { skipReason: 'needs php' }) });
+
+      expect(stream.output.replace(ANSI_PATTERN, '').split('\n')).toEqual([
+        '› chess clone',
+        '[1/3] ✔ chess restored from cache in 1.5s',
+        '[2/3] ✖ pool failed in clone: Clone failed',
+        '[3/3] - go skipped: needs php',
+        ''
+      ]);
+    });
+
+    it('stops printing once stopped', () => {
+      const stream = createStream();
+      progress = new BuildProgress({ live: false, stream });
+      progress.attach(events);
+      progress.stop();
+
+      events.emit({ type: 'phase:started', gameId: 'chess', phase: BuildPhase.CLONE });
+
+      expect(stream.output).toBe('');
+    });
+  });
+
+  describe('live table', () => {
+    it('draws the running games and redraws them in place', () => {
+      const stream = createStream();
+      progress = new BuildProgress({ live: true, stream });
+      progress.attach(events);
+
+      events.emit({ type: 'game:queued', gameId: 'chess' });
+      events.emit({ type: 'game:queued', gameId: 'pool' });
+      events.emit({ type: 'phase:started', gameId: 'chess', phase: BuildPhase.BUILD });
+      events.emit({
+        type: 'step:output',
+        gameId: 'chess',
+        command: 'npm ci',
+        stream: 'stdout',
+        chunk: '\x1b[32mdone\x1b[0m\r\nadded 12 packages\n'
+      });
+      events.emit({ type: 'phase:started', gameId: 'pool', phase: BuildPhase.CLONE });
+
+      const lines = screen(stream.output);
+      expect(lines).toHaveLength(3);
+      expect(lines[0]).toMatch(/^. Building 0\/2 games$/);
+      expect(lines[1]).toMatch(/^ {2}chess {2}build {4}\s+\S+ {2}added 12 packages$/);
+      expect(lines[2]).toMatch(/^ {2}pool {3}clone {4}\s+\S+$/);
+    });
+
+    it('prints finished games above the table', () => {
+      const stream = createStream();
+      progress = new BuildProgress({ live: true, stream });
+      progress.attach(events);
+      events.emit({ type: 'game:queued', gameId: 'chess' });
+      events.emit({ type: 'game:queued', gameId: 'pool' });
+      events.emit({ type: 'phase:started', gameId: 'chess', phase: BuildPhase.BUILD });
+      events.emit({ type: 'game:done', gameId: 'chess', result: result('chess', BuildStatus.FAILED, { errors: ['npm ci failed'] }) });
+
+      const lines = screen(stream.output);
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toBe('[1/2] ✖ chess failed in build: npm ci failed');
+      expect(lines[1]).toMatch(/^. Building 1\/2 games, 1 failed, 1 queued$/);
+    });
+
+    it('lets only warnings and errors through its log sink, and everything once stopped', () => {
+      const written: string[] = [];
+      const stream = createStream();
+      progress = new BuildProgress({ live: true, stream });
+      const sink = progress.wrapSink({ write: logged => written.push(logged.message) });
+      progress.attach(events);
+
+      sink.write(entry(LogLevel.INFO, 'info', 'Cloning chess'));
+      sink.write(entry(LogLevel.WARN, 'warn', 'Slow clone'));
+      progress.stop();
+      sink.write(entry(LogLevel.INFO, 'info', 'Generated index.html'));
+
+      expect(written).toEqual(['Slow clone', 'Generated index.html']);
+    });
+
+    it('clears the table when stopped', () => {
+      const stream = createStream();
+      progress = new BuildProgress({ live: true, stream });
+      progress.attach(events);
+      events.emit({ type: 'game:queued', gameId: 'chess' });
+      expect(screen(stream.output)).toHaveLength(1);
+
+      progress.stop();
+
+      expect(screen(stream.output)).toEqual([]);
+    });
+
+    it('fits the table to the terminal', () => {
+      const stream = createStream(40, 5);
+      progress = new BuildProgress({ live: true, stream });
+      progress.attach(events);
+      for (const gameId of ['chess', 'pool', 'go', 'hex']) {
+        events.emit({ type: 'game:queued', gameId });
+        events.emit({ type: 'phase:started', gameId, phase: BuildPhase.BUILD });
+      }
+      events.emit({ type: 'step:output', gameId: 'chess', command: 'make', stream: 'stdout', chunk: 'x'.repeat(100) });
+      events.emit({ type: 'phase:started', gameId: 'chess', phase: BuildPhase.ASSETS });
+      events.emit({ type: 'step:output', gameId: 'pool', command: 'make', stream: 'stdout', chunk: 'y'.repeat(100) });
+      events.emit({ type: 'game:queued', gameId: 'snake' });
+
+      const table = screen(stream.output);
+      expect(table).toHaveLength(4);
+      expect(table[0]).toMatch(/^. Building 0\/5 games, 1 queued$/);
+      expect(table[1]).toMatch(/^ {2}chess {2}assets\s+\S+$/);
+      expect(table[2]).toMatch(/y…$/);
+      expect(table[2]?.length).toBeLessThanOrEqual(39);
+      expect(table[3]).toBe('  … and 2 more');
+    });
+  });
+});
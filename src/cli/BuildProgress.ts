@@ -0,0 +1,202 @@
+import chalk from 'chalk';
+import { BuildEventEmitter } from '../utils/BuildEvents.js';
+import { formatDuration } from '../utils/BuildReport.js';
+import { LogLevel, LogSink } from '../utils/Logger.js';
+import { BuildEvent, BuildPhase } from '../types/Build.js';
+import { BuildStatus, GameBuildResult } from '../types/Game.js';
+
+const SPINNER_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+const REDRAW_INTERVAL = 100;
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+export interface BuildProgressOptions {
+  /** Redraw a table in place, for terminals */
+  live: boolean;
+  stream?: NodeJS.WriteStream;
+}
+
+interface RunningGame {
+  phase: BuildPhase;
+  startedAt: number;
+  /** Last line the current build step printed */
+  output?: string;
+}
+
+/**
+ * Shows build progress as it happens: on a terminal, a live table of the
+ * games being built with finished games printed above it; anywhere else,
+ * such as CI logs, one plain line per phase and per finished game.
+ */
+export class BuildProgress {
+  private live: boolean;
+  private stream: NodeJS.WriteStream;
+  private running = new Map<string, RunningGame>();
+  private total = 0;
+  private finished = 0;
+  private failed = 0;
+  private drawnLines = 0;
+  private frame = 0;
+  private timer: NodeJS.Timeout | undefined;
+  private unsubscribe: (() => void) | undefined;
+
+  constructor(options: BuildProgressOptions) {
+    this.live = options.live;
+    this.stream = options.stream ?? process.stderr;
+  }
+
+  attach(events: BuildEventEmitter): void {
+    this.unsubscribe = events.onAny(event => this.handle(event));
+    if (this.live) {
+      this.timer = setInterval(() => {
+        this.frame = (this.frame + 1) % SPINNER_FRAMES.length;
+        this.redraw();
+      }, REDRAW_INTERVAL);
+    }
+  }
+
+  /**
+   * A console sink that prints above the live table rather than through
+   * it. Info lines would only repeat the table, so only warnings and
+   * errors get through while it is shown.
+   */
+  wrapSink(sink: LogSink): LogSink {
+    return {
+      write: entry => {
+        if (!this.live || this.timer === undefined) {
+          sink.write(entry);
+        } else if (entry.level >= LogLevel.WARN) {
+          this.printAbove(() => sink.write(entry));
+        }
+      }
+    };
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    this.clear();
+  }
+
+  private handle(event: BuildEvent): void {
+    switch (event.type) {
+      case 'game:queued':
+        this.total++;
+        break;
+      case 'phase:started': {
+        const game = this.running.get(event.gameId);
+        if (game) {
+          game.phase = event.phase;
+          delete game.output;
+        } else {
+          this.running.set(event.gameId, { phase: event.phase, startedAt: performance.now() });
+        }
+        if (!this.live) {
+          this.print(`${chalk.gray('›')} ${chalk.cyan(event.gameId)} ${event.phase}`);
+        }
+        break;
+      }
+      case 'step:output': {
+        const game = this.running.get(event.gameId);
+        const line = event.chunk.replace(ANSI_PATTERN, '').split(/[\r\n]+/).map(text => text.trim()).filter(Boolean).pop();
+        if (game && line) {
+          game.output = line;
+        }
+        // Output can come thick and fast, the next tick shows it
+        return;
+      }
+      case 'game:done':
+        this.running.delete(event.gameId);
+        this.finished++;
+        if (event.result.game.buildStatus === BuildStatus.FAILED) {
+          this.failed++;
+        }
+        this.print(this.describeResult(event.result));
+        break;
+      default:
+        break;
+    }
+    this.redraw();
+  }
+
+  private describeResult(result: GameBuildResult): string {
+    const id = chalk.cyan(result.game.id);
+    const counter = chalk.gray(`[${this.finished}/${this.total}]`);
+    const duration = chalk.gray(formatDuration(Math.round(result.duration)));
+
+    if (result.game.buildStatus === BuildStatus.FAILED) {
+      const error = result.errors[0]?.split('\n')[0] ?? 'failed';
+      return `${counter} ${chalk.red('✖')} ${id} failed in ${result.phase ?? 'build'}: ${error}`;
+    }
+    if (result.game.buildStatus === BuildStatus.SKIPPED) {
+      return `${counter} ${chalk.yellow('-')} ${id} skipped${result.skipReason ? `: ${result.skipReason}` : ''}`;
+    }
+    return `${counter} ${chalk.green('✔')} ${id} ${result.fromCache ? 'restored from cache' : 'built'} in ${duration}`;
+  }
+
+  private renderTable(): string[] {
+    const columns = Math.max((this.stream.columns ?? 80) - 1, 20);
+    const maxRows = Math.max((this.stream.rows ?? 24) - 3, 1);
+    const queued = this.total - this.finished - this.running.size;
+    const summary = [
+      `${this.finished}/${this.total} games`,
+      ...(this.failed > 0 ? [chalk.red(`${this.failed} failed`)] : []),
+      ...(queued > 0 ? [`${queued} queued`] : [])
+    ].join(', ');
+
+    const games = [...this.running.entries()];
+    const idWidth = Math.min(Math.max(...games.map(([gameId]) => gameId.length), 0), 30);
+    const now = performance.now();
+    const rows = games.slice(0, maxRows).map(([gameId, game]) => {
+      const elapsed = formatDuration(Math.round((now - game.startedAt) / 100) * 100);
+      const text = `  ${gameId.padEnd(idWidth)}  ${game.phase.padEnd(8)}  ${elapsed.padStart(7)}`;
+      const room = columns - text.length - 2;
+      const output = game.output && room > 3 ? `  ${truncate(game.output, room)}` : '';
+      return `  ${chalk.cyan(gameId.padEnd(idWidth))}  ${game.phase.padEnd(8)}  ${chalk.gray(elapsed.padStart(7))}${chalk.gray(output)}`;
+    });
+    if (games.length > maxRows) {
+      rows.push(chalk.gray(`  … and ${games.length - maxRows} more`));
+    }
+
+    return [`${chalk.blue(SPINNER_FRAMES[this.frame])} Building ${summary}`, ...rows];
+  }
+
+  private print(line: string): void {
+    this.printAbove(() => this.stream.write(`${line}\n`));
+  }
+
+  private printAbove(print: () => void): void {
+    this.clear();
+    print();
+    this.draw();
+  }
+
+  private redraw(): void {
+    if (this.live && this.timer !== undefined) {
+      this.clear();
+      this.draw();
+    }
+  }
+
+  private draw(): void {
+    if (!this.live || this.timer === undefined || this.total === 0) {
+      return;
+    }
+    const lines = this.renderTable();
+    this.stream.write(`${lines.join('\n')}\n`);
+    this.drawnLines = lines.length;
+  }
+
+  private clear(): void {
+    if (this.drawnLines > 0) {
+      // Back to the first line of the table, then erase to the end of the screen
+      this.stream.write(`\x1b[${this.drawnLines}A\r\x1b[0J`);
+      this.drawnLines = 0;
+    }
+  }
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text;
+}
@@ -1,49 +1,209 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { Logger, LogLevel } from '../utils/Logger.js';
+import { ConsoleSink, FileSink, JsonSink, Logger, LogLevel, LogSink } from '../utils/Logger.js';
 import { Builder } from '../core/Builder.js';
 import { BuildConfig } from '../types/Build.js';
+import { BuildStatus, GameBuildResult, GameMetadata, UpdateStatus } from '../types/Game.js';
+import { CategoryDefinition } from '../types/Site.js';
+import type { CachePruneOptions } from '../services/CacheService.js';
+import { REPORT_FORMATS } from '../services/ReportService.js';
+import { formatDuration } from '../utils/BuildReport.js';
+import { BuildProgress } from './BuildProgress.js';
+import { ReportDiff, ReportFormat } from '../types/Report.js';
+import { formatSize, parseSize } from '../utils/FileUtils.js';
+import { ConfigValidationError, ValidationIssue } from '../utils/Validator.js';
+import { VERSION } from '../utils/Version.js';
 import fs from 'fs-extra';
 import path from 'path';
 import os from 'os';
 
 const program = new Command();
-const VERSION = '2.0.0';
+
+// Where BuildService.getStepLogPath puts the output of build steps
+const STEP_LOG_HELP = `\nThe full output of each game's build steps is saved to .attogram/logs/<game id>.log in the output directory.`;
+
+/**
+ * A logger writing where the global `--log-format` and `--log-file` options
+ * say. `wrapConsole` lets live progress output share the terminal.
+ */
+function createLogger(level: LogLevel, wrapConsole: (sink: LogSink) => LogSink = sink => sink): Logger {
+  const { logFormat, logFile } = program.opts();
+  const sinks: LogSink[] = [wrapConsole(logFormat === 'json' ? new JsonSink() : new ConsoleSink())];
+  if (logFile) {
+    sinks.push(new FileSink(path.resolve(logFile)));
+  }
+  return new Logger({ level, sinks });
+}
+
+/**
+ * Build settings from a command's options, the same way for every command.
+ * Options a command does not have are left at their defaults, and
+ * `overrides` win over both.
+ */
+function createBuildConfig(options: { [option: string]: any } = {}, overrides: Partial<BuildConfig> = {}): BuildConfig {
+  return {
+    outputDir: path.resolve(options.output ?? process.cwd()),
+    templatesDir: path.join(process.cwd(), '_build', 'templates'),
+    customDir: path.join(process.cwd(), '_build', 'custom'),
+    logoDir: path.join(process.cwd(), '_logo'),
+    concurrency: options.concurrency === undefined ? 1 : parseInt(options.concurrency) || os.cpus().length,
+    enableCache: options.cache !== false,
+    skipExisting: Boolean(options.skipExisting),
+    ...(options.retryFailed ? { retryFailed: true } : {}),
+    ...(options.frozenLockfile ? { frozenLockfile: true } : {}),
+    ...(options.stepTimeout ? { stepTimeout: parseInt(options.stepTimeout) || 600 } : {}),
+    ...(options.mirror ? { mirrorDir: path.resolve(options.mirror) } : {}),
+    ...(options.offlineStrict ? { offlineStrict: true } : {}),
+    ...(options.embed ? { embed: true } : {}),
+    ...(options.pwa ? { pwa: true } : {}),
+    ...(options.baseUrl ? { baseUrl: options.baseUrl } : {}),
+    ...(options.theme ? { theme: options.theme } : {}),
+    ...(options.report ? { reports: parseReportFormats(options.report) } : {}),
+    ...(options.reportDir ? { reportDir: path.resolve(options.reportDir) } : {}),
+    ...overrides
+  };
+}
+
+function printValidationIssues(issues: ValidationIssue[]): void {
+  issues.forEach(issue => {
+    const gameId = issue.gameId ? `${chalk.cyan(issue.gameId)} ` : '';
+    console.log(`  ${chalk.red('•')} ${gameId}${chalk.gray(issue.path)}: ${issue.message}`);
+  });
+}
+
+function printScrubSummary(games: GameBuildResult[]): void {
+  const scrubbed = games.filter(result => result.scrub && result.scrub.removals.length > 0);
+  if (scrubbed.length === 0) {
+    return;
+  }
+
+  const removed = scrubbed.reduce(
+    (sum, result) => sum + (result.scrub?.removals.reduce((count, removal) => count + removal.count, 0) ?? 0),
+    0
+  );
+  console.log(chalk.gray(`Removed ${removed} tracker snippets from ${scrubbed.length} games (see .attogram/scrub-report.json)`));
+}
+
+function printExternalSummary(games: GameBuildResult[]): void {
+  const remote = games.filter(result => result.externalResources && result.externalResources.unresolved.length > 0);
+  if (remote.length > 0) {
+    console.log(chalk.gray(`${remote.length} games load remote resources (run \`attogram-games audit\` for the list)`));
+  }
+}
+
+function printSkippedGames(games: GameBuildResult[]): void {
+  const skipped = games.filter(result => result.game.buildStatus === BuildStatus.SKIPPED && result.skipReason);
+  if (skipped.length === 0) {
+    return;
+  }
+
+  console.log(chalk.yellow('\nSkipped:'));
+  skipped.forEach(result => {
+    console.log(`  ${chalk.yellow('•')} ${chalk.cyan(result.game.id)}: ${result.skipReason}`);
+  });
+}
+
+function parseReportFormats(value: string): ReportFormat[] {
+  const formats = value.split(',').map(format => format.trim()).filter(format => format.length > 0);
+  const unknown = formats.filter(format => !REPORT_FORMATS.includes(format as ReportFormat));
+  if (unknown.length > 0 || formats.length === 0) {
+    throw new Error(`Unknown report format ${unknown.join(', ') || `"${value}"`} (expected ${REPORT_FORMATS.join(', ')})`);
+  }
+  return formats as ReportFormat[];
+}
+
+function printReportDiff(diff: ReportDiff): void {
+  const status = (from: string | undefined, to: string) => chalk.gray(`${from ?? 'new'} → ${to}`);
+
+  if (diff.regressions.length > 0) {
+    console.log(chalk.red('\nRegressions:'));
+    diff.regressions.forEach(change => {
+      const phase = change.phase ? chalk.gray(` in ${change.phase}`) : '';
+      console.log(`  ${chalk.red('•')} ${chalk.cyan(change.id)} ${status(change.from, change.to)}${phase}`);
+      change.errors.forEach(error => console.log(chalk.gray(`      ${error}`)));
+    });
+  }
+  if (diff.fixed.length > 0) {
+    console.log(chalk.green('\nFixed:'));
+    diff.fixed.forEach(change => {
+      console.log(`  ${chalk.green('•')} ${chalk.cyan(change.id)} ${status(change.from, change.to)}`);
+    });
+  }
+  if (diff.slower.length > 0) {
+    console.log(chalk.yellow('\nSlower:'));
+    diff.slower.forEach(change => {
+      console.log(`  ${chalk.yellow('•')} ${chalk.cyan(change.id)} ${formatDuration(change.from)} → ${formatDuration(change.to)}`);
+    });
+  }
+  if (diff.added.length > 0) {
+    console.log(`\nAdded: ${diff.added.map(id => chalk.cyan(id)).join(', ')}`);
+  }
+  if (diff.removed.length > 0) {
+    console.log(`\nRemoved: ${diff.removed.map(id => chalk.cyan(id)).join(', ')}`);
+  }
+  if (Object.values(diff).every(changes => changes.length === 0)) {
+    console.log(chalk.green('No changes between the builds'));
+  }
+}
+
+function printGamesByCategory(games: GameMetadata[], categories: CategoryDefinition[]): void {
+  const groups = categories.map(category => ({
+    title: `${category.name} (${category.id})`,
+    games: games.filter(game => game.config.categories?.includes(category.id))
+  }));
+  groups.push({ title: 'Uncategorized', games: games.filter(game => !game.config.categories?.length) });
+
+  groups.filter(group => group.games.length > 0).forEach(group => {
+    console.log(chalk.blue(`\n${group.title} - ${group.games.length} games`));
+    group.games.forEach(game => {
+      console.log(`  ${chalk.cyan(game.id)} - ${chalk.white(game.config.name)}`);
+    });
+  });
+  console.log('');
+}
 
 program
   .name('attogram-games')
   .description('Modern games website builder - TypeScript edition')
-  .version(VERSION);
+  .version(VERSION)
+  .addOption(new Option('--log-format <format>', 'Log as coloured text or newline-delimited JSON on stderr').choices(['pretty', 'json']).default('pretty'))
+  .option('--log-file <path>', 'Also append logs as JSON to a file, rotated at 10 MB');
 
 program
   .command('build')
   .description('Build games website')
+  .addHelpText('after', STEP_LOG_HELP)
   .option('-c, --concurrency <number>', 'Number of parallel builds', '4')
   .option('-o, --output <dir>', 'Output directory', process.cwd())
   .option('--skip-existing', 'Skip games that already exist', false)
-  .option('--no-cache', 'Disable build cache', false)
+  .option('--retry-failed', 'With --skip-existing, build games whose first build failed again', false)
+  .option('--no-cache', 'Disable build cache')
   .option('-v, --verbose', 'Enable verbose logging', false)
   .option('--dry-run', 'Show what would be built without actually building', false)
+  .option('--frozen-lockfile', 'Build exactly the commits in games.lock.json and never update it', false)
+  .option('--step-timeout <seconds>', 'Default timeout for each build step', '600')
+  .option('--mirror <dir>', 'Replace external URLs with copies from this mirror directory (<host>/<path>)')
+  .option('--offline-strict', 'Fail games that still reference remote resources', false)
+  .option('--embed', 'Also write the embeddable games.html and games-widget.js', false)
+  .option('--base-url <url>', 'Public URL of the site, for the sitemap, feed, link previews and embeddable menu')
+  .option('--pwa', 'Also write a web app manifest and a service worker for offline play', false)
+  .option('--theme <name>', 'Theme to render the site with, by name or path')
+  .option('--report <formats>', `Write a build report, comma separated: ${REPORT_FORMATS.join(', ')}`)
+  .option('--report-dir <dir>', 'Where to write build reports (default: .attogram/reports in the output directory)')
   .action(async (options) => {
-    const logger = new Logger({ 
-      level: options.verbose ? LogLevel.DEBUG : LogLevel.INFO 
+    // Verbose output would scroll a live table away, so it gets plain lines too
+    const progress = new BuildProgress({
+      live: Boolean(process.stderr.isTTY) && !process.env.CI && !options.verbose && program.opts().logFormat !== 'json'
     });
+    const logger = createLogger(options.verbose ? LogLevel.DEBUG : LogLevel.INFO, sink => progress.wrapSink(sink));
 
     const spinner = ora('Initializing build process...').start();
 
     try {
-      const config: BuildConfig = {
-        outputDir: path.resolve(options.output),
-        templatesDir: path.join(process.cwd(), '_build', 'templates'),
-        customDir: path.join(process.cwd(), '_build', 'custom'),
-        logoDir: path.join(process.cwd(), '_logo'),
-        concurrency: parseInt(options.concurrency) || os.cpus().length,
-        enableCache: !options.noCache,
-        skipExisting: options.skipExisting
-      };
+      const config = createBuildConfig(options);
 
       spinner.succeed('Configuration loaded');
       
@@ -62,26 +222,159 @@ program
         return;
       }
 
+      progress.attach(builder.events);
       const result = await builder.buildAll();
-      
+      progress.stop();
+
       if (result.success) {
         console.log(chalk.green('\n✅ Build completed successfully!'));
         console.log(`Built ${result.successCount} games in ${result.totalDuration}ms`);
+        const existingCount = result.games.filter(game => game.game.buildStatus === BuildStatus.SKIPPED && !game.skipReason).length;
+        if (existingCount > 0) {
+          console.log(chalk.gray(`${existingCount} already existed and were skipped`));
+        }
+        const cachedCount = result.games.filter(game => game.fromCache).length;
+        if (cachedCount > 0) {
+          console.log(chalk.gray(`${cachedCount} restored from cache`));
+        }
+        printScrubSummary(result.games);
+        printExternalSummary(result.games);
+        printSkippedGames(result.games);
       } else {
         console.log(chalk.red('\n❌ Build completed with errors'));
-        console.log(`Success: ${result.successCount}, Failed: ${result.failedCount}`);
-        
+        console.log(`Success: ${result.successCount}, Failed: ${result.failedCount}, Skipped: ${result.skippedCount}`);
+        printSkippedGames(result.games);
+
         if (result.errors.length > 0) {
           console.log('\nErrors:');
           result.errors.forEach(error => {
             console.log(`  ${chalk.red('•')} ${error.message}`);
           });
         }
+
+        const logged = result.games.filter(game => !game.success && game.logFile);
+        if (logged.length > 0) {
+          console.log('\nBuild logs:');
+          logged.forEach(game => {
+            console.log(`  ${chalk.cyan(game.game.id)}: ${chalk.gray(path.relative(process.cwd(), game.logFile ?? ''))}`);
+          });
+        }
         process.exit(1);
       }
     } catch (error: any) {
+      progress.stop();
       spinner.fail('Build failed');
-      logger.error('Build process failed', error);
+      if (error instanceof ConfigValidationError) {
+        console.log(chalk.red(`\n${error.message}:`));
+        printValidationIssues(error.issues);
+        console.log(chalk.gray('\nRun `attogram-games validate` for details'));
+      } else {
+        logger.error('Build process failed', error);
+      }
+      process.exit(1);
+    }
+  });
+
+program
+  .command('update [games...]')
+  .description('Pull installed games and rebuild the ones that changed')
+  .addHelpText('after', STEP_LOG_HELP)
+  .option('-c, --concurrency <number>', 'Number of parallel updates', '4')
+  .option('-o, --output <dir>', 'Output directory', process.cwd())
+  .option('--mirror <dir>', 'Replace external URLs with copies from this mirror directory (<host>/<path>)')
+  .option('--offline-strict', 'Fail games that still reference remote resources', false)
+  .option('--embed', 'Also update the embeddable games.html and games-widget.js', false)
+  .option('--base-url <url>', 'Public URL of the site, for the sitemap, feed, link previews and embeddable menu')
+  .option('--pwa', 'Also update the web app manifest and service worker', false)
+  .option('--theme <name>', 'Theme to render the site with, by name or path')
+  .option('-v, --verbose', 'Enable verbose logging', false)
+  .action(async (gameIds: string[], options) => {
+    const logger = createLogger(options.verbose ? LogLevel.DEBUG : LogLevel.WARN);
+
+    const spinner = ora('Updating games...').start();
+
+    try {
+      const config = createBuildConfig(options);
+
+      const builder = new Builder(config, logger);
+      const result = await builder.updateAll(gameIds);
+      spinner.stop();
+
+      const icons = {
+        [UpdateStatus.UPDATED]: chalk.green('↑ updated  '),
+        [UpdateStatus.UNCHANGED]: chalk.gray('= unchanged'),
+        [UpdateStatus.FAILED]: chalk.red('✗ failed   ')
+      };
+
+      console.log('');
+      result.games.forEach(game => {
+        const from = game.previousCommit?.slice(0, 7) ?? '-------';
+        const to = game.game.lastCommit?.slice(0, 7) ?? '-------';
+        const commits = game.updateStatus === UpdateStatus.UPDATED ? `${from} → ${to}` : to;
+        console.log(`  ${icons[game.updateStatus]}  ${chalk.cyan(game.game.id)} ${chalk.gray(commits)}`);
+        game.errors.forEach(error => console.log(`      ${chalk.red(error)}`));
+      });
+
+      console.log(`\nUpdated: ${result.updatedCount}, Unchanged: ${result.unchangedCount}, Failed: ${result.failedCount}`);
+
+      if (!result.success) {
+        process.exit(1);
+      }
+    } catch (error: any) {
+      spinner.fail('Update failed');
+      if (error instanceof ConfigValidationError) {
+        printValidationIssues(error.issues);
+      } else {
+        logger.error('Update process failed', error);
+      }
+      process.exit(1);
+    }
+  });
+
+program
+  .command('lock')
+  .description('Resolve and record game commits in games.lock.json without building')
+  .option('-u, --update [games...]', 'Move the given games (or all games) to the latest commit of their ref')
+  .action(async (options) => {
+    const logger = createLogger(LogLevel.WARN);
+    const spinner = ora('Resolving commits...').start();
+
+    try {
+      const config = createBuildConfig();
+
+      const update = options.update !== undefined;
+      const gameIds = Array.isArray(options.update) ? options.update : undefined;
+
+      const builder = new Builder(config, logger);
+      const results = await builder.lock(gameIds, update);
+      spinner.stop();
+
+      results.forEach(result => {
+        const commit = result.commit?.slice(0, 7);
+        if (result.error) {
+          console.log(`  ${chalk.red('✗')} ${chalk.cyan(result.gameId)} ${result.error}`);
+        } else if (result.previousCommit && result.previousCommit !== result.commit) {
+          console.log(`  ${chalk.green('↑')} ${chalk.cyan(result.gameId)} ${result.previousCommit.slice(0, 7)} → ${commit}`);
+        } else if (!result.previousCommit) {
+          console.log(`  ${chalk.green('+')} ${chalk.cyan(result.gameId)} ${commit}`);
+        } else {
+          console.log(`  ${chalk.gray('=')} ${chalk.cyan(result.gameId)} ${chalk.gray(commit)}`);
+        }
+      });
+
+      const failed = results.filter(result => result.error).length;
+      console.log(`\nLocked ${results.length - failed} games${failed > 0 ? chalk.red(`, ${failed} failed`) : ''}`);
+
+      if (failed > 0) {
+        process.exit(1);
+      }
+    } catch (error: any) {
+      spinner.fail('Lock failed');
+      if (error instanceof ConfigValidationError) {
+        printValidationIssues(error.issues);
+      } else {
+        logger.error('Failed to update lockfile', error);
+      }
       process.exit(1);
     }
   });
@@ -90,22 +383,20 @@ program
   .command('list')
   .description('List all available games')
   .option('-v, --verbose', 'Show detailed game information', false)
+  .option('--by-category', 'Group the games by category', false)
   .action(async (options) => {
-    const logger = new Logger({ level: LogLevel.INFO });
+    const logger = createLogger(LogLevel.INFO);
     
     try {
-      const config: BuildConfig = {
-        outputDir: process.cwd(),
-        templatesDir: path.join(process.cwd(), '_build', 'templates'),
-        customDir: path.join(process.cwd(), '_build', 'custom'),
-        logoDir: path.join(process.cwd(), '_logo'),
-        concurrency: 1,
-        enableCache: true,
-        skipExisting: false
-      };
+      const config = createBuildConfig();
 
       const builder = new Builder(config, logger);
       const games = await builder.listGames();
+
+      if (options.byCategory) {
+        printGamesByCategory(games, await builder.listCategories());
+        return;
+      }
       
       console.log(chalk.blue(`\nFound ${games.length} games:\n`));
       
@@ -120,6 +411,9 @@ program
           if (game.config.branch) {
             console.log(`  ${chalk.gray('Branch:')} ${game.config.branch}`);
           }
+          if (game.config.commit || game.config.gitTag) {
+            console.log(`  ${chalk.gray('Pinned:')} ${game.config.commit ?? game.config.gitTag}`);
+          }
           console.log('');
         }
       });
@@ -135,7 +429,7 @@ program
   .option('-o, --output <dir>', 'Output directory to clean', process.cwd())
   .option('--force', 'Force clean without confirmation', false)
   .action(async (options) => {
-    const logger = new Logger({ level: LogLevel.INFO });
+    const logger = createLogger(LogLevel.INFO);
     const outputDir = path.resolve(options.output);
     
     if (!options.force) {
@@ -171,6 +465,272 @@ program
     }
   });
 
+program
+  .command('migrate-config')
+  .description('Convert legacy PHP games lists and config.php to JSON')
+  .option('-s, --source <dir>', 'Legacy _build directory', path.join(process.cwd(), '_build'))
+  .option('-o, --output <dir>', 'Directory to write JSON configs to', path.join(process.cwd(), '_build', 'custom'))
+  .option('--force', 'Overwrite existing JSON configs', false)
+  .option('--dry-run', 'Print the converted games without writing files', false)
+  .action(async (options) => {
+    const logger = createLogger(LogLevel.INFO);
+
+    try {
+      const config = createBuildConfig();
+
+      const { ConfigService } = await import('../services/ConfigService.js');
+      const { SiteService } = await import('../services/SiteService.js');
+      const configService = new ConfigService(config, logger);
+      const migrationOptions = {
+        sourceDir: path.resolve(options.source),
+        outputDir: path.resolve(options.output),
+        force: options.force,
+        dryRun: options.dryRun
+      };
+      const results = await configService.migrate(migrationOptions);
+      const siteResult = await new SiteService(config, logger).migrate(migrationOptions);
+
+      results.forEach(result => {
+        const source = path.relative(process.cwd(), result.source);
+        const output = path.relative(process.cwd(), result.output);
+        if (result.written) {
+          console.log(`${chalk.green('✔')} ${source} → ${output} (${result.gameCount} games)`);
+        } else if (options.dryRun && result.games) {
+          console.log(chalk.blue(`\n${source} → ${output} (${result.gameCount} games)`));
+          console.log(JSON.stringify(result.games, null, 2));
+        } else {
+          console.log(`${chalk.yellow('•')} ${source}: skipped - ${result.skippedReason}`);
+        }
+      });
+
+      const siteSource = path.relative(process.cwd(), siteResult.source);
+      const siteOutput = path.relative(process.cwd(), siteResult.output);
+      if (siteResult.written) {
+        console.log(`${chalk.green('✔')} ${siteSource} → ${siteOutput}`);
+      } else if (options.dryRun && siteResult.site) {
+        console.log(chalk.blue(`\n${siteSource} → ${siteOutput}`));
+        console.log(JSON.stringify(siteResult.site, null, 2));
+      } else {
+        console.log(`${chalk.yellow('•')} ${siteSource}: skipped - ${siteResult.skippedReason}`);
+      }
+    } catch (error) {
+      console.error(chalk.red('Failed to migrate configuration'), error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('validate [file]')
+  .description('Validate the games configuration')
+  .option('-f, --format <format>', 'Output format: text or json', 'text')
+  .action(async (file: string | undefined, options) => {
+    const logger = createLogger(options.format === 'json' ? LogLevel.SILENT : LogLevel.WARN);
+
+    try {
+      const config = createBuildConfig();
+
+      const { ConfigService } = await import('../services/ConfigService.js');
+      const configService = new ConfigService(config, logger);
+      const configPath = file ? path.resolve(file) : await configService.findGamesConfig();
+
+      if (!configPath) {
+        throw new Error('No games configuration found. Expected games.json or games.php');
+      }
+
+      const result = await configService.validateFile(configPath);
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify({ file: configPath, ...result }, null, 2));
+      } else if (result.valid) {
+        console.log(chalk.green(`✅ ${path.relative(process.cwd(), configPath)}: ${result.gameCount} games, no errors`));
+      } else {
+        console.log(chalk.red(`❌ ${path.relative(process.cwd(), configPath)}: ${result.errors.length} errors\n`));
+        printValidationIssues(result.errors);
+      }
+
+      if (!result.valid) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red('Failed to validate configuration'), error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('audit [games...]')
+  .description('List the external URLs each installed game loads')
+  .option('-o, --output <dir>', 'Output directory', process.cwd())
+  .option('-f, --format <format>', 'Output format: text or json', 'text')
+  .action(async (gameIds: string[], options) => {
+    const logger = createLogger(options.format === 'json' ? LogLevel.SILENT : LogLevel.WARN);
+
+    try {
+      const config = createBuildConfig(options);
+
+      const builder = new Builder(config, logger);
+      const audits = await builder.auditGames(gameIds);
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(audits, null, 2));
+        return;
+      }
+
+      const entries = Object.entries(audits);
+      if (entries.length === 0) {
+        console.log(chalk.yellow('No installed games to audit'));
+        return;
+      }
+
+      entries.forEach(([gameId, audit]) => {
+        if (audit.references.length === 0) {
+          console.log(`${chalk.green('✓')} ${chalk.cyan(gameId)} ${chalk.gray('self-contained')}`);
+          return;
+        }
+
+        console.log(`${chalk.yellow('•')} ${chalk.cyan(gameId)} ${chalk.gray(`${audit.references.length} external URLs`)}`);
+        audit.references.forEach(reference => {
+          console.log(`    ${reference.url} ${chalk.gray(reference.files.join(', '))}`);
+        });
+      });
+
+      const remote = entries.filter(([, audit]) => audit.references.length > 0).length;
+      console.log(`\n${remote} of ${entries.length} games load remote resources`);
+    } catch (error) {
+      console.error(chalk.red('Failed to audit games'), error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('embed')
+  .description('Write the embeddable games.html menu and games-widget.js from installed games')
+  .option('-o, --output <dir>', 'Output directory', process.cwd())
+  .option('--base-url <url>', 'Base URL for links in the menu, relative links when unset')
+  .option('--theme <name>', 'Theme to render the site with, by name or path')
+  .action(async (options) => {
+    const logger = createLogger(LogLevel.WARN);
+
+    try {
+      const config = createBuildConfig(options);
+
+      const builder = new Builder(config, logger);
+      const written = await builder.generateEmbed();
+
+      written.forEach(file => console.log(`${chalk.green('✓')} ${path.relative(process.cwd(), file) || file}`));
+      console.log(chalk.gray('\nEmbed with: <script src="games-widget.js" data-platform="mobile" data-max="12" async></script>'));
+    } catch (error) {
+      console.error(chalk.red('Failed to generate embed files'), error);
+      process.exit(1);
+    }
+  });
+
+const cache = program
+  .command('cache')
+  .description('Inspect and prune the build artifact cache');
+
+cache
+  .command('list')
+  .description('List cached game builds')
+  .option('-o, --output <dir>', 'Output directory the cache belongs to', process.cwd())
+  .action(async (options) => {
+    const logger = createLogger(LogLevel.WARN);
+
+    try {
+      const config = createBuildConfig(options);
+
+      const { CacheService } = await import('../services/CacheService.js');
+      const cacheService = new CacheService(config, logger);
+      const entries = await cacheService.list();
+      const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+      console.log(chalk.blue(`\n${entries.length} cached builds, ${formatSize(totalSize)} in ${cacheService.getCacheDir()}\n`));
+      entries.forEach(entry => {
+        console.log(`${chalk.cyan(entry.gameId)} ${chalk.gray(entry.commit.slice(0, 7))} ${formatSize(entry.size)}`);
+        console.log(`  ${chalk.gray('Key:')} ${entry.key.slice(0, 12)}  ${chalk.gray('Last used:')} ${entry.lastUsedAt}`);
+      });
+    } catch (error) {
+      console.error(chalk.red('Failed to list cache'), error);
+      process.exit(1);
+    }
+  });
+
+cache
+  .command('prune')
+  .description('Remove cached builds (defaults to superseded builds of each game)')
+  .option('-o, --output <dir>', 'Output directory the cache belongs to', process.cwd())
+  .option('--max-age <days>', 'Remove builds not used for this many days')
+  .option('--max-size <size>', 'Evict least recently used builds until the cache fits, e.g. 500M or 2G')
+  .option('--all', 'Remove every cached build', false)
+  .action(async (options) => {
+    const logger = createLogger(LogLevel.WARN);
+
+    try {
+      const config = createBuildConfig(options);
+
+      const pruneOptions: CachePruneOptions = {
+        all: options.all,
+        supersededOnly: !options.all && options.maxAge === undefined && options.maxSize === undefined
+      };
+      if (options.maxAge !== undefined) pruneOptions.maxAgeDays = parseFloat(options.maxAge);
+      if (options.maxSize !== undefined) pruneOptions.maxSize = parseSize(options.maxSize);
+
+      const { CacheService } = await import('../services/CacheService.js');
+      const cacheService = new CacheService(config, logger);
+      const result = await cacheService.prune(pruneOptions);
+
+      result.removed.forEach(entry => {
+        console.log(`  ${chalk.red('−')} ${chalk.cyan(entry.gameId)} ${chalk.gray(entry.commit.slice(0, 7))} ${formatSize(entry.size)}`);
+      });
+      console.log(chalk.green(`\nRemoved ${result.removed.length} cached builds, freed ${formatSize(result.freedBytes)} (${formatSize(result.remainingBytes)} left)`));
+    } catch (error) {
+      console.error(chalk.red('Failed to prune cache'), error);
+      process.exit(1);
+    }
+  });
+
+const report = program
+  .command('report')
+  .description('Compare build reports');
+
+report
+  .command('diff <old> <new>')
+  .description('Show what changed between two JSON build reports, exiting with 1 on regressions')
+  .option('--format <format>', 'Output format: text or json', 'text')
+  .option('--threshold <percent>', 'How much longer a game may take to build before it counts as slower', '50')
+  .action(async (oldReport: string, newReport: string, options) => {
+    const logger = createLogger(LogLevel.WARN);
+
+    try {
+      const config = createBuildConfig();
+
+      const threshold = parseFloat(options.threshold);
+      if (!Number.isFinite(threshold) || threshold < 0) {
+        throw new Error(`Invalid threshold: ${options.threshold}`);
+      }
+
+      const { ReportService } = await import('../services/ReportService.js');
+      const reportService = new ReportService(config, logger);
+      const previous = await reportService.read(path.resolve(oldReport));
+      const current = await reportService.read(path.resolve(newReport));
+      const diff = reportService.diff(previous, current, { slowdownThreshold: threshold / 100 });
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(diff, null, 2));
+      } else {
+        console.log(chalk.blue(`\nBuild ${previous.startTime} → ${current.startTime}`));
+        printReportDiff(diff);
+      }
+
+      if (diff.regressions.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red('Failed to compare build reports'), error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('dev')
   .description('Start development server with hot-reload')
@@ -178,22 +738,24 @@ program
   .option('-h, --host <string>', 'Host to bind server to', 'localhost')
   .option('--no-open', 'Do not open browser automatically')
   .option('--no-watch', 'Disable file watching')
+  .addOption(new Option('--admin-token <token>', 'Allow the /_admin dashboard and API changes from other hosts with this token').env('ATTOGRAM_ADMIN_TOKEN'))
+  .option('--mirror <dir>', 'Replace external URLs with copies from this mirror directory (<host>/<path>)')
+  .option('--offline-strict', 'Fail games that still reference remote resources', false)
+  .option('--embed', 'Also write the embeddable games.html and games-widget.js', false)
+  .option('--base-url <url>', 'Public URL of the site, for the sitemap, feed, link previews and embeddable menu')
+  .option('--pwa', 'Also write a web app manifest and a service worker for offline play', false)
+  .option('--theme <name>', 'Theme to render the site with, by name or path')
   .option('-v, --verbose', 'Enable verbose logging', false)
   .action(async (options) => {
-    const logger = new Logger({ 
-      level: options.verbose ? LogLevel.DEBUG : LogLevel.INFO 
-    });
+    const logger = createLogger(options.verbose ? LogLevel.DEBUG : LogLevel.INFO);
 
     try {
-      const buildConfig: BuildConfig = {
-        outputDir: process.cwd(),
-        templatesDir: path.join(process.cwd(), '_build', 'templates'),
-        customDir: path.join(process.cwd(), '_build', 'custom'),
-        logoDir: path.join(process.cwd(), '_logo'),
+      const buildConfig = createBuildConfig(options, {
         concurrency: os.cpus().length,
-        enableCache: true,
-        skipExisting: false
-      };
+        // Watch builds add new games and retry failed ones, rebuilds are asked for per game
+        skipExisting: true,
+        retryFailed: true
+      });
 
       // Import DevServer here to avoid circular dependency issues
       const { DevServer } = await import('../services/DevServer.js');
@@ -202,7 +764,8 @@ program
         port: parseInt(options.port) || 3000,
         host: options.host || 'localhost',
         openBrowser: options.open !== false,
-        watchFiles: options.watch !== false
+        watchFiles: options.watch !== false,
+        ...(options.adminToken ? { adminToken: options.adminToken } : {})
       };
 
       const devServer = new DevServer(buildConfig, serverConfig, logger);
@@ -1,26 +1,80 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { Logger } from '../utils/Logger.js';
-import { GameConfig, GameMetadata, BuildStatus } from '../types/Game.js';
-import { BuildConfig, BuildResult } from '../types/Build.js';
+import {
+  GameConfig,
+  GameCollection,
+  GameMetadata,
+  GameBuildResult,
+  BuildStatus,
+  ExternalResourceAudit,
+  GamesLock
+} from '../types/Game.js';
+import { BuildConfig, BuildResult, GameManifestEntry, UpdateResult } from '../types/Build.js';
 import { BuildService } from '../services/BuildService.js';
 import { TemplateService } from '../services/TemplateService.js';
+import { ConfigService } from '../services/ConfigService.js';
+import { ManifestService } from '../services/ManifestService.js';
+import { LockProblem, LockService, LockUpdateResult } from '../services/LockService.js';
+import { ScrubService } from '../services/ScrubService.js';
+import { AssetService } from '../services/AssetService.js';
+import { SiteService } from '../services/SiteService.js';
+import { GameLogo, LogoService } from '../services/LogoService.js';
+import { PwaService } from '../services/PwaService.js';
+import { SeoService } from '../services/SeoService.js';
+import { ReportService } from '../services/ReportService.js';
+import { BuildEventEmitter } from '../utils/BuildEvents.js';
+import {
+  validateGameCollection, validateGameCategories, validateGameTranslations, ConfigValidationError, ValidationIssue, ValidationResult
+} from '../utils/Validator.js';
+import { CategoryDefinition } from '../types/Site.js';
 
 export class Builder {
   private logger: Logger;
   private config: BuildConfig;
   private buildService: BuildService;
   private templateService: TemplateService;
+  private configService: ConfigService;
+  private manifestService: ManifestService;
+  private lockService: LockService;
+  private scrubService: ScrubService;
+  private assetService: AssetService;
+  private siteService: SiteService;
+  private logoService: LogoService;
+  private pwaService: PwaService;
+  private seoService: SeoService;
+  private reportService: ReportService;
+  // Builds of different games may run side by side, but share the manifest, lockfile and site
+  private sharedWrites: Promise<unknown> = Promise.resolve();
 
   constructor(config: BuildConfig, logger: Logger) {
     this.config = config;
     this.logger = logger.createChildLogger('Builder');
     this.buildService = new BuildService(config, logger);
-    this.templateService = new TemplateService(config, logger);
+    // One copy of the site settings for everything that generates the site
+    this.siteService = new SiteService(config, logger);
+    this.templateService = new TemplateService(config, logger, this.siteService);
+    this.configService = new ConfigService(config, logger);
+    this.manifestService = new ManifestService(config, logger);
+    this.lockService = new LockService(config, logger);
+    this.scrubService = new ScrubService(config, logger);
+    this.assetService = new AssetService(config, logger);
+    this.logoService = new LogoService(config, logger);
+    this.pwaService = new PwaService(config, logger, this.siteService);
+    this.seoService = new SeoService(config, logger, this.siteService);
+    this.reportService = new ReportService(config, logger);
+  }
+
+  /**
+   * Progress of builds and updates as they run.
+   */
+  get events(): BuildEventEmitter {
+    return this.buildService.events;
   }
 
   async buildAll(): Promise<BuildResult> {
     this.logger.info('Starting complete build process');
+    this.siteService.reset();
 
     try {
       // Ensure output directory exists
@@ -28,13 +82,36 @@ export class Builder {
 
       // Load games configuration
       const games = await this.loadGamesConfig();
-      
-      // Build all games
-      const buildResult = await this.buildService.buildAll(games);
-      
-      // Generate website templates
-      await this.templateService.generateIndex(buildResult.games);
-      
+
+      // Reject bad configs before anything gets cloned
+      await this.validateConfig(games);
+
+      // Build from the lockfile so the same config gives the same site
+      const lock = await this.lockService.load();
+      if (this.config.frozenLockfile) {
+        const problems = this.lockService.check(lock, games);
+        if (problems.length > 0) {
+          throw new Error(`Lockfile is out of date (${describeLockProblems(problems)}) - run \`attogram-games lock\``);
+        }
+      }
+
+      if (this.config.skipExisting && this.config.retryFailed) {
+        await this.clearFailedBuilds(games);
+      }
+
+      // Games built now check out the locked commits, but kept ones are wherever they were left
+      if (this.config.frozenLockfile && this.config.skipExisting) {
+        const problems = await this.lockService.checkInstalled(lock, games);
+        if (problems.length > 0) {
+          throw new Error(
+            `Installed games do not match the lockfile (${describeLockProblems(problems)}) - build without --skip-existing to replace them`
+          );
+        }
+      }
+
+      // Build all games, replacing installed ones unless they are to be kept
+      const buildResult = await this.buildGames(games, games, lock, !this.config.skipExisting);
+      this.events.emit({ type: 'build:done', result: buildResult });
       return buildResult;
     } catch (error) {
       this.logger.error('Build process failed', error);
@@ -42,96 +119,408 @@ export class Builder {
     }
   }
 
+  async updateAll(gameIds?: string[]): Promise<UpdateResult> {
+    this.logger.info('Starting update process');
+    this.siteService.reset();
+
+    try {
+      const games = await this.loadGamesConfig();
+      await this.validateConfig(games);
+
+      const selected = this.selectGames(games, gameIds);
+      const manifest = await this.manifestService.load();
+      const recordedCommits = Object.fromEntries(
+        Object.keys(selected).map(gameId => [gameId, manifest.games[gameId]?.commit])
+      );
+
+      const updateResult = await this.buildService.updateAll(selected, recordedCommits);
+      await this.exclusive(async () => {
+        await this.manifestService.record(updateResult.games);
+        await this.scrubService.recordReport(updateResult.games);
+        // Updating is a deliberate move forward, so the lockfile follows
+        await this.lockService.record(updateResult.games, true);
+
+        // The PHP builder rewrote the index after every update. Only some
+        // games may have been updated, so the site is built from all of them.
+        await this.generateSite(await this.loadInstalledGames(games));
+      });
+
+      return updateResult;
+    } catch (error) {
+      this.logger.error('Update process failed', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build some games again from a fresh clone, then regenerate the site
+   * from every installed game. A game whose rebuild fails gets its
+   * previous build back.
+   */
+  async rebuildGames(gameIds: string[]): Promise<BuildResult> {
+    this.logger.info(`Rebuilding ${gameIds.length > 0 ? gameIds.join(', ') : 'all games'}`);
+    this.siteService.reset();
+
+    try {
+      const games = await this.loadGamesConfig();
+      await this.validateConfig(games);
+
+      const selected = this.selectGames(games, gameIds);
+      const buildResult = await this.buildGames(games, selected, await this.lockService.load(), true);
+      this.events.emit({ type: 'build:done', result: buildResult });
+      return buildResult;
+    } catch (error) {
+      this.logger.error('Rebuild failed', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete installed games and leave them out of the site. They stay in the
+   * games configuration, to be built again later.
+   */
+  async removeGames(gameIds: string[]): Promise<void> {
+    this.siteService.reset();
+    const games = await this.loadGamesConfig();
+    const selected = this.selectGames(games, gameIds);
+
+    await this.exclusive(async () => {
+      for (const gameId of Object.keys(selected)) {
+        await fs.remove(path.join(this.config.outputDir, gameId));
+      }
+      await this.manifestService.remove(Object.keys(selected));
+      await this.generateSite(await this.loadInstalledGames(games));
+    });
+
+    this.logger.success(`Removed ${Object.keys(selected).join(', ')}`);
+  }
+
+  async lock(gameIds: string[] | undefined, update: boolean): Promise<LockUpdateResult[]> {
+    const games = await this.loadGamesConfig();
+    await this.validateConfig(games);
+
+    return await this.lockService.lock(this.selectGames(games, gameIds), update);
+  }
+
+  /**
+   * List the external URLs of installed games without changing anything.
+   * Games that are not installed are left out.
+   */
+  async auditGames(gameIds?: string[]): Promise<{ [gameId: string]: ExternalResourceAudit }> {
+    const games = this.selectGames(await this.loadGamesConfig(), gameIds);
+    const audits: { [gameId: string]: ExternalResourceAudit } = {};
+
+    for (const [gameId, config] of Object.entries(games)) {
+      const gameDir = path.join(this.config.outputDir, gameId);
+      if (await fs.pathExists(gameDir)) {
+        audits[gameId] = await this.assetService.audit(gameId, gameDir, config, false);
+      }
+    }
+
+    return audits;
+  }
+
+  /**
+   * Write the embeddable menu from the games already installed.
+   */
+  async generateEmbed(): Promise<string[]> {
+    this.siteService.reset();
+    const games = await this.loadGamesConfig();
+    const installed = await this.loadInstalledGames(games);
+    this.templateService.reset();
+    return await this.templateService.generateEmbed(installed, await this.processLogos(installed));
+  }
+
+  /**
+   * The configured games with what the build manifest knows about them.
+   */
   async listGames(): Promise<GameMetadata[]> {
     const games = await this.loadGamesConfig();
-    
-    return Object.entries(games).map(([gameId, config]) => ({
+    const manifest = await this.manifestService.load();
+
+    return await Promise.all(Object.entries(games).map(([gameId, config]) =>
+      this.describeGame(gameId, config, manifest.games[gameId])));
+  }
+
+  async getGame(gameId: string): Promise<GameMetadata | undefined> {
+    const config = (await this.loadGamesConfig())[gameId];
+    return config ? this.describeGame(gameId, config, await this.manifestService.getEntry(gameId)) : undefined;
+  }
+
+  getBuildLogPath(gameId: string): string {
+    return this.buildService.getStepLogPath(gameId);
+  }
+
+  getLockPath(): string {
+    return this.lockService.getLockPath();
+  }
+
+  /**
+   * What the last build of a game's steps printed, if it had any.
+   */
+  async readBuildLog(gameId: string): Promise<string | undefined> {
+    const logPath = this.getBuildLogPath(gameId);
+    return await fs.pathExists(logPath) ? await fs.readFile(logPath, 'utf-8') : undefined;
+  }
+
+  async readGamesJson(): Promise<{ path: string; content: string }> {
+    return { path: this.configService.getGamesJsonPath(), content: await this.configService.readGamesJson() };
+  }
+
+  /**
+   * Check games configuration JSON the way a build would, without saving it.
+   */
+  async checkGamesJson(content: string): Promise<ValidationResult> {
+    this.siteService.reset();
+    let games: unknown;
+    try {
+      games = JSON.parse(content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { valid: false, gameCount: 0, errors: [{ path: '$', message }] };
+    }
+
+    const validation = validateGameCollection(games);
+    if (!validation.valid) {
+      return validation;
+    }
+    const errors = await this.checkTaxonomy(games as GameCollection);
+    return { ...validation, valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Save games configuration JSON, refusing it if a build would.
+   */
+  async saveGamesJson(content: string): Promise<string> {
+    const validation = await this.checkGamesJson(content);
+    if (!validation.valid) {
+      throw new ConfigValidationError(validation.errors);
+    }
+    return await this.configService.writeGamesJson(content);
+  }
+
+  /**
+   * The site's category taxonomy, in its configured order.
+   */
+  async listCategories(): Promise<CategoryDefinition[]> {
+    return (await this.siteService.load()).categories ?? [];
+  }
+
+  /**
+   * Reject invalid games, categories outside the site's taxonomy and
+   * translations outside its locales, and point out games without a category.
+   */
+  private async validateConfig(games: GameCollection): Promise<void> {
+    const validation = validateGameCollection(games);
+    const errors = validation.valid ? await this.checkTaxonomy(games) : validation.errors;
+    if (errors.length > 0) {
+      throw new ConfigValidationError(errors);
+    }
+
+    const uncategorized = Object.keys(games).filter(gameId => !games[gameId]?.categories?.length);
+    if (uncategorized.length > 0) {
+      this.logger.warn(`No category for: ${uncategorized.join(', ')}`);
+    }
+  }
+
+  private async checkTaxonomy(games: GameCollection): Promise<ValidationIssue[]> {
+    return [
+      ...validateGameCategories(games, await this.listCategories()),
+      ...validateGameTranslations(games, await this.siteService.getLocales())
+    ];
+  }
+
+  /**
+   * A game's status as last recorded. A good build that is no longer on
+   * disk counts as not built.
+   */
+  private async describeGame(gameId: string, config: GameConfig, entry: GameManifestEntry | undefined): Promise<GameMetadata> {
+    const installed = await fs.pathExists(path.join(this.config.outputDir, gameId));
+    const buildStatus = !entry || (entry.buildStatus === BuildStatus.SUCCESS && !installed)
+      ? BuildStatus.NOT_BUILT
+      : entry.buildStatus;
+
+    return {
       id: gameId,
       config,
-      buildStatus: BuildStatus.NOT_BUILT
-    }));
+      buildStatus,
+      ...(entry?.commit ? { lastCommit: entry.commit } : {}),
+      ...(entry?.lastBuilt ? { lastBuilt: new Date(entry.lastBuilt) } : {}),
+      ...(entry?.buildTime !== undefined ? { buildTime: entry.buildTime } : {}),
+      ...(entry?.size !== undefined && installed ? { size: entry.size } : {}),
+      ...(entry?.errors ? { buildErrors: entry.errors } : {}),
+      ...(entry?.warnings ? { buildWarnings: entry.warnings } : {})
+    };
   }
 
-  private async loadGamesConfig(): Promise<{ [gameId: string]: GameConfig }> {
-    const configPath = path.join(this.config.customDir, 'games.json');
-    const fallbackPath = path.join(process.cwd(), '_build', 'games.php');
-    
-    // Try to load JSON config first
-    if (await fs.pathExists(configPath)) {
-      this.logger.info('Loading games from JSON config');
-      return await fs.readJSON(configPath);
+  /**
+   * Build the selected games, then generate the site from every installed
+   * game. With `replace`, installed copies are moved aside first and put
+   * back if the new build fails; otherwise they are left as they are.
+   */
+  private async buildGames(games: GameCollection, selected: GameCollection, lock: GamesLock, replace: boolean): Promise<BuildResult> {
+    const previous = await this.exclusive(() => this.setAsideGames(replace ? Object.keys(selected) : []));
+
+    let buildResult: BuildResult;
+    try {
+      buildResult = await this.buildService.buildAll(selected, this.lockService.getLockedCommits(lock, selected));
+    } catch (error) {
+      await this.exclusive(() => this.restoreGames(previous, [...previous.keys()]));
+      throw error;
     }
 
-    // Fallback to PHP config (for now)
-    if (await fs.pathExists(fallbackPath)) {
-      this.logger.info('Loading games from PHP config (legacy)');
-      return await this.loadPhpGamesConfig(fallbackPath);
+    const failed = buildResult.games.filter(result => result.game.buildStatus === BuildStatus.FAILED).map(result => result.game.id);
+    await this.exclusive(async () => {
+      const restored = await this.restoreGames(previous, failed);
+      await this.recordBuild(buildResult, restored);
+      await this.generateSite(await this.loadInstalledGames(games));
+    });
+
+    return buildResult;
+  }
+
+  private async recordBuild(buildResult: BuildResult, restored: string[] = []): Promise<void> {
+    await this.manifestService.record(buildResult.games, restored);
+    await this.scrubService.recordReport(buildResult.games);
+    if (this.config.reports?.length) {
+      await this.reportService.write(buildResult, this.config.reports);
     }
+    if (!this.config.frozenLockfile) {
+      await this.lockService.record(buildResult.games);
+    }
+  }
 
-    throw new Error('No games configuration found. Expected games.json or games.php');
+  /**
+   * Run a task once the shared writes queued before it are done.
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.sharedWrites.then(task);
+    this.sharedWrites = result.catch(() => undefined);
+    return result;
   }
 
-  private async loadPhpGamesConfig(phpFilePath: string): Promise<{ [gameId: string]: GameConfig }> {
-    // For now, we'll use the existing PHP array format
-    // In a real implementation, you might parse the PHP or convert it to JSON
-    
-    // This is a temporary solution - we should migrate to JSON config
-    const phpContent = await fs.readFile(phpFilePath, 'utf-8');
-    
-    // Extract games array from PHP file (very basic parsing)
-    // This is a simplified approach - in production you'd want proper PHP parsing
-    if (phpContent.includes('$games = [')) {
-      // For now, return the hardcoded games from the original PHP
-      return this.getHardcodedGames();
+  private async generateSite(games: GameBuildResult[]): Promise<void> {
+    this.templateService.reset();
+    // Every page shows the same logos, so render them once
+    const logos = await this.processLogos(games);
+    await this.templateService.generateIndex(games, logos);
+    await this.templateService.generatePages(games, logos);
+    if (this.config.embed) {
+      await this.templateService.generateEmbed(games, logos);
     }
+    await this.seoService.generate(games);
+    // Last, as the service worker precaches everything generated before it
+    if (this.config.pwa) {
+      await this.pwaService.generate(games);
+    }
+  }
 
-    throw new Error('Could not parse PHP games configuration');
+  private async processLogos(games: GameBuildResult[]): Promise<Map<string, GameLogo>> {
+    return await this.logoService.processAll(games.filter(result => result.game.buildStatus === BuildStatus.SUCCESS));
   }
 
-  private getHardcodedGames(): { [gameId: string]: GameConfig } {
-    // This is temporary - we'll migrate to JSON config
-    return {
-      'hextris-lite': {
-        name: 'Hextris',
-        tag: 'hexagonal tetris',
-        license: 'GPL-3.0',
-        git: 'https://github.com/attogram/hextris-lite.git',
-        mobile: true,
-        desktop: true,
-      },
-      'pond': {
-        name: 'The Pond',
-        tag: 'eat, swim, love',
-        license: 'GPL-3.0',
-        git: 'https://github.com/attogram/pond-lite.git',
-        mobile: true,
-        desktop: true,
-      },
-      '2048-lite': {
-        name: '2048',
-        tag: '2, 4, 8, swipe',
-        license: 'MIT',
-        git: 'https://github.com/attogram/2048-lite.git',
-        mobile: true,
-        desktop: true,
-      },
-      'taptaptap': {
-        name: 'Tap Tap Tap',
-        tag: 'tap the blue',
-        license: 'MIT',
-        git: 'https://github.com/MahdiF/taptaptap.git',
-        index: 'play/',
-        mobile: true,
-        desktop: true,
-      },
-      'particle-clicker': {
-        name: 'Particle Clicker',
-        tag: 'be like CERN',
-        license: 'MIT',
-        git: 'https://github.com/particle-clicker/particle-clicker.git',
-        mobile: true,
-        desktop: true,
+  /**
+   * Move installed games out of the way of a rebuild. Returns where each
+   * one went.
+   */
+  private async setAsideGames(gameIds: string[]): Promise<Map<string, string>> {
+    const previous = new Map<string, string>();
+    for (const gameId of gameIds) {
+      const gameDir = path.join(this.config.outputDir, gameId);
+      if (await fs.pathExists(gameDir)) {
+        const aside = path.join(this.config.outputDir, '.attogram', 'previous', gameId);
+        await fs.move(gameDir, aside, { overwrite: true });
+        previous.set(gameId, aside);
       }
-    };
+    }
+    return previous;
+  }
+
+  /**
+   * Put back the games set aside for `gameIds`, in place of whatever their
+   * rebuild left, and drop the others. Returns the games put back.
+   */
+  private async restoreGames(previous: Map<string, string>, gameIds: string[]): Promise<string[]> {
+    const restored: string[] = [];
+    for (const [gameId, aside] of previous) {
+      if (gameIds.includes(gameId)) {
+        this.logger.warn(`Rebuilding ${gameId} failed, keeping its previous build`);
+        await fs.move(aside, path.join(this.config.outputDir, gameId), { overwrite: true });
+        restored.push(gameId);
+      } else {
+        await fs.remove(aside);
+      }
+    }
+    return restored;
+  }
+
+  /**
+   * Remove what failed first builds left behind, so building tries them
+   * again. Games that built before keep their last good build.
+   */
+  private async clearFailedBuilds(games: GameCollection): Promise<void> {
+    const manifest = await this.manifestService.load();
+    for (const gameId of Object.keys(games)) {
+      const entry = manifest.games[gameId];
+      const gameDir = path.join(this.config.outputDir, gameId);
+      if (entry?.buildStatus === BuildStatus.FAILED && !entry.commit && await fs.pathExists(gameDir)) {
+        this.logger.info(`Removing the failed build of ${gameId} to try again`);
+        await fs.remove(gameDir);
+      }
+    }
   }
+
+  /**
+   * The installed games as build results, using the build manifest to
+   * leave out games whose last build failed. Games installed some other
+   * way, such as by the PHP builder, count as installed.
+   */
+  private async loadInstalledGames(games: GameCollection): Promise<GameBuildResult[]> {
+    const manifest = await this.manifestService.load();
+    const installed: GameBuildResult[] = [];
+
+    for (const [gameId, config] of Object.entries(games)) {
+      const entry = manifest.games[gameId];
+      if (entry?.buildStatus === BuildStatus.FAILED || !(await fs.pathExists(path.join(this.config.outputDir, gameId)))) {
+        continue;
+      }
+
+      installed.push({
+        game: {
+          id: gameId,
+          config,
+          buildStatus: BuildStatus.SUCCESS,
+          ...(entry?.commit ? { lastCommit: entry.commit } : {}),
+          ...(entry?.lastBuilt ? { lastBuilt: new Date(entry.lastBuilt) } : {})
+        },
+        success: true,
+        duration: 0,
+        errors: [],
+        warnings: []
+      });
+    }
+
+    return installed;
+  }
+
+  private selectGames(games: GameCollection, gameIds?: string[]): GameCollection {
+    if (!gameIds || gameIds.length === 0) {
+      return games;
+    }
+
+    const unknown = gameIds.filter(gameId => !games[gameId]);
+    if (unknown.length > 0) {
+      throw new Error(`Unknown game(s): ${unknown.join(', ')}`);
+    }
+
+    return Object.fromEntries(gameIds.map(gameId => [gameId, games[gameId] as GameConfig]));
+  }
+
+  private async loadGamesConfig(): Promise<{ [gameId: string]: GameConfig }> {
+    return await this.configService.loadGames();
+  }
+}
+
+function describeLockProblems(problems: LockProblem[]): string {
+  return problems.map(problem => `${problem.gameId}: ${problem.message}`).join(', ');
 }
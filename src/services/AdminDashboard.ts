@@ -0,0 +1,208 @@
+import express, { Request, Response, NextFunction } from 'express';
+import fs from 'fs-extra';
+import { createHash, timingSafeEqual } from 'crypto';
+import { Logger } from '../utils/Logger.js';
+import { renderAdminPage } from '../utils/AdminPage.js';
+import { EVENTS_PATH } from '../utils/LiveReload.js';
+import { diffLines, formatUnifiedDiff } from '../utils/TextDiff.js';
+import { Builder } from '../core/Builder.js';
+import { BuildJobAction, BuildJobService } from './BuildJobService.js';
+
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+const MAX_CONFIG_SIZE = '5mb';
+
+export interface AdminDashboardConfig {
+  /** Lets any host in with this token, rather than only localhost */
+  token?: string;
+}
+
+/**
+ * The dev server's admin dashboard and the API behind it. Without a token
+ * it only answers requests from this machine; with one, only requests
+ * that carry it. Changes go through the same build queue as the rest of
+ * the dev server.
+ */
+export class AdminDashboard {
+  readonly router = express.Router();
+  private logger: Logger;
+  private builder: Builder;
+  private jobs: BuildJobService;
+  private config: AdminDashboardConfig;
+
+  constructor(builder: Builder, jobs: BuildJobService, config: AdminDashboardConfig, logger: Logger) {
+    this.builder = builder;
+    this.jobs = jobs;
+    this.config = config;
+    this.logger = logger.createChildLogger('AdminDashboard');
+
+    this.router.use((req: Request, res: Response, next: NextFunction) => this.authorize(req, res, next));
+    this.router.use(express.json({ limit: MAX_CONFIG_SIZE }));
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    this.router.get('/', (req: Request, res: Response) => {
+      res.type('html').set('Cache-Control', 'no-store').send(renderAdminPage(EVENTS_PATH));
+    });
+
+    this.router.get('/api/games', async (req: Request, res: Response) => {
+      try {
+        const games = await Promise.all((await this.builder.listGames()).map(async game => {
+          const job = this.jobs.list(game.id).find(other => other.status === 'queued' || other.status === 'running');
+          return {
+            ...game,
+            hasLog: await fs.pathExists(this.builder.getBuildLogPath(game.id)),
+            ...(job ? { job } : {})
+          };
+        }));
+        res.json({ games, jobs: this.jobs.list() });
+      } catch (error) {
+        this.logger.error('Failed to fetch games list', error);
+        res.status(500).json({ error: 'Failed to fetch games list' });
+      }
+    });
+
+    this.router.post('/api/:action(rebuild|update)', (req: Request, res: Response) => {
+      const job = this.jobs.enqueue({ action: req.params.action as BuildJobAction }, 'admin');
+      this.logger.info(`${req.params.action} of all games requested, job ${job.id}`);
+      res.status(202).location(`/api/builds/${job.id}`).json(job);
+    });
+
+    this.router.post('/api/games/:id/:action(rebuild|update)', async (req: Request, res: Response) => {
+      try {
+        const game = await this.builder.getGame(req.params.id ?? '');
+        if (!game) {
+          res.status(404).json({ error: 'Unknown game' });
+          return;
+        }
+
+        const job = this.jobs.enqueue({ action: req.params.action as BuildJobAction, gameIds: [game.id] }, 'admin');
+        this.logger.info(`${req.params.action} of ${game.id} requested, job ${job.id}`);
+        res.status(202).location(`/api/builds/${job.id}`).json(job);
+      } catch (error) {
+        this.logger.error(`Failed to queue ${req.params.action}`, error);
+        res.status(500).json({ error: `Failed to queue ${req.params.action}` });
+      }
+    });
+
+    this.router.get('/api/games/:id/log', async (req: Request, res: Response) => {
+      try {
+        const game = await this.builder.getGame(req.params.id ?? '');
+        const log = game ? await this.builder.readBuildLog(game.id) : undefined;
+        if (log === undefined) {
+          res.status(404).json({ error: game ? 'No build log' : 'Unknown game' });
+          return;
+        }
+        res.type('text/plain').send(log);
+      } catch (error) {
+        this.logger.error('Failed to read build log', error);
+        res.status(500).json({ error: 'Failed to read build log' });
+      }
+    });
+
+    this.router.get('/api/config', async (req: Request, res: Response) => {
+      try {
+        const { path, content } = await this.builder.readGamesJson();
+        res.json({ path, content, version: versionOf(content) });
+      } catch (error) {
+        this.logger.error('Failed to read games configuration', error);
+        res.status(500).json({ error: 'Failed to read games configuration' });
+      }
+    });
+
+    // Validation and the diff against what is saved, without saving
+    this.router.post('/api/config/check', async (req: Request, res: Response) => {
+      const content: unknown = req.body?.content;
+      if (typeof content !== 'string') {
+        res.status(400).json({ error: 'Expected the configuration as content' });
+        return;
+      }
+
+      try {
+        const validation = await this.builder.checkGamesJson(content);
+        const current = await this.builder.readGamesJson();
+        res.json({ ...validation, diff: formatUnifiedDiff(diffLines(current.content, content)) });
+      } catch (error) {
+        this.logger.error('Failed to check games configuration', error);
+        res.status(500).json({ error: 'Failed to check games configuration' });
+      }
+    });
+
+    // Saving needs the version that was loaded, so changes made meanwhile
+    // on disk or in another tab are not overwritten
+    this.router.put('/api/config', async (req: Request, res: Response) => {
+      const content: unknown = req.body?.content;
+      if (typeof content !== 'string' || typeof req.body?.version !== 'string') {
+        res.status(400).json({ error: 'Expected the configuration as content and the version it was based on' });
+        return;
+      }
+
+      try {
+        const current = await this.builder.readGamesJson();
+        if (versionOf(current.content) !== req.body.version) {
+          res.status(409).json({ error: 'The configuration has changed since it was loaded, reload it and try again' });
+          return;
+        }
+
+        const validation = await this.builder.checkGamesJson(content);
+        if (!validation.valid) {
+          res.status(422).json(validation);
+          return;
+        }
+
+        const savedPath = await this.builder.saveGamesJson(content);
+        res.json({ path: savedPath, version: versionOf(content) });
+      } catch (error) {
+        this.logger.error('Failed to save games configuration', error);
+        res.status(500).json({ error: 'Failed to save games configuration' });
+      }
+    });
+  }
+
+  /**
+   * Let in requests with the token, or without one those from this
+   * machine. Pages on other sites may not use the API either way. The dev
+   * server guards its own API changes with this too.
+   */
+  authorize(req: Request, res: Response, next: NextFunction): void {
+    const origin = req.get('Origin');
+    if (origin !== undefined && origin !== `${req.protocol}://${req.get('Host')}`) {
+      res.status(403).json({ error: 'Cross-origin requests are not allowed' });
+      return;
+    }
+
+    if (this.config.token) {
+      const header = req.get('Authorization');
+      const given = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : req.query.token;
+      if (typeof given !== 'string' || !tokensMatch(given, this.config.token)) {
+        this.logger.debug(`Refused admin request without a valid token from ${req.ip}`);
+        res.status(401).json({ error: 'Admin token required, open the dashboard with ?token=<token>' });
+        return;
+      }
+      next();
+      return;
+    }
+
+    // The host check stops other sites from reaching us by rebinding their name to 127.0.0.1
+    const host = req.get('Host')?.replace(/:\d+$/, '') ?? '';
+    if (!LOOPBACK_ADDRESSES.has(req.socket.remoteAddress ?? '') || !LOOPBACK_HOSTS.has(host)) {
+      this.logger.debug(`Refused admin request from ${req.socket.remoteAddress} for ${host}`);
+      res.status(403).json({ error: 'Only available on localhost unless the server has an admin token' });
+      return;
+    }
+    next();
+  }
+}
+
+function versionOf(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function tokensMatch(given: string, expected: string): boolean {
+  // Equal length digests, so the comparison takes the same time for any token
+  return timingSafeEqual(
+    createHash('sha256').update(given).digest(),
+    createHash('sha256').update(expected).digest()
+  );
+}
@@ -0,0 +1,131 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { AssetService } from './AssetService.js';
+import { Logger, LogLevel } from '../utils/Logger.js';
+import { BuildConfig } from '../types/Build.js';
+import { GameConfig } from '../types/Game.js';
+
+const game: GameConfig = {
+  name: 'Chess',
+  tag: 'board game',
+  license: 'MIT',
+  git: 'https://github.com/attogram/chess.git',
+  mobile: true,
+  desktop: true
+};
+
+const PAGE = `<html><head>
+<script src="https://cdn.example.com/lib/phaser.js"></script>
+<link rel="stylesheet" href="//fonts.example.com/css/game.css">
+</head><body>
+<img src="https://img.example.com/logo.png">
+<a href="https://example.com/about">About</a>
+<script src="js/game.js"></script>
+</body></html>`;
+
+describe('AssetService', () => {
+  let tempDir: string;
+  let gameDir: string;
+  let mirrorDir: string;
+  let config: BuildConfig;
+  const logger = new Logger({ level: LogLevel.SILENT });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'attogram-assets-'));
+    gameDir = path.join(tempDir, 'out', 'chess');
+    mirrorDir = path.join(tempDir, 'mirror');
+    config = {
+      outputDir: path.join(tempDir, 'out'),
+      templatesDir: path.join(tempDir, 'templates'),
+      customDir: path.join(tempDir, 'custom'),
+      logoDir: path.join(tempDir, 'logo'),
+      concurrency: 1,
+      enableCache: false,
+      skipExisting: false
+    };
+
+    await fs.outputFile(path.join(gameDir, 'index.html'), PAGE);
+    await fs.outputFile(path.join(gameDir, 'js', 'game.js'), "loadImage('https://cdn.example.com/sprites/hero.png');\n");
+    await fs.outputFile(path.join(gameDir, 'node_modules', 'lib', 'index.js'), "fetch('https://api.example.com/');\n");
+
+    await fs.outputFile(path.join(mirrorDir, 'cdn.example.com', 'lib', 'phaser.js'), '// phaser\n');
+    await fs.outputFile(path.join(mirrorDir, 'cdn.example.com', 'sprites', 'hero.png'), 'png');
+    await fs.outputFile(
+      path.join(mirrorDir, 'fonts.example.com', 'css', 'game.css'),
+      '@font-face { src: url(https://fonts.example.com/font.woff2); }\n'
+    );
+    await fs.outputFile(path.join(mirrorDir, 'fonts.example.com', 'font.woff2'), 'woff2');
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('lists the external URLs games load without changing them', async () => {
+    const audit = await new AssetService(config, logger).audit('chess', gameDir, game);
+
+    expect(audit.references).toEqual([
+      { url: 'https://cdn.example.com/lib/phaser.js', files: ['index.html'] },
+      { url: 'https://cdn.example.com/sprites/hero.png', files: ['js/game.js'] },
+      { url: 'https://fonts.example.com/css/game.css', files: ['index.html'] },
+      { url: 'https://img.example.com/logo.png', files: ['index.html'] }
+    ]);
+    expect(audit.unresolved).toHaveLength(4);
+    expect(await fs.readFile(path.join(gameDir, 'index.html'), 'utf8')).toBe(PAGE);
+  });
+
+  describe('with a mirror', () => {
+    beforeEach(() => {
+      config.mirrorDir = mirrorDir;
+    });
+
+    it('vendors mirrored URLs, and the URLs of vendored stylesheets', async () => {
+      const audit = await new AssetService(config, logger).audit('chess', gameDir, game);
+
+      expect(audit.references).toEqual([
+        { url: 'https://cdn.example.com/lib/phaser.js', files: ['index.html'], vendoredPath: '_vendor/cdn.example.com/lib/phaser.js' },
+        { url: 'https://cdn.example.com/sprites/hero.png', files: ['js/game.js'], vendoredPath: '_vendor/cdn.example.com/sprites/hero.png' },
+        { url: 'https://fonts.example.com/css/game.css', files: ['index.html'], vendoredPath: '_vendor/fonts.example.com/css/game.css' },
+        {
+          url: 'https://fonts.example.com/font.woff2',
+          files: ['_vendor/fonts.example.com/css/game.css'],
+          vendoredPath: '_vendor/fonts.example.com/font.woff2'
+        },
+        { url: 'https://img.example.com/logo.png', files: ['index.html'] }
+      ]);
+      expect(audit.unresolved).toEqual(['https://img.example.com/logo.png']);
+      expect(await fs.readFile(path.join(gameDir, '_vendor', 'fonts.example.com', 'font.woff2'), 'utf8')).toBe('woff2');
+    });
+
+    it('rewrites pages and stylesheets relative to themselves and scripts relative to the page', async () => {
+      await new AssetService(config, logger).audit('chess', gameDir, game);
+
+      const page = await fs.readFile(path.join(gameDir, 'index.html'), 'utf8');
+      expect(page).toContain('<script src="_vendor/cdn.example.com/lib/phaser.js"></script>');
+      expect(page).toContain('<link rel="stylesheet" href="_vendor/fonts.example.com/css/game.css">');
+      expect(page).toContain('<img src="https://img.example.com/logo.png">');
+      expect(await fs.readFile(path.join(gameDir, 'js', 'game.js'), 'utf8'))
+        .toBe("loadImage('_vendor/cdn.example.com/sprites/hero.png');\n");
+      expect(await fs.readFile(path.join(gameDir, '_vendor', 'fonts.example.com', 'css', 'game.css'), 'utf8'))
+        .toBe('@font-face { src: url(../font.woff2); }\n');
+    });
+
+    it('only audits when vendoring is turned off', async () => {
+      const audit = await new AssetService(config, logger).audit('chess', gameDir, game, false);
+
+      expect(audit.unresolved).toHaveLength(4);
+      expect(await fs.pathExists(path.join(gameDir, '_vendor'))).toBe(false);
+    });
+
+    it('leaves vendored files alone when the game is audited again', async () => {
+      const assets = new AssetService(config, logger);
+      await assets.audit('chess', gameDir, game);
+      const audit = await assets.audit('chess', gameDir, game);
+
+      expect(audit.unresolved).toEqual(['https://img.example.com/logo.png']);
+      expect(await fs.readFile(path.join(gameDir, 'js', 'game.js'), 'utf8'))
+        .toBe("loadImage('_vendor/cdn.example.com/sprites/hero.png');\n");
+    });
+  });
+});
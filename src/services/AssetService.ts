@@ -0,0 +1,193 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Logger } from '../utils/Logger.js';
+import { findExternalUrls, getSourceKind, normalizeUrl } from '../utils/ExternalUrls.js';
+import { ExternalReference, ExternalResourceAudit, GameConfig } from '../types/Game.js';
+import { BuildConfig } from '../types/Build.js';
+
+export const VENDOR_DIR = '_vendor';
+const SKIPPED_DIRS = new Set(['.git', 'node_modules']);
+const MAX_VENDOR_PASSES = 3;
+
+/**
+ * Audits the remote resources a built game loads and, when a mirror
+ * directory is configured, vendors them into the game so it works
+ * self-hosted and offline.
+ */
+export class AssetService {
+  private logger: Logger;
+  private mirrorDir: string | undefined;
+
+  constructor(config: BuildConfig, logger: Logger) {
+    this.logger = logger.createChildLogger('AssetService');
+    this.mirrorDir = config.mirrorDir ? path.resolve(config.mirrorDir) : undefined;
+  }
+
+  /**
+   * List every external URL in the game's HTML, CSS and JS. With `vendor`
+   * set, URLs found in the mirror are copied into the game and rewritten
+   * to point at the copy.
+   */
+  async audit(gameId: string, gameDir: string, config: GameConfig, vendor = true): Promise<ExternalResourceAudit> {
+    const references = new Map<string, ExternalReference>();
+
+    // Vendored stylesheets bring their own URLs (web fonts), so go again
+    for (let pass = 0; pass < MAX_VENDOR_PASSES; pass++) {
+      const occurrences = await this.scan(gameDir, references);
+      if (!vendor || !this.mirrorDir || (await this.vendor(gameDir, config, references, occurrences)) === 0) {
+        break;
+      }
+    }
+
+    const sorted = [...references.values()].sort((a, b) => a.url.localeCompare(b.url));
+    const unresolved = sorted.filter(reference => !reference.vendoredPath).map(reference => reference.url);
+
+    if (sorted.length > 0) {
+      const vendored = sorted.length - unresolved.length;
+      this.logger.info(`${gameId} references ${sorted.length} external URLs` + (vendored > 0 ? `, ${vendored} vendored` : ''));
+    }
+
+    return { references: sorted, unresolved };
+  }
+
+  /**
+   * Add the URLs in the game's files to `references`, returning the raw
+   * URL strings found in each file.
+   */
+  private async scan(gameDir: string, references: Map<string, ExternalReference>): Promise<Map<string, string[]>> {
+    const occurrences = new Map<string, string[]>();
+
+    for (const file of await this.listSourceFiles(gameDir)) {
+      const relativePath = this.toRelative(gameDir, file);
+      const rawUrls = findExternalUrls(await fs.readFile(file, 'utf8'), getSourceKind(file) ?? 'js');
+      if (rawUrls.length === 0) continue;
+
+      for (const rawUrl of rawUrls) {
+        const url = normalizeUrl(rawUrl);
+        const reference = references.get(url) ?? { url, files: [] };
+        if (!reference.files.includes(relativePath)) {
+          reference.files.push(relativePath);
+        }
+        references.set(url, reference);
+      }
+      occurrences.set(relativePath, rawUrls);
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Copy mirrored URLs into the game and rewrite the files using them.
+   * Returns how many URLs were rewritten.
+   */
+  private async vendor(
+    gameDir: string,
+    config: GameConfig,
+    references: Map<string, ExternalReference>,
+    occurrences: Map<string, string[]>
+  ): Promise<number> {
+    const vendoredPaths = new Map<string, string>();
+
+    for (const rawUrls of occurrences.values()) {
+      for (const url of rawUrls.map(normalizeUrl)) {
+        const reference = references.get(url);
+        if (!reference || vendoredPaths.has(url)) continue;
+
+        if (!reference.vendoredPath) {
+          const mirrored = this.findInMirror(url);
+          if (!mirrored || !(await fs.pathExists(mirrored.source))) continue;
+
+          const target = path.join(gameDir, VENDOR_DIR, mirrored.relativePath);
+          await fs.copy(mirrored.source, target, { overwrite: false });
+          reference.vendoredPath = this.toRelative(gameDir, target);
+        }
+        vendoredPaths.set(url, reference.vendoredPath);
+      }
+    }
+
+    if (vendoredPaths.size === 0) {
+      return 0;
+    }
+
+    // Pages resolve URLs in scripts against themselves, so JS is rewritten
+    // relative to the game's index page rather than the script's own path
+    const pageDir = path.dirname(path.join(gameDir, config.index ?? 'index.html'));
+
+    for (const [relativePath, rawUrls] of occurrences) {
+      const file = path.join(gameDir, relativePath);
+      const baseDir = getSourceKind(file) === 'js' ? pageDir : path.dirname(file);
+      let content = await fs.readFile(file, 'utf8');
+
+      for (const rawUrl of rawUrls) {
+        const vendoredPath = vendoredPaths.get(normalizeUrl(rawUrl));
+        if (!vendoredPath) continue;
+
+        const fragment = new URL(normalizeUrl(rawUrl)).hash;
+        const localUrl = path.relative(baseDir, path.join(gameDir, vendoredPath)).split(path.sep).join('/') + fragment;
+        // Only whole URLs, never the start of a longer one
+        const pattern = new RegExp(`${escapeRegExp(rawUrl)}(?![^\\s'"\`()<>\\\\])`, 'g');
+        content = content.replace(pattern, () => localUrl);
+      }
+
+      await fs.writeFile(file, content);
+    }
+
+    return vendoredPaths.size;
+  }
+
+  /**
+   * Where a URL lives in the mirror, or undefined if it cannot be mapped
+   * to a file inside it.
+   */
+  private findInMirror(url: string): { source: string; relativePath: string } | undefined {
+    if (!this.mirrorDir) {
+      return undefined;
+    }
+
+    let hostname: string;
+    let pathname: string;
+    try {
+      const parsed = new URL(url);
+      hostname = parsed.hostname;
+      pathname = decodeURIComponent(parsed.pathname);
+    } catch {
+      return undefined;
+    }
+
+    if (pathname.endsWith('/')) {
+      pathname += 'index.html';
+    }
+
+    const relativePath = path.normalize(path.join(hostname, pathname));
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      return undefined;
+    }
+
+    return { source: path.join(this.mirrorDir, relativePath), relativePath };
+  }
+
+  private async listSourceFiles(dir: string): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) {
+          files.push(...await this.listSourceFiles(entryPath));
+        }
+      } else if (entry.isFile() && getSourceKind(entry.name)) {
+        files.push(entryPath);
+      }
+    }
+
+    return files;
+  }
+
+  private toRelative(gameDir: string, file: string): string {
+    return path.relative(gameDir, file).split(path.sep).join('/');
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
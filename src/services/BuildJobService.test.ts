@@ -0,0 +1,139 @@
+import { BuildJobService } from './BuildJobService.js';
+import { Builder } from '../core/Builder.js';
+import { BuildEventEmitter } from '../utils/BuildEvents.js';
+import { Logger, LogLevel } from '../utils/Logger.js';
+import { BuildResult } from '../types/Build.js';
+
+/**
+ * Stands in for the builder, holding every call open until it is finished.
+ */
+class FakeBuilder {
+  events: BuildEventEmitter;
+  calls: { action: string; gameIds: string[]; finish: (error?: Error) => void }[] = [];
+
+  constructor(logger: Logger) {
+    this.events = new BuildEventEmitter(logger);
+  }
+
+  buildAll(): Promise<BuildResult> {
+    return this.call('build', []);
+  }
+
+  rebuildGames(gameIds: string[]): Promise<BuildResult> {
+    return this.call('rebuild', gameIds);
+  }
+
+  private call(action: string, gameIds: string[]): Promise<BuildResult> {
+    return new Promise((resolve, reject) => {
+      this.calls.push({
+        action,
+        gameIds,
+        finish: error => error ? reject(error) : resolve(result())
+      });
+    });
+  }
+}
+
+function result(): BuildResult {
+  return {
+    success: true,
+    totalGames: 1,
+    successCount: 1,
+    failedCount: 0,
+    skippedCount: 0,
+    totalDuration: 0,
+    startTime: new Date(),
+    endTime: new Date(),
+    games: [],
+    errors: [],
+    warnings: []
+  };
+}
+
+/** Let finished calls settle and the next jobs start */
+async function settle(): Promise<void> {
+  await new Promise(resolve => setImmediate(resolve));
+}
+
+describe('BuildJobService', () => {
+  let builder: FakeBuilder;
+  let jobs: BuildJobService;
+
+  beforeEach(() => {
+    const logger = new Logger({ level: LogLevel.SILENT });
+    builder = new FakeBuilder(logger);
+    jobs = new BuildJobService(builder as unknown as Builder, logger);
+  });
+
+  it('runs jobs on different games side by side', () => {
+    const first = jobs.enqueue({ action: 'rebuild', gameIds: ['chess'] }, 'api');
+    const second = jobs.enqueue({ action: 'rebuild', gameIds: ['2048'] }, 'api');
+
+    expect(first.status).toBe('running');
+    expect(second.status).toBe('running');
+    expect(builder.calls.map(call => call.gameIds)).toEqual([['chess'], ['2048']]);
+  });
+
+  it('runs jobs on the same game one at a time, in order', async () => {
+    const first = jobs.enqueue({ action: 'rebuild', gameIds: ['chess'] }, 'api');
+    const second = jobs.enqueue({ action: 'rebuild', gameIds: ['chess', '2048'] }, 'api');
+    // Free, but must not overtake the waiting job on 2048
+    const third = jobs.enqueue({ action: 'rebuild', gameIds: ['2048'] }, 'api');
+
+    expect(second.status).toBe('queued');
+    expect(third.status).toBe('queued');
+    expect(builder.calls).toHaveLength(1);
+
+    builder.calls[0]?.finish();
+    await settle();
+
+    expect(first.status).toBe('succeeded');
+    expect(second.status).toBe('running');
+    expect(third.status).toBe('queued');
+
+    builder.calls[1]?.finish();
+    await settle();
+
+    expect(third.status).toBe('running');
+  });
+
+  it('locks every game for a full build', async () => {
+    const build = jobs.enqueue({ action: 'build' }, 'api');
+    const rebuild = jobs.enqueue({ action: 'rebuild', gameIds: ['chess'] }, 'api');
+
+    expect(build.status).toBe('running');
+    expect(rebuild.status).toBe('queued');
+
+    builder.calls[0]?.finish();
+    await settle();
+
+    expect(rebuild.status).toBe('running');
+  });
+
+  it('returns the waiting job for the same request', () => {
+    jobs.enqueue({ action: 'rebuild', gameIds: ['chess'] }, 'api');
+    const waiting = jobs.enqueue({ action: 'rebuild', gameIds: ['chess', '2048'] }, 'watch');
+
+    expect(jobs.enqueue({ action: 'rebuild', gameIds: ['2048', 'chess', 'chess'] }, 'watch')).toBe(waiting);
+    expect(jobs.enqueue({ action: 'rebuild', gameIds: ['chess'] }, 'watch')).not.toBe(waiting);
+    expect(jobs.list()).toHaveLength(3);
+  });
+
+  it('does not merge with a job that is already running', () => {
+    const running = jobs.enqueue({ action: 'rebuild', gameIds: ['chess'] }, 'api');
+
+    expect(jobs.enqueue({ action: 'rebuild', gameIds: ['chess'] }, 'api')).not.toBe(running);
+  });
+
+  it('records why a job failed and moves on', async () => {
+    const failing = jobs.enqueue({ action: 'rebuild', gameIds: ['chess'] }, 'api');
+    const next = jobs.enqueue({ action: 'rebuild', gameIds: ['chess'] }, 'api');
+
+    builder.calls[0]?.finish(new Error('Clone failed'));
+    await settle();
+
+    expect(failing.status).toBe('failed');
+    expect(failing.error).toBe('Clone failed');
+    expect(next.status).toBe('running');
+  });
+});
@@ -0,0 +1,245 @@
+import { randomUUID } from 'crypto';
+import { Logger } from '../utils/Logger.js';
+import { Builder } from '../core/Builder.js';
+import { BuildStatus } from '../types/Game.js';
+import { BuildResult, UpdateResult } from '../types/Build.js';
+
+// Finished jobs kept for status requests
+const MAX_FINISHED_JOBS = 20;
+
+export type BuildJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+/** `build` builds the whole site, the others act on the games given */
+export type BuildJobAction = 'build' | 'rebuild' | 'update' | 'delete';
+
+export interface BuildJobRequest {
+  action: BuildJobAction;
+  /** The games to act on, unset for a full build */
+  gameIds?: string[];
+}
+
+export interface BuildJob extends BuildJobRequest {
+  id: string;
+  status: BuildJobStatus;
+  /** What asked for the job, e.g. `api` or `watch` */
+  trigger: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  progress: BuildJobProgress;
+  result?: BuildJobResult;
+  /** Why the job could not run at all */
+  error?: string;
+}
+
+export interface BuildJobProgress {
+  total: number;
+  finished: number;
+  failed: number;
+}
+
+export interface BuildJobResult {
+  success: boolean;
+  successCount: number;
+  failedCount: number;
+  skippedCount: number;
+  /** Milliseconds */
+  totalDuration: number;
+  errors: string[];
+}
+
+export type BuildJobEvent = 'queued' | 'started' | 'finished';
+export type BuildJobListener = (event: BuildJobEvent, job: BuildJob) => void;
+
+/**
+ * Runs builds, updates and deletions in the background. Each job locks the
+ * games it acts on, a full build locks them all, so jobs on different games
+ * run side by side and jobs on the same game run in the order they came in.
+ * Asking for a job that is already waiting returns the waiting one, so a
+ * burst of file changes builds once.
+ */
+export class BuildJobService {
+  private logger: Logger;
+  private builder: Builder;
+  private jobs = new Map<string, BuildJob>();
+  private queue: BuildJob[] = [];
+  private running = new Set<BuildJob>();
+  private listeners = new Set<BuildJobListener>();
+
+  constructor(builder: Builder, logger: Logger) {
+    this.builder = builder;
+    this.logger = logger.createChildLogger('BuildJobService');
+  }
+
+  enqueue(request: BuildJobRequest, trigger: string): BuildJob {
+    const gameIds = request.gameIds ? [...new Set(request.gameIds)].sort() : undefined;
+    const waiting = this.queue.find(job => job.action === request.action && sameGames(job.gameIds, gameIds));
+    if (waiting) {
+      return waiting;
+    }
+
+    const job: BuildJob = {
+      id: randomUUID(),
+      action: request.action,
+      ...(gameIds ? { gameIds } : {}),
+      status: 'queued',
+      trigger,
+      createdAt: new Date().toISOString(),
+      progress: { total: 0, finished: 0, failed: 0 }
+    };
+    this.jobs.set(job.id, job);
+    this.queue.push(job);
+    this.notify('queued', job);
+    this.schedule();
+    return job;
+  }
+
+  get(id: string): BuildJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * All known jobs, newest first, or those acting on one game.
+   */
+  list(gameId?: string): BuildJob[] {
+    return [...this.jobs.values()]
+      .filter(job => gameId === undefined || !job.gameIds || job.gameIds.includes(gameId))
+      .reverse();
+  }
+
+  /**
+   * Returns a function that stops listening.
+   */
+  onChange(listener: BuildJobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start every queued job whose games are free. Games of jobs still
+   * waiting stay reserved for them, so a later job cannot overtake an
+   * earlier one on the same game.
+   */
+  private schedule(): void {
+    const reserved: BuildJob[] = [...this.running];
+    for (const job of [...this.queue]) {
+      if (reserved.some(other => overlaps(job, other))) {
+        reserved.push(job);
+        continue;
+      }
+      this.queue.splice(this.queue.indexOf(job), 1);
+      reserved.push(job);
+      void this.run(job);
+    }
+  }
+
+  private async run(job: BuildJob): Promise<void> {
+    this.running.add(job);
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    this.notify('started', job);
+
+    // Other jobs may be building other games at the same time
+    const isOwn = (gameId: string) => !job.gameIds || job.gameIds.includes(gameId);
+    const stopQueued = this.builder.events.on('game:queued', event => {
+      if (isOwn(event.gameId)) job.progress.total++;
+    });
+    const stopDone = this.builder.events.on('game:done', event => {
+      if (!isOwn(event.gameId)) return;
+      job.progress.finished++;
+      if (event.result.game.buildStatus === BuildStatus.FAILED) {
+        job.progress.failed++;
+      }
+    });
+
+    try {
+      const result = await this.perform(job);
+      job.status = !result || result.success ? 'succeeded' : 'failed';
+      if (result) {
+        job.result = result;
+      }
+    } catch (error) {
+      job.status = 'failed';
+      // The builder has logged it already
+      job.error = error instanceof Error ? error.message : String(error);
+    } finally {
+      stopQueued();
+      stopDone();
+      job.finishedAt = new Date().toISOString();
+      this.running.delete(job);
+    }
+
+    this.notify('finished', job);
+    this.pruneFinished();
+    this.schedule();
+  }
+
+  private async perform(job: BuildJob): Promise<BuildJobResult | undefined> {
+    const gameIds = job.gameIds ?? [];
+    switch (job.action) {
+      case 'build':
+        return summarizeBuild(await this.builder.buildAll());
+      case 'rebuild':
+        return summarizeBuild(await this.builder.rebuildGames(gameIds));
+      case 'update':
+        return summarizeUpdate(await this.builder.updateAll(gameIds));
+      case 'delete':
+        await this.builder.removeGames(gameIds);
+        return undefined;
+    }
+  }
+
+  private notify(event: BuildJobEvent, job: BuildJob): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event, job);
+      } catch (error) {
+        this.logger.warn(`Build job listener failed on ${event}`, error);
+      }
+    }
+  }
+
+  private pruneFinished(): void {
+    const finished = [...this.jobs.values()].filter(job => job.finishedAt);
+    for (const job of finished.slice(0, Math.max(finished.length - MAX_FINISHED_JOBS, 0))) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
+
+function overlaps(a: BuildJob, b: BuildJob): boolean {
+  if (!a.gameIds || !b.gameIds) {
+    return true;
+  }
+  return a.gameIds.some(gameId => b.gameIds?.includes(gameId));
+}
+
+function sameGames(a: string[] | undefined, b: string[] | undefined): boolean {
+  return a === undefined || b === undefined
+    ? a === b
+    : a.length === b.length && a.every((gameId, index) => gameId === b[index]);
+}
+
+function summarizeBuild(result: BuildResult): BuildJobResult {
+  return {
+    success: result.success,
+    successCount: result.successCount,
+    failedCount: result.failedCount,
+    skippedCount: result.skippedCount,
+    totalDuration: result.totalDuration,
+    errors: result.errors.map(error => error.gameId ? `${error.gameId}: ${error.message}` : error.message)
+  };
+}
+
+function summarizeUpdate(result: UpdateResult): BuildJobResult {
+  return {
+    success: result.success,
+    successCount: result.updatedCount + result.unchangedCount,
+    failedCount: result.failedCount,
+    skippedCount: 0,
+    totalDuration: result.totalDuration,
+    errors: result.games.flatMap(game => game.errors.map(error => `${game.game.id}: ${error}`))
+  };
+}
@@ -0,0 +1,94 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { BuildService } from './BuildService.js';
+import { Logger, LogLevel } from '../utils/Logger.js';
+import { BuildConfig } from '../types/Build.js';
+import { BuildStatus, GameConfig, UpdateStatus } from '../types/Game.js';
+
+const game: GameConfig = {
+  name: 'Chess',
+  tag: 'board game',
+  license: 'MIT',
+  git: 'https://github.com/attogram/chess.git',
+  mobile: true,
+  desktop: true
+};
+
+const page = (title: string) =>
+  `<html><head><title>${title}</title><script src="https://cdn.example.com/chess.js"></script></head></html>`;
+
+describe('BuildService', () => {
+  let tempDir: string;
+  let upstreamDir: string;
+  let gameDir: string;
+  let config: BuildConfig;
+  const logger = new Logger({ level: LogLevel.SILENT });
+
+  function git(cwd: string, ...args: string[]): string {
+    return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd, encoding: 'utf-8' });
+  }
+
+  async function commitUpstream(title: string): Promise<void> {
+    await fs.outputFile(path.join(upstreamDir, 'index.html'), page(title));
+    git(upstreamDir, 'add', '.');
+    git(upstreamDir, 'commit', '-q', '-m', title);
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'attogram-build-'));
+    upstreamDir = path.join(tempDir, 'upstream');
+    gameDir = path.join(tempDir, 'out', 'chess');
+    config = {
+      outputDir: path.join(tempDir, 'out'),
+      templatesDir: path.join(tempDir, 'templates'),
+      customDir: path.join(tempDir, 'custom'),
+      logoDir: path.join(tempDir, 'logo'),
+      concurrency: 1,
+      enableCache: false,
+      skipExisting: false
+    };
+
+    await fs.ensureDir(upstreamDir);
+    git(upstreamDir, 'init', '-q');
+    await commitUpstream('Chess 1');
+    git(tempDir, 'clone', '-q', upstreamDir, gameDir);
+
+    await fs.outputFile(path.join(tempDir, 'mirror', 'cdn.example.com', 'chess.js'), '// chess\n');
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  describe('updateGame', () => {
+    it('vendors mirrored resources again after pulling a mirrored game', async () => {
+      config.mirrorDir = path.join(tempDir, 'mirror');
+      const builds = new BuildService(config, logger);
+      const installed = await builds.updateGame('chess', game);
+      await commitUpstream('Chess 2');
+
+      const result = await builds.updateGame('chess', game, installed.game.lastCommit);
+
+      expect(result.updateStatus).toBe(UpdateStatus.UPDATED);
+      expect(result.externalResources?.unresolved).toEqual([]);
+      expect(await fs.readFile(path.join(gameDir, 'index.html'), 'utf8'))
+        .toBe(page('Chess 2').replace('https://cdn.example.com/chess.js', '_vendor/cdn.example.com/chess.js'));
+      expect(await fs.pathExists(path.join(gameDir, '_vendor', 'cdn.example.com', 'chess.js'))).toBe(true);
+    });
+
+    it('fails updates that leave remote references with --offline-strict', async () => {
+      config.offlineStrict = true;
+      const builds = new BuildService(config, logger);
+      const recorded = git(gameDir, 'rev-parse', 'HEAD').trim();
+      await commitUpstream('Chess 2');
+
+      const result = await builds.updateGame('chess', game, recorded);
+
+      expect(result.updateStatus).toBe(UpdateStatus.FAILED);
+      expect(result.game.buildStatus).toBe(BuildStatus.FAILED);
+      expect(result.errors).toEqual(['Unresolved remote references: https://cdn.example.com/chess.js']);
+    });
+  });
+});
@@ -1,24 +1,57 @@
-import { spawn } from 'child_process'; 
 import fs from 'fs-extra';
 import path from 'path';
 import pLimit from 'p-limit';
+import { finished } from 'stream/promises';
 import { Logger } from '../utils/Logger.js';
-import { GameConfig, GameMetadata, BuildStatus, GameBuildResult } from '../types/Game.js';
-import { BuildConfig, BuildResult, BuildError, BuildPhase } from '../types/Build.js';
+import {
+  GameConfig,
+  GameMetadata,
+  BuildStatus,
+  BuildStep,
+  BuildStepResult,
+  GameBuildResult,
+  GameUpdateResult,
+  UpdateStatus
+} from '../types/Game.js';
+import { BuildConfig, BuildResult, BuildError, BuildPhase, UpdateResult } from '../types/Build.js';
 import { GitService } from './GitService.js';
+import { CacheService } from './CacheService.js';
+import { StepService } from './StepService.js';
+import { RequirementService } from './RequirementService.js';
+import { ScrubService } from './ScrubService.js';
+import { AssetService, VENDOR_DIR } from './AssetService.js';
+import { BuildEventEmitter, PhaseTracker } from '../utils/BuildEvents.js';
+
+/** What the post-build transforms found, filled in as each one finishes */
+type TransformResults = Pick<GameBuildResult, 'scrub' | 'externalResources'>;
 
 export class BuildService {
   private logger: Logger;
   private gitService: GitService;
+  private cacheService: CacheService;
+  private stepService: StepService;
+  private requirementService: RequirementService;
+  private scrubService: ScrubService;
+  private assetService: AssetService;
   private config: BuildConfig;
+  readonly events: BuildEventEmitter;
 
   constructor(config: BuildConfig, logger: Logger) {
     this.config = config;
     this.logger = logger.createChildLogger('BuildService');
+    this.events = new BuildEventEmitter(logger);
     this.gitService = new GitService(logger);
+    this.cacheService = new CacheService(config, logger);
+    this.stepService = new StepService(config, logger);
+    this.requirementService = new RequirementService(logger);
+    this.scrubService = new ScrubService(config, logger);
+    this.assetService = new AssetService(config, logger);
   }
 
-  async buildAll(gameConfigs: { [gameId: string]: GameConfig }): Promise<BuildResult> {
+  async buildAll(
+    gameConfigs: { [gameId: string]: GameConfig },
+    lockedCommits: { [gameId: string]: string | undefined } = {}
+  ): Promise<BuildResult> {
     const startTime = new Date();
     this.logger.info(`Starting build process for ${Object.keys(gameConfigs).length} games`);
 
@@ -28,7 +61,8 @@ export class BuildService {
 
     // Create build promises for each game
     for (const [gameId, gameConfig] of Object.entries(gameConfigs)) {
-      const buildPromise = limit(() => this.buildGame(gameId, gameConfig));
+      this.events.emit({ type: 'game:queued', gameId });
+      const buildPromise = limit(() => this.buildGame(gameId, gameConfig, lockedCommits[gameId]));
       buildPromises.push(buildPromise);
     }
 
@@ -39,6 +73,7 @@ export class BuildService {
     // Process results
     const gameResultsArray: GameBuildResult[] = [];
     const errors: BuildError[] = [];
+    const warnings: string[] = [];
     let successCount = 0;
     let failedCount = 0;
     let skippedCount = 0;
@@ -46,7 +81,12 @@ export class BuildService {
     for (const result of gameResults) {
       if (result.status === 'fulfilled') {
         gameResultsArray.push(result.value);
-        if (result.value.success) {
+        if (result.value.game.buildStatus === BuildStatus.SKIPPED) {
+          skippedCount++;
+          if (result.value.skipReason) {
+            warnings.push(`Skipped ${result.value.game.id}: ${result.value.skipReason}`);
+          }
+        } else if (result.value.success) {
           successCount++;
         } else {
           failedCount++;
@@ -55,7 +95,7 @@ export class BuildService {
             errors.push({
               message: error,
               gameId: result.value.game.id,
-              phase: BuildPhase.BUILD,
+              phase: result.value.phase ?? BuildPhase.BUILD,
               timestamp: new Date()
             });
           });
@@ -82,7 +122,7 @@ export class BuildService {
       endTime,
       games: gameResultsArray,
       errors,
-      warnings: []
+      warnings
     };
 
     this.logger.info(`Build completed in ${totalDuration}ms`, {
@@ -94,11 +134,27 @@ export class BuildService {
     return buildResult;
   }
 
-  async buildGame(gameId: string, config: GameConfig): Promise<GameBuildResult> {
+  async buildGame(gameId: string, config: GameConfig, lockedCommit?: string): Promise<GameBuildResult> {
+    const phases = new PhaseTracker(this.events, gameId);
+    const result = await this.runBuild(gameId, config, lockedCommit, phases);
+    this.finishGame(gameId, result, phases);
+    return result;
+  }
+
+  private async runBuild(
+    gameId: string,
+    config: GameConfig,
+    lockedCommit: string | undefined,
+    phases: PhaseTracker
+  ): Promise<GameBuildResult> {
     const startTime = performance.now();
     const gameDir = path.join(this.config.outputDir, gameId);
     const errors: string[] = [];
     const warnings: string[] = [];
+    const steps: BuildStepResult[] = [];
+    const transforms: TransformResults = {};
+    let phase = phases.enter(BuildPhase.SETUP);
+    let logFile: string | undefined;
 
     this.logger.info(`Building game: ${gameId}`);
 
@@ -110,8 +166,11 @@ export class BuildService {
     };
 
     try {
-      // Check if game already exists and skip if configured
-      if (this.config.skipExisting && await fs.pathExists(gameDir)) {
+      // Unless they are to be kept, the builder moves installed games out of the way first
+      if (await fs.pathExists(gameDir)) {
+        if (!this.config.skipExisting) {
+          throw new Error(`${gameDir} already exists - cloning into it would fail half-way through`);
+        }
         this.logger.info(`Skipping ${gameId} - already exists`);
         metadata.buildStatus = BuildStatus.SKIPPED;
         return {
@@ -119,19 +178,70 @@ export class BuildService {
           success: true,
           duration: performance.now() - startTime,
           errors: [],
-          warnings: ['Skipped - already exists']
+          warnings: ['Skipped - already exists'],
+          phase
+        };
+      }
+
+      // Restore a finished build of the same commit and build steps if we have one
+      if (this.config.enableCache) {
+        const remoteCommit = await this.resolveExpectedCommit(config, lockedCommit);
+        const cached = remoteCommit
+          ? await this.cacheService.restore(this.cacheService.computeKey(config, remoteCommit), gameDir)
+          : null;
+
+        if (cached) {
+          // The cache holds the build before transforms, so rules can change without invalidating it
+          metadata.lastCommit = cached.commit;
+          phase = phases.enter(BuildPhase.ASSETS);
+          await this.transformGame(gameId, gameDir, config, transforms, warnings);
+          metadata.buildStatus = BuildStatus.SUCCESS;
+          metadata.buildTime = performance.now() - startTime;
+
+          this.logger.success(`Restored ${gameId} from cache in ${metadata.buildTime.toFixed(2)}ms`);
+
+          return {
+            game: metadata,
+            success: true,
+            duration: metadata.buildTime,
+            errors,
+            warnings,
+            fromCache: true,
+            phase: BuildPhase.FINALIZE,
+            ...transforms
+          };
+        }
+      }
+
+      // Missing tools are a reason to skip, not a build failure
+      const missing = await this.checkRequirements(config);
+      if (missing.length > 0) {
+        const skipReason = `missing requirements: ${missing.join('; ')}`;
+        this.logger.warn(`Skipping ${gameId} - ${skipReason}`);
+        metadata.buildStatus = BuildStatus.SKIPPED;
+        return {
+          game: metadata,
+          success: true,
+          duration: performance.now() - startTime,
+          errors: [],
+          warnings: [],
+          skipReason,
+          phase
         };
       }
 
       // Clone repository
+      phase = phases.enter(BuildPhase.CLONE);
       const cloneResult = await this.gitService.clone(gameId, config, gameDir);
       if (!cloneResult.success) {
         throw new Error(`Clone failed: ${cloneResult.error}`);
       }
 
-      // Checkout specific branch if specified
-      if (config.branch) {
-        const checkoutResult = await this.gitService.checkout(gameId, gameDir, config.branch);
+      // Checkout the locked commit, else the pinned commit, tag or branch
+      const checkoutRef = lockedCommit ?? config.commit ?? config.gitTag ?? config.branch;
+      if (checkoutRef) {
+        phase = phases.enter(BuildPhase.CHECKOUT);
+        const checkoutResult = await this.gitService.checkout(gameId, gameDir, checkoutRef);
         if (!checkoutResult.success) {
           throw new Error(`Checkout failed: ${checkoutResult.error}`);
         }
@@ -145,9 +255,22 @@ export class BuildService {
 
       // Execute build steps if specified
       if (config.build && config.build.length > 0) {
-        await this.executeBuildSteps(gameId, gameDir, config.build);
+        phase = phases.enter(BuildPhase.BUILD);
+        logFile = this.getStepLogPath(gameId);
+        await this.executeBuildSteps(gameId, gameDir, config.build, steps, warnings, logFile);
       }
 
+      if (this.config.enableCache && latestCommit) {
+        try {
+          await this.cacheService.store(this.cacheService.computeKey(config, latestCommit), gameId, latestCommit, gameDir);
+        } catch (error) {
+          warnings.push(`Could not cache build: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      phase = phases.enter(BuildPhase.ASSETS);
+      await this.transformGame(gameId, gameDir, config, transforms, warnings);
+
       metadata.buildStatus = BuildStatus.SUCCESS;
       metadata.buildTime = performance.now() - startTime;
 
@@ -158,7 +281,11 @@ export class BuildService {
         success: true,
         duration: metadata.buildTime,
         errors,
-        warnings
+        warnings,
+        phase: BuildPhase.FINALIZE,
+        steps,
+        ...(logFile ? { logFile } : {}),
+        ...transforms
       };
 
     } catch (error) {
@@ -174,60 +301,355 @@ export class BuildService {
         success: false,
         duration: performance.now() - startTime,
         errors,
-        warnings
+        warnings,
+        phase,
+        steps,
+        ...(logFile ? { logFile } : {}),
+        ...transforms
       };
     }
   }
 
-  private async executeBuildSteps(gameId: string, gameDir: string, buildSteps: string[]): Promise<void> {
-    this.logger.info(`Executing ${buildSteps.length} build steps for ${gameId}`);
+  async updateAll(
+    gameConfigs: { [gameId: string]: GameConfig },
+    recordedCommits: { [gameId: string]: string | undefined }
+  ): Promise<UpdateResult> {
+    const startTime = new Date();
+    this.logger.info(`Starting update process for ${Object.keys(gameConfigs).length} games`);
+
+    const limit = pLimit(this.config.concurrency);
+    const games = await Promise.all(
+      Object.entries(gameConfigs).map(([gameId, gameConfig]) => {
+        this.events.emit({ type: 'game:queued', gameId });
+        return limit(() => this.updateGame(gameId, gameConfig, recordedCommits[gameId]));
+      })
+    );
+    const endTime = new Date();
 
-    for (let i = 0; i < buildSteps.length; i++) {
-      const step = buildSteps[i];
-      if (!step) continue;
-      
-      this.logger.debug(`Executing step ${i + 1}/${buildSteps.length}: ${step}`);
-
-      await new Promise<void>((resolve, reject) => {
-        const parts = step.split(' ');
-        const command = parts[0];
-        const args = parts.slice(1);
-        
-        if (!command) {
-          reject(new Error(`Invalid build step: ${step}`));
-          return;
+    const count = (status: UpdateStatus) => games.filter(game => game.updateStatus === status).length;
+    const updateResult: UpdateResult = {
+      success: count(UpdateStatus.FAILED) === 0,
+      totalGames: games.length,
+      updatedCount: count(UpdateStatus.UPDATED),
+      unchangedCount: count(UpdateStatus.UNCHANGED),
+      failedCount: count(UpdateStatus.FAILED),
+      totalDuration: endTime.getTime() - startTime.getTime(),
+      startTime,
+      endTime,
+      games
+    };
+
+    this.logger.info(`Update completed in ${updateResult.totalDuration}ms`, {
+      updated: updateResult.updatedCount,
+      unchanged: updateResult.unchangedCount,
+      failed: updateResult.failedCount
+    });
+
+    return updateResult;
+  }
+
+  /**
+   * Pull an installed game and re-run its build steps, but only when the
+   * pull moved HEAD away from the commit recorded at the last build.
+   */
+  async updateGame(gameId: string, config: GameConfig, recordedCommit?: string): Promise<GameUpdateResult> {
+    const phases = new PhaseTracker(this.events, gameId);
+    const result = await this.runUpdate(gameId, config, recordedCommit, phases);
+    this.finishGame(gameId, result, phases);
+    return result;
+  }
+
+  private async runUpdate(
+    gameId: string,
+    config: GameConfig,
+    recordedCommit: string | undefined,
+    phases: PhaseTracker
+  ): Promise<GameUpdateResult> {
+    const startTime = performance.now();
+    const gameDir = path.join(this.config.outputDir, gameId);
+
+    this.logger.info(`Updating game: ${gameId}`);
+
+    const metadata: GameMetadata = {
+      id: gameId,
+      config,
+      buildStatus: BuildStatus.BUILDING
+    };
+    const previous = recordedCommit ? { previousCommit: recordedCommit } : {};
+    const warnings: string[] = recordedCommit ? [] : ['No recorded commit - build steps re-run'];
+    const steps: BuildStepResult[] = [];
+    const transforms: TransformResults = {};
+    let phase = phases.enter(BuildPhase.SETUP);
+    let logFile: string | undefined;
+    let transformsUndone = false;
+
+    try {
+      if (!(await fs.pathExists(gameDir))) {
+        throw new Error(`${gameId} is not installed - run build first`);
+      }
+
+      if (config.commit || config.gitTag) {
+        this.logger.info(`${gameId} is pinned to ${config.commit ?? config.gitTag} - not pulling`);
+        metadata.buildStatus = BuildStatus.SUCCESS;
+        const pinnedCommit = recordedCommit ?? await this.gitService.getLatestCommit(gameDir);
+        if (pinnedCommit) {
+          metadata.lastCommit = pinnedCommit;
         }
+        return {
+          game: metadata,
+          success: true,
+          duration: performance.now() - startTime,
+          errors: [],
+          warnings: [`Pinned to ${config.commit ?? config.gitTag}`],
+          phase: BuildPhase.FINALIZE,
+          updateStatus: UpdateStatus.UNCHANGED,
+          ...previous
+        };
+      }
 
-        const child = spawn(command, args, {
-          cwd: gameDir,
-          stdio: ['ignore', 'pipe', 'pipe']
-        });
+      // Scrubbing and vendoring rewrote tracked files, which checkout and pull refuse to overwrite
+      phase = phases.enter(BuildPhase.CHECKOUT);
+      const resetResult = await this.gitService.discardChanges(gameId, gameDir, [VENDOR_DIR]);
+      if (!resetResult.success) {
+        throw new Error(`Could not reset transformed files: ${resetResult.error}`);
+      }
+      transformsUndone = true;
 
-        let stdout = '';
-        let stderr = '';
+      // Locked builds leave a detached HEAD, which cannot be pulled
+      const branch = config.branch ?? await this.gitService.getDefaultBranch(gameDir);
+      if (branch) {
+        const checkoutResult = await this.gitService.checkout(gameId, gameDir, branch);
+        if (!checkoutResult.success) {
+          throw new Error(`Checkout failed: ${checkoutResult.error}`);
+        }
+      }
 
-        child.stdout.on('data', (data: Buffer) => {
-          stdout += data.toString();
-        });
+      const pullResult = await this.gitService.pull(gameId, gameDir);
+      if (!pullResult.success) {
+        throw new Error(`Pull failed: ${pullResult.error}`);
+      }
 
-        child.stderr.on('data', (data: Buffer) => {
-          stderr += data.toString();
-        });
+      const latestCommit = await this.gitService.getLatestCommit(gameDir);
+      if (latestCommit) {
+        metadata.lastCommit = latestCommit;
+      }
 
-        child.on('close', (code: number | null) => {
-          if (code === 0) {
-            this.logger.debug(`Step completed: ${step}`);
-            resolve();
-          } else {
-            const error = new Error(`Build step failed with code ${code}: ${step}\nStderr: ${stderr}`);
-            reject(error);
-          }
-        });
+      if (latestCommit && latestCommit === recordedCommit) {
+        this.logger.info(`${gameId} is unchanged at ${latestCommit.slice(0, 7)}`);
+        phase = phases.enter(BuildPhase.ASSETS);
+        transformsUndone = false;
+        await this.transformGame(gameId, gameDir, config, transforms, warnings);
+        metadata.buildStatus = BuildStatus.SUCCESS;
+        return {
+          game: metadata,
+          success: true,
+          duration: performance.now() - startTime,
+          errors: [],
+          warnings,
+          phase: BuildPhase.FINALIZE,
+          ...transforms,
+          updateStatus: UpdateStatus.UNCHANGED,
+          ...previous
+        };
+      }
+
+      if (config.build && config.build.length > 0) {
+        phase = phases.enter(BuildPhase.BUILD);
+        const missing = await this.checkRequirements(config);
+        if (missing.length > 0) {
+          throw new Error(`Cannot re-run build steps, missing requirements: ${missing.join('; ')}`);
+        }
+        logFile = this.getStepLogPath(gameId);
+        await this.executeBuildSteps(gameId, gameDir, config.build, steps, warnings, logFile);
+      }
+
+      phase = phases.enter(BuildPhase.ASSETS);
+      transformsUndone = false;
+      await this.transformGame(gameId, gameDir, config, transforms, warnings);
+
+      metadata.buildStatus = BuildStatus.SUCCESS;
+      metadata.buildTime = performance.now() - startTime;
+      metadata.lastBuilt = new Date();
+
+      this.logger.success(`Updated ${gameId} to ${latestCommit?.slice(0, 7) ?? 'unknown commit'}`);
+
+      return {
+        game: metadata,
+        success: true,
+        duration: metadata.buildTime,
+        errors: [],
+        warnings,
+        phase: BuildPhase.FINALIZE,
+        steps,
+        ...(logFile ? { logFile } : {}),
+        ...transforms,
+        updateStatus: UpdateStatus.UPDATED,
+        ...previous
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      metadata.buildStatus = BuildStatus.FAILED;
+      metadata.buildErrors = [errorMessage];
+
+      this.logger.error(`Failed to update ${gameId}`, error);
+
+      // The game stays installed, so do not leave it serving what the scrub removed
+      if (transformsUndone) {
+        try {
+          await this.transformGame(gameId, gameDir, config, transforms, warnings);
+        } catch (transformError) {
+          warnings.push(`Could not transform ${gameId} again: ${transformError instanceof Error ? transformError.message : String(transformError)}`);
+        }
+      }
+
+      return {
+        game: metadata,
+        success: false,
+        duration: performance.now() - startTime,
+        errors: [errorMessage],
+        warnings,
+        phase,
+        steps,
+        ...(logFile ? { logFile } : {}),
+        ...transforms,
+        updateStatus: UpdateStatus.FAILED,
+        ...previous
+      };
+    }
+  }
+
+  private finishGame(gameId: string, result: GameBuildResult, phases: PhaseTracker): void {
+    phases.finish(result.game.buildStatus !== BuildStatus.FAILED);
+    this.events.emit({ type: 'game:done', gameId, result });
+  }
+
+  /**
+   * Reasons the game's `require` list is not met, empty when it is.
+   */
+  private async checkRequirements(config: GameConfig): Promise<string[]> {
+    if (!config.require || config.require.length === 0) {
+      return [];
+    }
+
+    const checks = await this.requirementService.check(config.require);
+    return checks.filter(check => !check.satisfied).map(check => check.reason ?? check.requirement);
+  }
+
+  /**
+   * Post-build transforms, run on fresh builds, cache restores and updates
+   * alike: scrub trackers, then audit and vendor external resources. Tracker
+   * domains the config does not allow are warned about the first time and
+   * fail the build when they were not there at the last scrub. Also throws
+   * when `offlineStrict` is set and remote references remain.
+   */
+  private async transformGame(
+    gameId: string,
+    gameDir: string,
+    config: GameConfig,
+    results: TransformResults,
+    warnings: string[]
+  ): Promise<void> {
+    const scrub = await this.scrubService.scrub(gameId, gameDir, config);
+    results.scrub = scrub;
+
+    const unexpected = this.scrubService.getUnexpectedDomains(scrub, config);
+    if (unexpected.length > 0) {
+      const recorded = (await this.scrubService.loadReport()).games[gameId];
+      const added = recorded ? unexpected.filter(domain => !(domain in recorded.trackerDomains)) : [];
+      const describe = (domains: string[]) =>
+        domains.map(domain => `${domain} (${scrub.trackerDomains[domain]?.join(', ')})`).join('; ');
+
+      if (added.length > 0) {
+        throw new Error(
+          `New tracker domains remain after scrubbing: ${describe(added)} - add a scrub rule or list them in scrub.allowDomains`
+        );
+      }
+      warnings.push(`Tracker domains remain after scrubbing: ${describe(unexpected)}`);
+    }
+
+    const externalResources = await this.assetService.audit(gameId, gameDir, config);
+    results.externalResources = externalResources;
+
+    if (this.config.offlineStrict && externalResources.unresolved.length > 0) {
+      const shown = externalResources.unresolved.slice(0, 5).join(', ');
+      const more = externalResources.unresolved.length > 5 ? ` and ${externalResources.unresolved.length - 5} more` : '';
+      throw new Error(`Unresolved remote references: ${shown}${more}`);
+    }
+  }
+
+  /**
+   * The commit a fresh build would end up on, known without cloning when
+   * the game is locked or pinned to a full SHA.
+   */
+  private async resolveExpectedCommit(config: GameConfig, lockedCommit?: string): Promise<string | null> {
+    if (lockedCommit) {
+      return lockedCommit;
+    }
+    if (config.commit) {
+      return config.commit.length === 40 ? config.commit.toLowerCase() : null;
+    }
 
-        child.on('error', (error: Error) => {
-          reject(new Error(`Failed to execute build step: ${step}\nError: ${error.message}`));
+    return await this.gitService.getRemoteCommitFor(config);
+  }
+
+  /**
+   * Where the full output of a game's build steps goes, replaced by each build.
+   */
+  getStepLogPath(gameId: string): string {
+    return path.join(this.config.outputDir, '.attogram', 'logs', `${gameId}.log`);
+  }
+
+  private async executeBuildSteps(
+    gameId: string,
+    gameDir: string,
+    buildSteps: BuildStep[],
+    stepResults: BuildStepResult[],
+    warnings: string[],
+    logPath: string
+  ): Promise<void> {
+    this.logger.info(`Executing ${buildSteps.length} build steps for ${gameId}`);
+
+    await fs.ensureDir(path.dirname(logPath));
+    const log = fs.createWriteStream(logPath);
+    // A log that cannot be written should not fail the build
+    log.on('error', error => this.logger.warn(`Could not write build log ${logPath}`, error));
+
+    try {
+      for (let i = 0; i < buildSteps.length; i++) {
+        const step = buildSteps[i];
+        if (!step) continue;
+
+        const command = typeof step === 'string' ? step : step.run;
+        this.logger.debug(`Executing step ${i + 1}/${buildSteps.length}: ${command}`);
+        log.write(`$ ${command}\n`);
+
+        const result = await this.stepService.runStep(gameDir, step, (stream, chunk) => {
+          log.write(chunk);
+          this.events.emit({ type: 'step:output', gameId, command, stream, chunk });
         });
-      });
+        stepResults.push(result);
+
+        const reason = result.timedOut
+          ? 'timed out'
+          : result.exitCode === null ? 'could not be started' : `failed with code ${result.exitCode}`;
+        log.write(`\n[${result.success ? 'completed' : reason} in ${result.duration.toFixed(0)}ms]\n\n`);
+
+        if (result.success) {
+          this.logger.debug(`Step completed in ${result.duration.toFixed(0)}ms: ${command}`);
+          continue;
+        }
+
+        if (typeof step !== 'string' && step.allowFailure) {
+          this.logger.warn(`Build step ${reason}, continuing: ${command}`);
+          warnings.push(`Build step ${reason} (allowed): ${command}`);
+          continue;
+        }
+
+        throw new Error(`Build step ${reason}: ${command}\nStderr: ${result.stderr.trim()}`);
+      }
+    } finally {
+      log.end();
+      await finished(log).catch(() => undefined);
     }
 
     this.logger.success(`All build steps completed for ${gameId}`);
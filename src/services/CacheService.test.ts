@@ -0,0 +1,129 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CacheEntry, CacheService } from './CacheService.js';
+import { Logger, LogLevel } from '../utils/Logger.js';
+import { GameConfig } from '../types/Game.js';
+import { BuildConfig } from '../types/Build.js';
+
+const game: GameConfig = {
+  name: 'Chess',
+  tag: 'board game',
+  license: 'MIT',
+  git: 'https://github.com/attogram/chess.git',
+  mobile: true,
+  desktop: true
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('CacheService', () => {
+  let tempDir: string;
+  let cache: CacheService;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'attogram-cache-'));
+    const config: BuildConfig = {
+      outputDir: path.join(tempDir, 'out'),
+      templatesDir: path.join(tempDir, 'templates'),
+      customDir: path.join(tempDir, 'custom'),
+      logoDir: path.join(tempDir, 'logo'),
+      concurrency: 1,
+      enableCache: true,
+      cacheDir: path.join(tempDir, 'cache'),
+      skipExisting: false
+    };
+    cache = new CacheService(config, new Logger({ level: LogLevel.SILENT }));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  /** An entry as if stored some days ago */
+  async function addEntry(key: string, gameId: string, size: number, daysAgo: number): Promise<void> {
+    const usedAt = new Date(Date.now() - daysAgo * DAY).toISOString();
+    const entry: CacheEntry = { key, gameId, commit: 'a'.repeat(40), size, createdAt: usedAt, lastUsedAt: usedAt };
+    await fs.outputJSON(path.join(tempDir, 'cache', key, 'entry.json'), entry);
+  }
+
+  describe('computeKey', () => {
+    it('changes with the commit and anything that affects the build', () => {
+      const key = cache.computeKey(game, 'abc');
+
+      expect(cache.computeKey({ ...game }, 'abc')).toBe(key);
+      expect(cache.computeKey(game, 'abd')).not.toBe(key);
+      expect(cache.computeKey({ ...game, branch: 'dev' }, 'abc')).not.toBe(key);
+      expect(cache.computeKey({ ...game, build: ['npm ci'] }, 'abc')).not.toBe(key);
+    });
+
+    it('ignores fields that only describe the game', () => {
+      const key = cache.computeKey(game, 'abc');
+
+      expect(cache.computeKey({ ...game, name: 'Chess 2', mobile: false, categories: ['board'] }, 'abc')).toBe(key);
+    });
+  });
+
+  describe('store and restore', () => {
+    it('round-trips a game directory', async () => {
+      const sourceDir = path.join(tempDir, 'source');
+      await fs.outputFile(path.join(sourceDir, 'index.html'), '<h1>Chess</h1>');
+      const key = cache.computeKey(game, 'abc');
+
+      const stored = await cache.store(key, 'chess', 'abc', sourceDir);
+      const restored = await cache.restore(key, path.join(tempDir, 'restored'));
+
+      expect(stored.size).toBeGreaterThan(0);
+      expect(restored).toEqual(expect.objectContaining({ key, gameId: 'chess', commit: 'abc' }));
+      expect(await fs.readFile(path.join(tempDir, 'restored', 'index.html'), 'utf-8')).toBe('<h1>Chess</h1>');
+    });
+
+    it('misses on unknown keys', async () => {
+      expect(await cache.restore('missing', path.join(tempDir, 'restored'))).toBeNull();
+    });
+  });
+
+  describe('prune', () => {
+    beforeEach(async () => {
+      await addEntry('chess-new', 'chess', 300, 1);
+      await addEntry('chess-old', 'chess', 200, 10);
+      await addEntry('pool', 'pool', 100, 40);
+    });
+
+    const keys = (entries: CacheEntry[]) => entries.map(entry => entry.key).sort();
+
+    it('lists entries most recently used first', async () => {
+      expect((await cache.list()).map(entry => entry.key)).toEqual(['chess-new', 'chess-old', 'pool']);
+    });
+
+    it('removes entries unused for too long', async () => {
+      const result = await cache.prune({ maxAgeDays: 30 });
+
+      expect(keys(result.removed)).toEqual(['pool']);
+      expect(result).toEqual(expect.objectContaining({ freedBytes: 100, remainingBytes: 500 }));
+      expect(await fs.pathExists(path.join(tempDir, 'cache', 'pool'))).toBe(false);
+    });
+
+    it('keeps only the latest entry of each game', async () => {
+      expect(keys((await cache.prune({ supersededOnly: true })).removed)).toEqual(['chess-old']);
+    });
+
+    it('evicts least recently used entries until the cache fits', async () => {
+      const result = await cache.prune({ maxSize: 350 });
+
+      expect(keys(result.removed)).toEqual(['chess-old', 'pool']);
+      expect(result.remainingBytes).toBe(300);
+    });
+
+    it('counts entries already being removed towards the size limit', async () => {
+      expect(keys((await cache.prune({ maxAgeDays: 30, maxSize: 300 })).removed)).toEqual(['chess-old', 'pool']);
+    });
+
+    it('removes everything when asked', async () => {
+      const result = await cache.prune({ all: true });
+
+      expect(result.removed).toHaveLength(3);
+      expect(await cache.list()).toEqual([]);
+    });
+  });
+});
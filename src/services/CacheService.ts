@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { Logger } from '../utils/Logger.js';
+import { getDirectorySize } from '../utils/FileUtils.js';
+import { GameConfig } from '../types/Game.js';
+import { BuildConfig } from '../types/Build.js';
+
+export interface CacheEntry {
+  key: string;
+  gameId: string;
+  commit: string;
+  size: number;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+export interface CachePruneOptions {
+  /** Remove everything */
+  all?: boolean;
+  /** Remove entries not used for this many days */
+  maxAgeDays?: number;
+  /** Evict least recently used entries until the cache fits */
+  maxSize?: number;
+  /** Keep only the most recent entry of each game */
+  supersededOnly?: boolean;
+}
+
+export interface CachePruneResult {
+  removed: CacheEntry[];
+  freedBytes: number;
+  remainingBytes: number;
+}
+
+const ENTRY_FILE = 'entry.json';
+const CONTENT_DIR = 'game';
+
+/**
+ * Content-addressed store of finished game directories. An entry is keyed
+ * by the repository commit plus a hash of everything in the game config
+ * that affects what ends up on disk, so a hit can be restored instead of
+ * cloning and building again.
+ */
+export class CacheService {
+  private logger: Logger;
+  private cacheDir: string;
+
+  constructor(config: BuildConfig, logger: Logger) {
+    this.logger = logger.createChildLogger('CacheService');
+    this.cacheDir = config.cacheDir ?? path.join(config.outputDir, '.attogram', 'cache');
+  }
+
+  computeKey(config: GameConfig, commit: string): string {
+    const buildInputs = {
+      git: config.git,
+      branch: config.branch ?? null,
+      build: config.build ?? []
+    };
+    const configHash = crypto.createHash('sha256').update(JSON.stringify(buildInputs)).digest('hex');
+
+    return crypto.createHash('sha256').update(`${commit}\n${configHash}`).digest('hex');
+  }
+
+  async restore(key: string, targetDir: string): Promise<CacheEntry | null> {
+    const entryDir = path.join(this.cacheDir, key);
+    const entry = await this.readEntry(entryDir);
+    if (!entry) {
+      return null;
+    }
+
+    try {
+      await fs.copy(path.join(entryDir, CONTENT_DIR), targetDir, { preserveTimestamps: true });
+      entry.lastUsedAt = new Date().toISOString();
+      await fs.writeJSON(path.join(entryDir, ENTRY_FILE), entry, { spaces: 2 });
+
+      this.logger.info(`Restored ${entry.gameId} from cache (${entry.commit.slice(0, 7)})`);
+      return entry;
+    } catch (error) {
+      this.logger.warn(`Failed to restore ${entry.gameId} from cache`, error);
+      await fs.remove(targetDir);
+      return null;
+    }
+  }
+
+  async store(key: string, gameId: string, commit: string, sourceDir: string): Promise<CacheEntry> {
+    const entryDir = path.join(this.cacheDir, key);
+    // Copy into a staging directory first so a crash never leaves a half entry
+    const stagingDir = `${entryDir}.tmp-${process.pid}`;
+
+    await fs.remove(stagingDir);
+    await fs.copy(sourceDir, path.join(stagingDir, CONTENT_DIR), { preserveTimestamps: true });
+
+    const now = new Date().toISOString();
+    const entry: CacheEntry = {
+      key,
+      gameId,
+      commit,
+      size: await getDirectorySize(stagingDir),
+      createdAt: now,
+      lastUsedAt: now
+    };
+    await fs.writeJSON(path.join(stagingDir, ENTRY_FILE), entry, { spaces: 2 });
+
+    await fs.remove(entryDir);
+    await fs.move(stagingDir, entryDir);
+
+    this.logger.debug(`Cached ${gameId} at ${commit.slice(0, 7)} as ${key.slice(0, 12)}`);
+    return entry;
+  }
+
+  async list(): Promise<CacheEntry[]> {
+    if (!(await fs.pathExists(this.cacheDir))) {
+      return [];
+    }
+
+    const entries: CacheEntry[] = [];
+    for (const name of await fs.readdir(this.cacheDir)) {
+      const entry = await this.readEntry(path.join(this.cacheDir, name));
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+
+    return entries.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+
+  async prune(options: CachePruneOptions): Promise<CachePruneResult> {
+    const entries = await this.list();
+    const doomed = new Set<CacheEntry>();
+
+    if (options.all) {
+      entries.forEach(entry => doomed.add(entry));
+    }
+
+    if (options.supersededOnly) {
+      // Entries are newest first, so anything after a game's first hit is stale
+      const seen = new Set<string>();
+      for (const entry of entries) {
+        if (seen.has(entry.gameId)) {
+          doomed.add(entry);
+        }
+        seen.add(entry.gameId);
+      }
+    }
+
+    if (options.maxAgeDays !== undefined) {
+      const cutoff = Date.now() - options.maxAgeDays * 24 * 60 * 60 * 1000;
+      entries
+        .filter(entry => new Date(entry.lastUsedAt).getTime() < cutoff)
+        .forEach(entry => doomed.add(entry));
+    }
+
+    if (options.maxSize !== undefined) {
+      let total = entries.filter(entry => !doomed.has(entry)).reduce((sum, entry) => sum + entry.size, 0);
+      for (const entry of [...entries].reverse()) {
+        if (total <= options.maxSize) break;
+        if (doomed.has(entry)) continue;
+        doomed.add(entry);
+        total -= entry.size;
+      }
+    }
+
+    for (const entry of doomed) {
+      await fs.remove(path.join(this.cacheDir, entry.key));
+      this.logger.debug(`Pruned ${entry.gameId} (${entry.key.slice(0, 12)})`);
+    }
+
+    const removed = entries.filter(entry => doomed.has(entry));
+    const freedBytes = removed.reduce((sum, entry) => sum + entry.size, 0);
+    const remainingBytes = entries.reduce((sum, entry) => sum + entry.size, 0) - freedBytes;
+
+    return { removed, freedBytes, remainingBytes };
+  }
+
+  getCacheDir(): string {
+    return this.cacheDir;
+  }
+
+  private async readEntry(entryDir: string): Promise<CacheEntry | null> {
+    const entryFile = path.join(entryDir, ENTRY_FILE);
+    if (!(await fs.pathExists(entryFile))) {
+      return null;
+    }
+
+    try {
+      return await fs.readJSON(entryFile);
+    } catch (error) {
+      this.logger.warn(`Ignoring unreadable cache entry ${entryDir}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { ConfigService } from './ConfigService.js';
+import { Logger, LogLevel } from '../utils/Logger.js';
+import { parsePhpArrayAssignment } from '../utils/PhpArrayParser.js';
+import { BuildConfig } from '../types/Build.js';
+
+const config: BuildConfig = {
+  outputDir: '/tmp/attogram-test/out',
+  templatesDir: '/tmp/attogram-test/templates',
+  customDir: '/tmp/attogram-test/custom',
+  logoDir: '/tmp/attogram-test/logo',
+  concurrency: 1,
+  enableCache: false,
+  skipExisting: false
+};
+
+function convert(source: string) {
+  const service = new ConfigService(config, new Logger({ level: LogLevel.SILENT }));
+  return service.convertPhpGames(parsePhpArrayAssignment(source, 'games'));
+}
+
+describe('ConfigService.convertPhpGames', () => {
+  it('converts games with their comments as notes', () => {
+    const games = convert(`<?php $games = [
+      // Tile game
+      '2048' => ['name' => '2048', 'git' => 'https://github.com/a/2048.git', 'license' => 'MIT', 'mobile' => 1, 'build' => ['npm ci']],
+    ];`);
+
+    expect(games).toEqual({
+      2048: {
+        name: '2048',
+        tag: '',
+        license: 'MIT',
+        git: 'https://github.com/a/2048.git',
+        mobile: true,
+        desktop: false,
+        build: ['npm ci'],
+        notes: ['Tile game']
+      }
+    });
+  });
+
+  it('treats flags PHP considers empty as false', () => {
+    const games = convert(`<?php $games = [
+      'a' => ['name' => 'A', 'git' => 'https://x/a.git', 'mobile' => '0', 'desktop' => ''],
+      'b' => ['name' => 'B', 'git' => 'https://x/b.git', 'mobile' => 0, 'desktop' => false],
+      'c' => ['name' => 'C', 'git' => 'https://x/c.git', 'mobile' => '1', 'desktop' => 'yes'],
+    ];`);
+
+    expect([games['a']?.mobile, games['a']?.desktop, games['b']?.mobile, games['b']?.desktop]).toEqual([false, false, false, false]);
+    expect([games['c']?.mobile, games['c']?.desktop]).toEqual([true, true]);
+  });
+
+  it('rejects games without a name or repository', () => {
+    expect(() => convert("<?php $games = ['a' => ['name' => 'A']];")).toThrow(/'name' and 'git' are required/);
+  });
+});
@@ -0,0 +1,263 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Logger } from '../utils/Logger.js';
+import { GameConfig, GameCollection } from '../types/Game.js';
+import { BuildConfig } from '../types/Build.js';
+import { isEmptyPhpValue, parsePhpArrayAssignment, PhpArray, PhpValue } from '../utils/PhpArrayParser.js';
+import { validateGameCollection, ValidationResult } from '../utils/Validator.js';
+
+export interface LegacyConfigSource {
+  /** Path relative to the legacy `_build` directory */
+  file: string;
+  /** PHP variable holding the games array */
+  variable: string;
+  /** Path of the migrated JSON, relative to the output directory */
+  output: string;
+  optional: boolean;
+}
+
+export const LEGACY_CONFIG_SOURCES: LegacyConfigSource[] = [
+  { file: 'games.php', variable: 'games', output: 'games.json', optional: false },
+  { file: path.join('archive', 'retired.php'), variable: 'retiredGames', output: path.join('archive', 'retired.json'), optional: true },
+  { file: path.join('archive', 'penaltyBox.php'), variable: 'penaltyBox', output: path.join('archive', 'penaltyBox.json'), optional: true }
+];
+
+export interface MigrationOptions {
+  sourceDir: string;
+  outputDir: string;
+  force: boolean;
+  dryRun: boolean;
+}
+
+export interface MigrationResult {
+  source: string;
+  output: string;
+  gameCount: number;
+  written: boolean;
+  games?: GameCollection;
+  skippedReason?: string;
+}
+
+const STRING_FIELDS = ['name', 'tag', 'license', 'git', 'branch', 'index'] as const;
+const BOOLEAN_FIELDS = ['mobile', 'desktop'] as const;
+const LIST_FIELDS = ['build', 'require'] as const;
+
+export class ConfigService {
+  private logger: Logger;
+  private config: BuildConfig;
+  private legacyDir: string;
+
+  constructor(config: BuildConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger.createChildLogger('ConfigService');
+    this.legacyDir = path.join(process.cwd(), '_build');
+  }
+
+  async loadGames(): Promise<GameCollection> {
+    const configPath = await this.findGamesConfig();
+
+    if (!configPath) {
+      throw new Error('No games configuration found. Expected games.json or games.php');
+    }
+
+    if (configPath.endsWith('.json')) {
+      this.logger.info('Loading games from JSON config');
+      return await fs.readJSON(configPath);
+    }
+
+    this.logger.info('Loading games from PHP config (legacy)');
+    return await this.loadPhpGames(configPath, 'games');
+  }
+
+  /**
+   * Locate the games list: custom JSON first, then PHP with the custom copy
+   * taking precedence like the PHP builder did.
+   */
+  async findGamesConfig(): Promise<string | null> {
+    const candidates = [
+      path.join(this.config.customDir, 'games.json'),
+      path.join(this.config.customDir, 'games.php'),
+      path.join(this.legacyDir, 'games.php')
+    ];
+
+    for (const candidate of candidates) {
+      if (await fs.pathExists(candidate)) {
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  async validateFile(filePath: string): Promise<ValidationResult> {
+    let data: unknown;
+
+    try {
+      data = filePath.endsWith('.php')
+        ? await this.loadPhpGames(filePath, 'games')
+        : await fs.readJSON(filePath);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { valid: false, gameCount: 0, errors: [{ path: '$', message }] };
+    }
+
+    return validateGameCollection(data);
+  }
+
+  getGamesJsonPath(): string {
+    return path.join(this.config.customDir, 'games.json');
+  }
+
+  /**
+   * The games configuration as JSON text for editing. A PHP configuration
+   * is converted, and saving it creates the JSON file that replaces it.
+   */
+  async readGamesJson(): Promise<string> {
+    const jsonPath = this.getGamesJsonPath();
+    if (await fs.pathExists(jsonPath)) {
+      return await fs.readFile(jsonPath, 'utf-8');
+    }
+    return `${JSON.stringify(await this.loadGames(), null, 2)}\n`;
+  }
+
+  async writeGamesJson(content: string): Promise<string> {
+    const jsonPath = this.getGamesJsonPath();
+    await fs.outputFile(jsonPath, content, 'utf-8');
+    this.logger.success(`Saved games configuration to ${jsonPath}`);
+    return jsonPath;
+  }
+
+  async loadPhpGames(phpFilePath: string, variable: string): Promise<GameCollection> {
+    const phpContent = await fs.readFile(phpFilePath, 'utf-8');
+
+    try {
+      return this.convertPhpGames(parsePhpArrayAssignment(phpContent, variable));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not parse PHP games configuration ${phpFilePath}: ${message}`);
+    }
+  }
+
+  /**
+   * Convert a parsed `$games` array into a typed collection. Comments in the
+   * PHP source are carried over as `notes`, in source order.
+   */
+  convertPhpGames(games: PhpArray): GameCollection {
+    const collection: GameCollection = {};
+
+    for (const entry of games.entries) {
+      const gameId = String(entry.key);
+      if (typeof entry.value !== 'object' || entry.value === null) {
+        throw new Error(`Game '${gameId}' is not an array (line ${entry.line})`);
+      }
+
+      const fields: { [key: string]: PhpValue } = {};
+      const notes: string[] = [...entry.leadingComments];
+
+      for (const field of entry.value.entries) {
+        fields[String(field.key)] = field.value;
+        notes.push(...field.leadingComments);
+        notes.push(...field.inlineComments.map(comment => `${field.key}: ${comment}`));
+      }
+      notes.push(...entry.value.trailingComments, ...entry.inlineComments);
+
+      collection[gameId] = this.toGameConfig(gameId, fields, notes);
+    }
+
+    return collection;
+  }
+
+  async migrate(options: MigrationOptions): Promise<MigrationResult[]> {
+    const results: MigrationResult[] = [];
+
+    for (const source of LEGACY_CONFIG_SOURCES) {
+      const sourcePath = path.join(options.sourceDir, source.file);
+      const outputPath = path.join(options.outputDir, source.output);
+
+      if (!(await fs.pathExists(sourcePath))) {
+        if (!source.optional) {
+          throw new Error(`Legacy config not found: ${sourcePath}`);
+        }
+        this.logger.debug(`Skipping missing legacy config: ${sourcePath}`);
+        results.push({ source: sourcePath, output: outputPath, gameCount: 0, written: false, skippedReason: 'source not found' });
+        continue;
+      }
+
+      const games = await this.loadPhpGames(sourcePath, source.variable);
+      const result: MigrationResult = {
+        source: sourcePath,
+        output: outputPath,
+        gameCount: Object.keys(games).length,
+        written: false,
+        games
+      };
+
+      if (!options.force && await fs.pathExists(outputPath)) {
+        result.skippedReason = 'output exists (use --force to overwrite)';
+      } else if (!options.dryRun) {
+        await fs.outputJSON(outputPath, games, { spaces: 2 });
+        result.written = true;
+        this.logger.success(`Migrated ${result.gameCount} games from ${source.file} to ${outputPath}`);
+      }
+
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  private toGameConfig(gameId: string, fields: { [key: string]: PhpValue }, notes: string[]): GameConfig {
+    const knownFields: string[] = [...STRING_FIELDS, ...BOOLEAN_FIELDS, ...LIST_FIELDS];
+    const unknownFields = Object.keys(fields).filter(key => !knownFields.includes(key));
+    if (unknownFields.length > 0) {
+      this.logger.warn(`Ignoring unknown fields for ${gameId}: ${unknownFields.join(', ')}`);
+    }
+
+    const readString = (key: string): string | undefined => {
+      const value = fields[key];
+      if (value === undefined || value === null) return undefined;
+      if (typeof value !== 'string') {
+        throw new Error(`Game '${gameId}': '${key}' must be a string`);
+      }
+      return value;
+    };
+
+    const readList = (key: string): string[] | undefined => {
+      const value = fields[key];
+      if (value === undefined || value === null) return undefined;
+      if (typeof value !== 'object' || !value.entries.every(item => typeof item.value === 'string')) {
+        throw new Error(`Game '${gameId}': '${key}' must be a list of strings`);
+      }
+      return value.entries.map(item => item.value as string);
+    };
+
+    const name = readString('name');
+    const git = readString('git');
+    if (!name || !git) {
+      throw new Error(`Game '${gameId}': 'name' and 'git' are required`);
+    }
+
+    const branch = readString('branch');
+    const index = readString('index');
+    const build = readList('build');
+    const requirements = readList('require');
+
+    // Keep the field order of GameConfig so migrated JSON reads like the PHP
+    const game: GameConfig = {
+      name,
+      tag: readString('tag') ?? '',
+      license: readString('license') ?? '',
+      git,
+      ...(branch ? { branch } : {}),
+      ...(index ? { index } : {}),
+      // PHP used empty() for these, so '0' and empty arrays are false
+      mobile: !isEmptyPhpValue(fields['mobile']),
+      desktop: !isEmptyPhpValue(fields['desktop']),
+      ...(build ? { build } : {}),
+      ...(requirements ? { require: requirements } : {}),
+      ...(notes.length > 0 ? { notes } : {})
+    };
+
+    return game;
+  }
+}
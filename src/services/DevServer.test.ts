@@ -0,0 +1,132 @@
+import fs from 'fs-extra';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { DevServer } from './DevServer.js';
+import { BuildJob } from './BuildJobService.js';
+import { Logger, LogLevel } from '../utils/Logger.js';
+import { BuildConfig } from '../types/Build.js';
+
+const sleep = (milliseconds: number) => new Promise(resolve => setTimeout(resolve, milliseconds));
+
+async function waitFor<T>(check: () => Promise<T | undefined>, timeout = 10_000): Promise<T> {
+  const deadline = Date.now() + timeout;
+  while (Date.now() < deadline) {
+    const value = await check();
+    if (value !== undefined) return value;
+    await sleep(100);
+  }
+  throw new Error('Timed out waiting');
+}
+
+/** Reads an event stream, collecting the names of the events sent */
+function listen(url: string): Promise<{ events: string[]; close: () => void }> {
+  return new Promise((resolve, reject) => {
+    const events: string[] = [];
+    const request = http.get(url, response => {
+      response.setEncoding('utf-8');
+      response.on('data', (chunk: string) => {
+        for (const match of chunk.matchAll(/^event: (.+)$/gm)) {
+          events.push(match[1] ?? '');
+        }
+      });
+      resolve({ events, close: () => request.destroy() });
+    });
+    request.on('error', reject);
+  });
+}
+
+describe('DevServer', () => {
+  let tempDir: string;
+  let config: BuildConfig;
+  let server: DevServer;
+  let url: string;
+
+  const builds = async (): Promise<BuildJob[]> => (await fetch(`${url}/api/builds`)).json() as Promise<BuildJob[]>;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'attogram-dev-'));
+    config = {
+      outputDir: path.join(tempDir, 'out'),
+      templatesDir: path.join(tempDir, 'templates'),
+      customDir: path.join(tempDir, 'custom'),
+      logoDir: path.join(tempDir, 'logo'),
+      concurrency: 1,
+      enableCache: false,
+      skipExisting: false
+    };
+    await fs.outputFile(path.join(config.outputDir, 'index.html'), '<html><body><h1>Games</h1></body></html>');
+    await fs.outputFile(path.join(config.outputDir, 'chess', 'index.html'), '<html><body>Chess</body></html>');
+    await fs.outputFile(path.join(config.outputDir, 'chess', 'app.js'), 'console.log("</body>");');
+    await fs.outputJSON(path.join(config.customDir, 'games.json'), {});
+
+    server = new DevServer(
+      config,
+      { port: 0, host: '127.0.0.1', openBrowser: false, watchFiles: true },
+      new Logger({ level: LogLevel.SILENT })
+    );
+    url = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await fs.remove(tempDir);
+  });
+
+  describe('live reload', () => {
+    it('adds the client to pages', async () => {
+      for (const page of ['/', '/chess/', '/chess/index.html']) {
+        const html = await (await fetch(`${url}${page}`)).text();
+        expect(html).toContain('<script src="/__livereload.js"></script>\n</body>');
+      }
+    });
+
+    it('serves other files as they are', async () => {
+      expect(await (await fetch(`${url}/chess/app.js`)).text()).toBe('console.log("</body>");');
+    });
+
+    it('serves the client', async () => {
+      const response = await fetch(`${url}/__livereload.js`);
+
+      expect(response.headers.get('content-type')).toMatch(/^application\/javascript/);
+      expect(await response.text()).toContain('/api/events');
+    });
+  });
+
+  describe('event stream', () => {
+    it('sends the job, build progress and a reload once the rebuild succeeds', async () => {
+      const stream = await listen(`${url}/api/events`);
+      try {
+        const response = await fetch(`${url}/api/rebuild`, { method: 'POST' });
+        expect(response.status).toBe(202);
+
+        await waitFor(async () => stream.events.includes('reload') || undefined);
+        expect(stream.events).toEqual(expect.arrayContaining(['job:queued', 'job:started', 'build:done', 'job:finished']));
+        expect(stream.events.indexOf('build:done')).toBeLessThan(stream.events.indexOf('reload'));
+      } finally {
+        stream.close();
+      }
+    });
+  });
+
+  describe('file watcher', () => {
+    it('rebuilds when the custom files change', async () => {
+      // Let the watcher finish its initial scan
+      await sleep(500);
+      await fs.outputJSON(path.join(config.customDir, 'site.json'), { title: 'Arcade' });
+
+      // Finished, so the build has stopped writing the site
+      const job = await waitFor(async () => (await builds()).find(job => job.trigger === 'watch' && job.finishedAt));
+      expect(job.action).toBe('build');
+      expect(job.status).toBe('succeeded');
+    });
+
+    it('leaves out the lockfile builds write', async () => {
+      await sleep(500);
+      await fs.outputJSON(path.join(config.customDir, 'games.lock.json'), { games: {} });
+      await sleep(1500);
+
+      expect(await builds()).toEqual([]);
+    });
+  });
+});
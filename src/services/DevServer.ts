@@ -1,15 +1,29 @@
 import express, { Request, Response, NextFunction } from 'express';
+import fs from 'fs-extra';
 import path from 'path';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
 import { Logger } from '../utils/Logger.js';
-import { BuildConfig } from '../types/Build.js';
-import chokidar from 'chokidar';
+import { EVENTS_PATH, LIVE_RELOAD_PATH, injectLiveReload, renderLiveReloadClient } from '../utils/LiveReload.js';
+import { BuildConfig, BuildEvent } from '../types/Build.js';
+import chokidar, { FSWatcher } from 'chokidar';
 import { Builder } from '../core/Builder.js';
+import { BuildJobAction, BuildJobService } from './BuildJobService.js';
+import { AdminDashboard } from './AdminDashboard.js';
+import { ADMIN_PATH } from '../utils/AdminPage.js';
+
+// Comments keep idle event streams from being cut by proxies
+const KEEP_ALIVE_INTERVAL = 30_000;
+const READ_ONLY_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+const WATCH_EVENTS: { [event: string]: string } = { add: 'added', change: 'changed', unlink: 'removed', unlinkDir: 'removed' };
 
 export interface DevServerConfig {
   port: number;
   host: string;
   openBrowser: boolean;
   watchFiles: boolean;
+  /** Opens the admin dashboard and API changes to other hosts, for those with the token */
+  adminToken?: string;
 }
 
 export class DevServer {
@@ -18,6 +32,13 @@ export class DevServer {
   private serverConfig: DevServerConfig;
   private app: express.Application;
   private builder: Builder;
+  private jobs: BuildJobService;
+  private admin: AdminDashboard;
+  private clients = new Set<Response>();
+  private server: Server | undefined;
+  private watcher: FSWatcher | undefined;
+  private keepAlive: NodeJS.Timeout | undefined;
+  private shutdown: (() => void) | undefined;
 
   constructor(buildConfig: BuildConfig, serverConfig: DevServerConfig, logger: Logger) {
     this.buildConfig = buildConfig;
@@ -25,22 +46,52 @@ export class DevServer {
     this.logger = logger.createChildLogger('DevServer');
     this.app = express();
     this.builder = new Builder(buildConfig, logger);
+    this.jobs = new BuildJobService(this.builder, logger);
+    this.admin = new AdminDashboard(
+      this.builder,
+      this.jobs,
+      serverConfig.adminToken ? { token: serverConfig.adminToken } : {},
+      logger
+    );
     
     this.setupMiddleware();
     this.setupRoutes();
+    this.setupEventStream();
   }
 
   private setupMiddleware(): void {
+    // Ahead of the CORS headers below, the dashboard is not for other sites
+    this.app.use(ADMIN_PATH, this.admin.router);
+
+    // Pages get the live reload client, everything else is served as is
+    this.app.get(LIVE_RELOAD_PATH, (req: Request, res: Response) => {
+      res.type('application/javascript').send(renderLiveReloadClient());
+    });
+    this.app.use((req: Request, res: Response, next: NextFunction) => {
+      this.servePage(req, res, next).catch(next);
+    });
+
     // Serve static files from the output directory
     this.app.use(express.static(this.buildConfig.outputDir));
     
-    // Enable CORS for development
+    // Other sites may read the API during development, but not change anything
     this.app.use((req: Request, res: Response, next: NextFunction) => {
-      res.header('Access-Control-Allow-Origin', '*');
-      res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
+      if (req.method === 'GET' || req.method === 'HEAD') {
+        res.header('Access-Control-Allow-Origin', '*');
+        res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
+      }
       next();
     });
 
+    // Builds and deletions are let in like the admin dashboard's
+    this.app.use('/api', (req: Request, res: Response, next: NextFunction) => {
+      if (READ_ONLY_METHODS.has(req.method)) {
+        next();
+        return;
+      }
+      this.admin.authorize(req, res, next);
+    });
+
     // Logging middleware
     this.app.use((req: Request, res: Response, next: NextFunction) => {
       this.logger.debug(`${req.method} ${req.url}`);
@@ -60,30 +111,197 @@ export class DevServer {
       }
     });
 
-    // API endpoint to trigger rebuild
-    this.app.post('/api/rebuild', async (req: Request, res: Response) => {
+    this.app.get('/api/games/:id', async (req: Request, res: Response) => {
       try {
-        this.logger.info('Rebuilding games...');
-        const result = await this.builder.buildAll();
-        res.json(result);
+        const game = await this.builder.getGame(req.params.id ?? '');
+        if (!game) {
+          res.status(404).json({ error: 'Unknown game' });
+          return;
+        }
+        res.json({ ...game, jobs: this.jobs.list(game.id) });
       } catch (error) {
-        this.logger.error('Rebuild failed', error);
-        res.status(500).json({ error: 'Rebuild failed' });
+        this.logger.error('Failed to fetch game', error);
+        res.status(500).json({ error: 'Failed to fetch game' });
       }
     });
 
+    // Per-game jobs, answered before they run
+    this.app.post('/api/games/:id/rebuild', (req: Request, res: Response) => {
+      void this.enqueueGameJob(req, res, 'rebuild');
+    });
+
+    this.app.post('/api/games/:id/update', (req: Request, res: Response) => {
+      void this.enqueueGameJob(req, res, 'update');
+    });
+
+    this.app.delete('/api/games/:id', (req: Request, res: Response) => {
+      void this.enqueueGameJob(req, res, 'delete');
+    });
+
+    // API endpoint to trigger rebuild, answered before the build runs
+    this.app.post('/api/rebuild', (req: Request, res: Response) => {
+      const job = this.jobs.enqueue({ action: 'build' }, 'api');
+      this.logger.info(`Rebuild requested, job ${job.id}`);
+      res.status(202).location(`/api/builds/${job.id}`).json(job);
+    });
+
+    this.app.get('/api/builds', (req: Request, res: Response) => {
+      res.json(this.jobs.list());
+    });
+
+    this.app.get('/api/builds/:id', (req: Request, res: Response) => {
+      const job = this.jobs.get(req.params.id ?? '');
+      if (!job) {
+        res.status(404).json({ error: 'Unknown build' });
+        return;
+      }
+      res.json(job);
+    });
+
+    // Build progress as server-sent events
+    this.app.get(EVENTS_PATH, (req: Request, res: Response) => {
+      res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive'
+      });
+      res.flushHeaders();
+      res.write('retry: 2000\n\n');
+      this.clients.add(res);
+      req.on('close', () => this.clients.delete(res));
+    });
+
     // Catch-all handler: send back index.html for client-side routing
-    this.app.get('*', (req: Request, res: Response) => {
+    this.app.get('*', async (req: Request, res: Response) => {
       const indexPath = path.join(this.buildConfig.outputDir, 'index.html');
-      res.sendFile(indexPath, (err: any) => {
-        if (err) {
-          this.logger.error('Failed to serve index.html', err);
-          res.status(404).send('Games website not built. Run `npm run build` first.');
-        }
-      });
+      try {
+        const html = await fs.readFile(indexPath, 'utf-8');
+        res.type('html').set('Cache-Control', 'no-cache').send(injectLiveReload(html));
+      } catch (error) {
+        this.logger.error('Failed to serve index.html', error);
+        res.status(404).send('Games website not built. Run `npm run build` first.');
+      }
+    });
+  }
+
+  private async enqueueGameJob(req: Request, res: Response, action: BuildJobAction): Promise<void> {
+    try {
+      const game = await this.builder.getGame(req.params.id ?? '');
+      if (!game) {
+        res.status(404).json({ error: 'Unknown game' });
+        return;
+      }
+
+      const job = this.jobs.enqueue({ action, gameIds: [game.id] }, 'api');
+      this.logger.info(`${action} of ${game.id} requested, job ${job.id}`);
+      res.status(202).location(`/api/builds/${job.id}`).json(job);
+    } catch (error) {
+      this.logger.error(`Failed to queue ${action}`, error);
+      res.status(500).json({ error: `Failed to queue ${action}` });
+    }
+  }
+
+  /**
+   * Serve an HTML page from the output directory with the live reload
+   * client added, or leave the request to the static files.
+   */
+  private async servePage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(req.path);
+    } catch {
+      next();
+      return;
+    }
+    if ((req.method !== 'GET' && req.method !== 'HEAD') || !(pathname.endsWith('/') || /\.html?$/i.test(pathname))) {
+      next();
+      return;
+    }
+
+    const outputDir = path.resolve(this.buildConfig.outputDir);
+    const filePath = path.join(outputDir, pathname.endsWith('/') ? `${pathname}index.html` : pathname);
+    if (!filePath.startsWith(outputDir + path.sep) || !(await fs.pathExists(filePath)) || !(await fs.stat(filePath)).isFile()) {
+      next();
+      return;
+    }
+
+    const html = await fs.readFile(filePath, 'utf-8');
+    res.type('html').set('Cache-Control', 'no-cache').send(injectLiveReload(html));
+  }
+
+  /**
+   * Forward build progress and build jobs to event stream clients, and tell
+   * pages to reload once a build has written the site.
+   */
+  private setupEventStream(): void {
+    this.builder.events.onAny(event => this.broadcast(event.type, this.describeEvent(event)));
+
+    this.jobs.onChange((event, job) => {
+      this.broadcast(`job:${event}`, job);
+      if (event !== 'finished') return;
+
+      const what = job.action === 'build'
+        ? 'Website rebuild'
+        : `${capitalize(job.action)} of ${job.gameIds ? job.gameIds.join(', ') : 'all games'}`;
+      if (job.status === 'succeeded') {
+        this.logger.success(`${what} finished`);
+        this.broadcast('reload', { job: job.id });
+      } else {
+        this.logger.error(`${what} failed${job.error ? `: ${job.error}` : ''}`);
+      }
     });
   }
 
+  /**
+   * Events as sent to clients: game and build results without their
+   * step output and per-file details.
+   */
+  private describeEvent(event: BuildEvent): object {
+    switch (event.type) {
+      case 'game:done': {
+        const { result } = event;
+        return {
+          type: event.type,
+          gameId: event.gameId,
+          status: result.game.buildStatus,
+          ...(result.phase ? { phase: result.phase } : {}),
+          duration: Math.round(result.duration),
+          errors: result.errors
+        };
+      }
+      case 'build:done': {
+        const { result } = event;
+        return {
+          type: event.type,
+          success: result.success,
+          successCount: result.successCount,
+          failedCount: result.failedCount,
+          skippedCount: result.skippedCount,
+          totalDuration: result.totalDuration
+        };
+      }
+      default:
+        return event;
+    }
+  }
+
+  private broadcast(event: string, data: unknown): void {
+    const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+    for (const client of this.clients) {
+      client.write(message);
+    }
+  }
+
+  /**
+   * Open event streams would keep the server from closing.
+   */
+  private closeClients(): void {
+    for (const client of this.clients) {
+      client.end();
+    }
+    this.clients.clear();
+  }
+
   private setupFileWatcher(): void {
     if (!this.serverConfig.watchFiles) return;
 
@@ -95,30 +313,34 @@ export class DevServer {
     ];
 
     const watcher = chokidar.watch(watchPaths, {
-      ignored: /node_modules/,
+      // Builds write the lockfile next to the games config themselves
+      ignored: [/node_modules/, this.builder.getLockPath()],
       ignoreInitial: true
     });
+    this.watcher = watcher;
 
-    watcher.on('change', async (filePath: string) => {
-      this.logger.info(`File changed: ${filePath}`);
-      this.logger.info('Rebuilding website...');
-      
-      try {
-        await this.builder.buildAll();
-        this.logger.success('Website rebuilt successfully');
-      } catch (error) {
-        this.logger.error('Rebuild failed', error);
-      }
+    // New and deleted files count too: a partial added, a logo removed
+    watcher.on('all', (event: string, filePath: string) => {
+      if (event === 'addDir') return;
+      this.logger.info(`File ${WATCH_EVENTS[event] ?? event}: ${filePath}`);
+      const job = this.jobs.enqueue({ action: 'build' }, 'watch');
+      this.logger.info(`Rebuilding website, job ${job.id}`);
     });
 
     this.logger.info('File watcher started');
   }
 
-  async start(): Promise<void> {
+  /**
+   * Listen, open the browser and start watching. Resolves with the
+   * server's URL once it is listening.
+   */
+  async start(): Promise<string> {
     return new Promise((resolve, reject) => {
       const server = this.app.listen(this.serverConfig.port, this.serverConfig.host, async () => {
-        const url = `http://${this.serverConfig.host}:${this.serverConfig.port}`;
+        // The port actually bound, for port 0
+        const url = `http://${this.serverConfig.host}:${(server.address() as AddressInfo).port}`;
         this.logger.success(`Development server running at ${url}`);
+        this.logger.info(`Admin dashboard at ${url}${ADMIN_PATH}${this.serverConfig.adminToken ? ' (token required)' : ', from this machine only'}`);
         
         if (this.serverConfig.openBrowser) {
           try {
@@ -130,8 +352,16 @@ export class DevServer {
         }
 
         this.setupFileWatcher();
-        resolve();
+        resolve(url);
       });
+      this.server = server;
+
+      this.keepAlive = setInterval(() => {
+        for (const client of this.clients) {
+          client.write(': keep-alive\n\n');
+        }
+      }, KEEP_ALIVE_INTERVAL);
+      this.keepAlive.unref();
 
       server.on('error', (error: any) => {
         if (error.code === 'EADDRINUSE') {
@@ -143,21 +373,40 @@ export class DevServer {
       });
 
       // Graceful shutdown
-      process.on('SIGTERM', () => {
-        this.logger.info('Shutting down development server...');
-        server.close(() => {
-          this.logger.info('Development server stopped');
-          process.exit(0);
-        });
-      });
-
-      process.on('SIGINT', () => {
+      this.shutdown = () => {
         this.logger.info('Shutting down development server...');
-        server.close(() => {
+        void this.stop().then(() => {
           this.logger.info('Development server stopped');
           process.exit(0);
         });
-      });
+      };
+      process.on('SIGTERM', this.shutdown);
+      process.on('SIGINT', this.shutdown);
     });
   }
+
+  /**
+   * Stop watching and close the server and its event streams.
+   */
+  async stop(): Promise<void> {
+    if (this.shutdown) {
+      process.off('SIGTERM', this.shutdown);
+      process.off('SIGINT', this.shutdown);
+      this.shutdown = undefined;
+    }
+    clearInterval(this.keepAlive);
+    await this.watcher?.close();
+    this.watcher = undefined;
+
+    this.closeClients();
+    const server = this.server;
+    this.server = undefined;
+    if (server?.listening) {
+      await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+    }
+  }
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
 }
@@ -41,18 +41,18 @@ export class GitService {
     }
   }
 
-  async checkout(gameId: string, targetDir: string, branch: string): Promise<GitOperationResult> {
-    this.logger.info(`Checking out branch ${branch} for ${gameId}`);
+  async checkout(gameId: string, targetDir: string, ref: string): Promise<GitOperationResult> {
+    this.logger.info(`Checking out ${ref} for ${gameId}`);
     
     try {
       const git = simpleGit(targetDir);
-      await git.checkout(branch);
+      await git.checkout(ref);
       
-      this.logger.success(`Successfully checked out ${branch} for ${gameId}`);
+      this.logger.success(`Successfully checked out ${ref} for ${gameId}`);
       return { success: true };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      this.logger.error(`Failed to checkout ${branch} for ${gameId}`, error);
+      this.logger.error(`Failed to checkout ${ref} for ${gameId}`, error);
       
       return {
         success: false,
@@ -81,6 +81,30 @@ export class GitService {
     }
   }
 
+  /**
+   * Put tracked files back the way the checked out commit has them, so
+   * edits made after cloning cannot get in the way of a checkout or pull.
+   * Untracked files are left alone apart from `untrackedPaths`.
+   */
+  async discardChanges(gameId: string, targetDir: string, untrackedPaths: string[] = []): Promise<GitOperationResult> {
+    try {
+      const git = simpleGit(targetDir);
+      await git.checkout(['--', '.']);
+      if (untrackedPaths.length > 0) {
+        await git.raw(['clean', '-fdq', '--', ...untrackedPaths]);
+      }
+      return { success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to discard local changes for ${gameId}`, error);
+
+      return {
+        success: false,
+        error: errorMessage
+      };
+    }
+  }
+
   async getLatestCommit(targetDir: string): Promise<string | null> {
     try {
       const git = simpleGit(targetDir);
@@ -92,6 +116,65 @@ export class GitService {
     }
   }
 
+  /**
+   * When the checked out commit was made, as an ISO timestamp.
+   */
+  async getCommitDate(targetDir: string): Promise<string | null> {
+    try {
+      const git = simpleGit(targetDir);
+      const date = (await git.raw(['log', '-1', '--format=%cI'])).trim();
+      return date ? new Date(date).toISOString() : null;
+    } catch (error) {
+      this.logger.debug(`Failed to get commit date of ${targetDir}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Resolve the commit a branch, tag or the default HEAD points to on the
+   * remote without cloning it.
+   */
+  async getRemoteCommit(gitUrl: string, ref: { branch?: string; tag?: string } = {}): Promise<string | null> {
+    try {
+      const refs = ref.tag
+        ? [`refs/tags/${ref.tag}`, `refs/tags/${ref.tag}^{}`]
+        : [ref.branch ? `refs/heads/${ref.branch}` : 'HEAD'];
+      const output = await simpleGit().listRemote([gitUrl, ...refs]);
+      const lines = output.split('\n').map(line => line.split('\t')).filter(parts => parts.length === 2);
+      // Annotated tags list the tag object first and the commit it points to as ^{}
+      const line = lines.find(parts => parts[1]?.endsWith('^{}')) ?? lines[0];
+      return line?.[0]?.trim() || null;
+    } catch (error) {
+      this.logger.warn(`Failed to resolve remote commit for ${gitUrl}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Remote commit of the tag or branch a game config follows.
+   */
+  async getRemoteCommitFor(config: GameConfig): Promise<string | null> {
+    const ref: { branch?: string; tag?: string } = {};
+    if (config.gitTag) ref.tag = config.gitTag;
+    else if (config.branch) ref.branch = config.branch;
+
+    return await this.getRemoteCommit(config.git, ref);
+  }
+
+  /**
+   * Name of the branch origin/HEAD points to, e.g. `main`.
+   */
+  async getDefaultBranch(targetDir: string): Promise<string | null> {
+    try {
+      const git = simpleGit(targetDir);
+      const ref = (await git.revparse(['--abbrev-ref', 'origin/HEAD'])).trim();
+      return ref.replace(/^origin\//, '') || null;
+    } catch (error) {
+      this.logger.warn('Failed to determine default branch', error);
+      return null;
+    }
+  }
+
   private isValidGitUrl(url: string): boolean {
     try {
       const parsedUrl = new URL(url);
@@ -0,0 +1,161 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { LockService } from './LockService.js';
+import { Logger, LogLevel } from '../utils/Logger.js';
+import { BuildStatus, GameBuildResult, GameConfig, GamesLock } from '../types/Game.js';
+
+const COMMIT = '0123456789abcdef0123456789abcdef01234567';
+const NEXT_COMMIT = 'fedcba9876543210fedcba9876543210fedcba98';
+
+const game: GameConfig = {
+  name: 'Chess',
+  tag: 'board game',
+  license: 'MIT',
+  git: 'https://github.com/attogram/chess.git',
+  mobile: true,
+  desktop: true
+};
+
+function built(config: GameConfig, commit: string, success = true): GameBuildResult {
+  return {
+    game: { id: 'chess', config, buildStatus: success ? BuildStatus.SUCCESS : BuildStatus.FAILED, lastCommit: commit },
+    success,
+    duration: 0,
+    errors: [],
+    warnings: []
+  };
+}
+
+describe('LockService', () => {
+  let tempDir: string;
+  let locks: LockService;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'attogram-lock-'));
+    locks = new LockService({
+      outputDir: tempDir,
+      templatesDir: path.join(tempDir, 'templates'),
+      customDir: path.join(tempDir, 'custom'),
+      logoDir: path.join(tempDir, 'logo'),
+      concurrency: 1,
+      enableCache: false,
+      skipExisting: false
+    }, new Logger({ level: LogLevel.SILENT }));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  function lockOf(entry: Partial<GamesLock['games'][string]>): GamesLock {
+    return { version: 1, games: { chess: { git: game.git, commit: COMMIT, lockedAt: '2024-01-01T00:00:00.000Z', ...entry } } };
+  }
+
+  describe('getEntry', () => {
+    it('returns entries that still match the config', () => {
+      expect(locks.getEntry(lockOf({}), 'chess', game)?.commit).toBe(COMMIT);
+      expect(locks.getEntry(lockOf({ ref: 'heads/dev' }), 'chess', { ...game, branch: 'dev' })?.commit).toBe(COMMIT);
+    });
+
+    it('treats entries for another repository or ref as stale', () => {
+      expect(locks.getEntry(lockOf({}), 'chess', { ...game, git: 'https://github.com/other/chess.git' })).toBeUndefined();
+      expect(locks.getEntry(lockOf({}), 'chess', { ...game, branch: 'dev' })).toBeUndefined();
+      expect(locks.getEntry(lockOf({ ref: 'heads/dev' }), 'chess', { ...game, gitTag: 'v1.0' })).toBeUndefined();
+    });
+
+    it('matches pinned commits, abbreviated or not', () => {
+      expect(locks.getEntry(lockOf({}), 'chess', { ...game, commit: '0123456' })?.commit).toBe(COMMIT);
+      expect(locks.getEntry(lockOf({}), 'chess', { ...game, commit: '0123456789ABCDEF' })?.commit).toBe(COMMIT);
+      expect(locks.getEntry(lockOf({}), 'chess', { ...game, commit: 'abcdef0' })).toBeUndefined();
+    });
+  });
+
+  describe('check', () => {
+    it('reports missing and stale entries', () => {
+      const games = { chess: { ...game, branch: 'dev' }, pool: game };
+
+      expect(locks.check(lockOf({}), games)).toEqual([
+        { gameId: 'chess', message: 'lockfile entry does not match games config' },
+        { gameId: 'pool', message: 'not in lockfile' }
+      ]);
+    });
+  });
+
+  describe('checkInstalled', () => {
+    /** Check out a game with one commit, returning the commit */
+    async function install(gameId: string): Promise<string> {
+      const gameDir = path.join(tempDir, gameId);
+      await fs.outputFile(path.join(gameDir, 'index.html'), gameId);
+      const git = (...args: string[]) =>
+        execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: gameDir, encoding: 'utf-8' });
+      git('init', '-q');
+      git('add', '.');
+      git('commit', '-q', '-m', 'Initial commit');
+      return git('rev-parse', 'HEAD').trim();
+    }
+
+    it('reports installed games on another commit than the lock', async () => {
+      const installed = await install('chess');
+
+      expect(await locks.checkInstalled(lockOf({}), { chess: game })).toEqual([
+        { gameId: 'chess', message: `installed at ${installed.slice(0, 7)}, locked at 0123456` }
+      ]);
+      expect(await locks.checkInstalled(lockOf({ commit: installed }), { chess: game })).toEqual([]);
+    });
+
+    it('reports installed copies that are not git checkouts', async () => {
+      await fs.outputFile(path.join(tempDir, 'chess', 'index.html'), 'chess');
+
+      expect(await locks.checkInstalled(lockOf({}), { chess: game })).toEqual([
+        { gameId: 'chess', message: 'installed copy is not a git checkout' }
+      ]);
+    });
+
+    it('leaves games that are not installed or not locked to the build', async () => {
+      await install('pool');
+
+      expect(await locks.checkInstalled(lockOf({}), { chess: game, pool: game })).toEqual([]);
+    });
+  });
+
+  describe('record', () => {
+    it('locks successful builds and leaves existing entries alone', async () => {
+      await locks.record([built(game, COMMIT)]);
+      await locks.record([built(game, NEXT_COMMIT)]);
+
+      expect((await locks.load()).games['chess']?.commit).toBe(COMMIT);
+    });
+
+    it('moves existing entries when asked, but not for failed builds', async () => {
+      await locks.record([built(game, COMMIT)]);
+      await locks.record([built(game, NEXT_COMMIT, false)], true);
+      expect((await locks.load()).games['chess']?.commit).toBe(COMMIT);
+
+      await locks.record([built(game, NEXT_COMMIT)], true);
+      expect((await locks.load()).games['chess']?.commit).toBe(NEXT_COMMIT);
+    });
+
+    it('replaces stale entries', async () => {
+      await locks.record([built(game, COMMIT)]);
+      await locks.record([built({ ...game, branch: 'dev' }, NEXT_COMMIT)]);
+
+      expect((await locks.load()).games['chess']).toEqual(expect.objectContaining({ ref: 'heads/dev', commit: NEXT_COMMIT }));
+    });
+  });
+
+  describe('lock', () => {
+    it('locks full commit pins without asking the remote', async () => {
+      const results = await locks.lock({ chess: { ...game, commit: COMMIT.toUpperCase() } }, false);
+
+      expect(results).toEqual([{ gameId: 'chess', commit: COMMIT }]);
+    });
+
+    it('leaves abbreviated pins to the next build', async () => {
+      const results = await locks.lock({ chess: { ...game, commit: '0123456' } }, false);
+
+      expect(results).toEqual([{ gameId: 'chess', error: 'Abbreviated commit pins are locked by the next build' }]);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Logger } from '../utils/Logger.js';
+import { BuildStatus, GameBuildResult, GameCollection, GameConfig, GameLockEntry, GamesLock } from '../types/Game.js';
+import { BuildConfig } from '../types/Build.js';
+import { GitService } from './GitService.js';
+
+const LOCK_VERSION = 1;
+
+export interface LockProblem {
+  gameId: string;
+  message: string;
+}
+
+export interface LockUpdateResult {
+  gameId: string;
+  previousCommit?: string;
+  commit?: string;
+  error?: string;
+}
+
+/**
+ * Reads and writes `games.lock.json`, which records the exact commit every
+ * game was built from so the same config always produces the same site.
+ */
+export class LockService {
+  private logger: Logger;
+  private gitService: GitService;
+  private lockPath: string;
+  private outputDir: string;
+
+  constructor(config: BuildConfig, logger: Logger) {
+    this.logger = logger.createChildLogger('LockService');
+    this.gitService = new GitService(logger);
+    this.lockPath = path.join(config.customDir, 'games.lock.json');
+    this.outputDir = config.outputDir;
+  }
+
+  getLockPath(): string {
+    return this.lockPath;
+  }
+
+  async load(): Promise<GamesLock> {
+    if (!(await fs.pathExists(this.lockPath))) {
+      return { version: LOCK_VERSION, games: {} };
+    }
+
+    const lock: GamesLock = await fs.readJSON(this.lockPath);
+    if (lock.version !== LOCK_VERSION) {
+      throw new Error(`Unsupported lockfile version ${lock.version} in ${this.lockPath}`);
+    }
+    return lock;
+  }
+
+  async save(lock: GamesLock): Promise<void> {
+    // Sort by game id so lockfile diffs stay small
+    const games = Object.fromEntries(Object.entries(lock.games).sort(([a], [b]) => a.localeCompare(b)));
+    await fs.outputJSON(this.lockPath, { version: LOCK_VERSION, games }, { spaces: 2 });
+  }
+
+  /**
+   * The locked entry for a game, or undefined when there is none or the
+   * config has since moved to another repository, ref or pinned commit.
+   */
+  getEntry(lock: GamesLock, gameId: string, config: GameConfig): GameLockEntry | undefined {
+    const entry = lock.games[gameId];
+    if (!entry) {
+      return undefined;
+    }
+
+    const stale = entry.git !== config.git ||
+      entry.ref !== this.refOf(config) ||
+      (config.commit !== undefined && !entry.commit.startsWith(config.commit.toLowerCase()));
+
+    return stale ? undefined : entry;
+  }
+
+  getLockedCommits(lock: GamesLock, games: GameCollection): { [gameId: string]: string | undefined } {
+    return Object.fromEntries(
+      Object.entries(games).map(([gameId, config]) => [gameId, this.getEntry(lock, gameId, config)?.commit])
+    );
+  }
+
+  /**
+   * Everything that stops a `--frozen-lockfile` build: games without an
+   * entry and entries that no longer match the config.
+   */
+  check(lock: GamesLock, games: GameCollection): LockProblem[] {
+    const problems: LockProblem[] = [];
+
+    for (const [gameId, config] of Object.entries(games)) {
+      if (!lock.games[gameId]) {
+        problems.push({ gameId, message: 'not in lockfile' });
+      } else if (!this.getEntry(lock, gameId, config)) {
+        problems.push({ gameId, message: 'lockfile entry does not match games config' });
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Installed games checked out at another commit than their entry, which
+   * a `--frozen-lockfile` build cannot keep. Games without a matching entry
+   * are left to `check`.
+   */
+  async checkInstalled(lock: GamesLock, games: GameCollection): Promise<LockProblem[]> {
+    const problems: LockProblem[] = [];
+
+    for (const [gameId, config] of Object.entries(games)) {
+      const entry = this.getEntry(lock, gameId, config);
+      const gameDir = path.join(this.outputDir, gameId);
+      if (!entry || !(await fs.pathExists(gameDir))) {
+        continue;
+      }
+
+      const commit = await this.gitService.getLatestCommit(gameDir);
+      if (!commit) {
+        problems.push({ gameId, message: 'installed copy is not a git checkout' });
+      } else if (commit !== entry.commit) {
+        problems.push({ gameId, message: `installed at ${commit.slice(0, 7)}, locked at ${entry.commit.slice(0, 7)}` });
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Lock the commits builds actually saw. Existing valid entries are kept
+   * unless `moveExisting` is set, so plain builds never move a pin.
+   */
+  async record(results: GameBuildResult[], moveExisting = false): Promise<void> {
+    const lock = await this.load();
+    let changed = false;
+
+    for (const result of results) {
+      const commit = result.game.lastCommit;
+      if (result.game.buildStatus !== BuildStatus.SUCCESS || !commit) {
+        continue;
+      }
+
+      const current = this.getEntry(lock, result.game.id, result.game.config);
+      if (current && (!moveExisting || current.commit === commit)) {
+        continue;
+      }
+
+      lock.games[result.game.id] = this.createEntry(result.game.config, commit);
+      changed = true;
+    }
+
+    if (changed) {
+      await this.save(lock);
+      this.logger.debug(`Updated ${this.lockPath}`);
+    }
+  }
+
+  /**
+   * Resolve commits from the remotes without building. With `update`, the
+   * selected games move to the latest commit of their ref; otherwise only
+   * missing and stale entries are filled in.
+   */
+  async lock(games: GameCollection, update: boolean): Promise<LockUpdateResult[]> {
+    const lock = await this.load();
+    const results: LockUpdateResult[] = [];
+
+    for (const [gameId, config] of Object.entries(games)) {
+      const current = this.getEntry(lock, gameId, config);
+      const previous = lock.games[gameId]?.commit;
+      const base = previous ? { gameId, previousCommit: previous } : { gameId };
+
+      if (current && !update) {
+        results.push({ ...base, commit: current.commit });
+        continue;
+      }
+
+      if (config.commit && config.commit.length < 40) {
+        results.push({ ...base, error: 'Abbreviated commit pins are locked by the next build' });
+        continue;
+      }
+
+      const commit = await this.resolveCommit(config);
+      if (!commit) {
+        results.push({ ...base, error: `Could not resolve ${this.refOf(config) ?? 'HEAD'} from ${config.git}` });
+        continue;
+      }
+
+      lock.games[gameId] = this.createEntry(config, commit);
+      results.push({ ...base, commit });
+    }
+
+    await this.save(lock);
+    return results;
+  }
+
+  private async resolveCommit(config: GameConfig): Promise<string | null> {
+    // A full SHA pin needs no lookup
+    if (config.commit) {
+      return config.commit.toLowerCase();
+    }
+
+    return await this.gitService.getRemoteCommitFor(config);
+  }
+
+  private createEntry(config: GameConfig, commit: string): GameLockEntry {
+    const ref = this.refOf(config);
+    return {
+      git: config.git,
+      ...(ref ? { ref } : {}),
+      commit,
+      lockedAt: new Date().toISOString()
+    };
+  }
+
+  private refOf(config: GameConfig): string | undefined {
+    if (config.commit) return undefined;
+    if (config.gitTag) return `tags/${config.gitTag}`;
+    return config.branch ? `heads/${config.branch}` : undefined;
+  }
+}
@@ -0,0 +1,230 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Logger } from '../utils/Logger.js';
+import { GameBuildResult } from '../types/Game.js';
+import { BuildConfig } from '../types/Build.js';
+
+const DEFAULT_SIZES = [100, 200, 300];
+const DEFAULT_LOGO = 'game.png';
+// Game ids start with a letter or digit, so this cannot be one
+const DEFAULT_LOGO_NAME = '_default';
+const LOGO_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.gif', '.svg'];
+// Icons games commonly ship, best first. `.ico` is left out, sharp cannot read it.
+const REPOSITORY_ICONS = [
+  'apple-touch-icon.png',
+  'apple-touch-icon-precomposed.png',
+  'icon.png',
+  'logo.png',
+  'favicon.png'
+];
+
+export type LogoSource = 'custom' | 'repository' | 'default';
+
+export interface GameLogo {
+  source: LogoSource;
+  /** Image for browsers without srcset, at the smallest size */
+  src: string;
+  /** PNG (or original format) candidates, `url 100w, ...` */
+  srcset: string;
+  /** WebP candidates, empty when images could not be resized */
+  webpSrcset: string;
+  width: number;
+  height: number;
+}
+
+type Sharp = typeof import('sharp');
+
+/**
+ * Resolves a logo for every game and renders it at the configured sizes,
+ * as the original format plus WebP, for responsive `<picture>` markup.
+ * A game's own logo in `logoDir` wins, then an icon from its repository,
+ * then the default `game.png`.
+ */
+export class LogoService {
+  private logger: Logger;
+  private config: BuildConfig;
+  private sizes: number[];
+  private outputDir: string;
+  private sharp: Promise<Sharp | null> | undefined;
+
+  constructor(config: BuildConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger.createChildLogger('LogoService');
+    this.sizes = [...(config.logoSizes?.length ? config.logoSizes : DEFAULT_SIZES)].sort((a, b) => a - b);
+    this.outputDir = path.join(config.outputDir, '_logo', 'sized');
+  }
+
+  async processAll(games: GameBuildResult[]): Promise<Map<string, GameLogo>> {
+    const logos = new Map<string, GameLogo>();
+    const withoutLogo: string[] = [];
+
+    for (const result of games) {
+      const gameId = result.game.id;
+      try {
+        const logo = await this.processGame(gameId, result.game.config.index);
+        if (logo.source !== 'custom') {
+          withoutLogo.push(gameId);
+        }
+        logos.set(gameId, logo);
+      } catch (error) {
+        this.logger.warn(`Could not process logo for ${gameId}`, error);
+      }
+    }
+
+    if (withoutLogo.length > 0) {
+      this.logger.warn(`No logo in ${this.config.logoDir} for: ${withoutLogo.join(', ')}`);
+    }
+
+    return logos;
+  }
+
+  private async processGame(gameId: string, index?: string): Promise<GameLogo> {
+    const custom = await this.findCustomLogo(gameId);
+    if (custom) {
+      return await this.render(gameId, custom, 'custom');
+    }
+
+    const repository = await this.findRepositoryLogo(path.join(this.config.outputDir, gameId), index);
+    if (repository) {
+      return await this.render(gameId, repository, 'repository');
+    }
+
+    const fallback = path.join(this.config.logoDir, DEFAULT_LOGO);
+    if (!(await fs.pathExists(fallback))) {
+      throw new Error(`Default logo ${fallback} is missing`);
+    }
+    // Rendered once under its own name and shared by every game using it
+    return await this.render(DEFAULT_LOGO_NAME, fallback, 'default');
+  }
+
+  private async findCustomLogo(gameId: string): Promise<string | undefined> {
+    for (const extension of LOGO_EXTENSIONS) {
+      const candidate = path.join(this.config.logoDir, gameId + extension);
+      if (await fs.pathExists(candidate)) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * An icon the game's index page links to, else a well known icon file
+   * next to the index page or at the repository root.
+   */
+  private async findRepositoryLogo(gameDir: string, index?: string): Promise<string | undefined> {
+    if (!(await fs.pathExists(gameDir))) {
+      return undefined;
+    }
+
+    const indexPath = path.join(gameDir, index && /\.html?$/i.test(index) ? index : path.join(index ?? '', 'index.html'));
+    const pageDir = path.dirname(indexPath);
+    const candidates: string[] = [];
+
+    if (await fs.pathExists(indexPath)) {
+      const html = await fs.readFile(indexPath, 'utf8');
+      for (const match of html.matchAll(/<link\b[^>]*>/gi)) {
+        const tag = match[0];
+        const rel = /\brel\s*=\s*["']?([^"'>]+)/i.exec(tag)?.[1]?.toLowerCase() ?? '';
+        const href = /\bhref\s*=\s*["']?([^"'\s>]+)/i.exec(tag)?.[1];
+        if (href && /(?:^|\s)(?:apple-touch-icon(?:-precomposed)?|icon)(?:\s|$)/.test(rel) && !/^(?:[a-z]+:)?\/\//i.test(href)) {
+          candidates.push(path.join(pageDir, href.split(/[?#]/)[0] as string));
+        }
+      }
+    }
+
+    for (const dir of new Set([pageDir, gameDir])) {
+      candidates.push(...REPOSITORY_ICONS.map(name => path.join(dir, name)));
+    }
+
+    for (const candidate of candidates) {
+      const relative = path.relative(gameDir, candidate);
+      const insideGame = !relative.startsWith('..') && !path.isAbsolute(relative);
+      if (insideGame && LOGO_EXTENSIONS.includes(path.extname(candidate).toLowerCase()) && await fs.pathExists(candidate)) {
+        return candidate;
+      }
+    }
+
+    return undefined;
+  }
+
+  private async render(name: string, sourcePath: string, source: LogoSource): Promise<GameLogo> {
+    const sharp = await this.loadSharp();
+    const extension = path.extname(sourcePath).toLowerCase();
+    await fs.ensureDir(this.outputDir);
+
+    // SVG scales by itself, and without sharp the original is all we have
+    if (!sharp || extension === '.svg') {
+      const fileName = `${name}${extension}`;
+      await this.copyIfChanged(sourcePath, path.join(this.outputDir, fileName));
+      const size = this.sizes[0] as number;
+      return { source, src: this.toUrl(fileName), srcset: '', webpSrcset: '', width: size, height: size };
+    }
+
+    const metadata = await sharp(sourcePath).metadata();
+    const aspect = metadata.width && metadata.height ? metadata.height / metadata.width : 1;
+    const format = extension === '.jpg' || extension === '.jpeg' ? 'jpeg' : 'png';
+    const fileExtension = format === 'jpeg' ? '.jpg' : '.png';
+    const srcset: string[] = [];
+    const webpSrcset: string[] = [];
+    // Upscaled copies would only cost bandwidth
+    const sizes = this.sizes.filter((size, index) => index === 0 || !metadata.width || size <= metadata.width);
+
+    for (const width of sizes) {
+      const baseName = `${name}-${width}`;
+      const original = path.join(this.outputDir, baseName + fileExtension);
+      const webp = path.join(this.outputDir, `${baseName}.webp`);
+
+      if (await this.isStale(sourcePath, original)) {
+        await sharp(sourcePath).resize({ width, withoutEnlargement: true }).toFormat(format).toFile(original);
+      }
+      if (await this.isStale(sourcePath, webp)) {
+        await sharp(sourcePath).resize({ width, withoutEnlargement: true }).webp().toFile(webp);
+      }
+
+      srcset.push(`${this.toUrl(baseName + fileExtension)} ${width}w`);
+      webpSrcset.push(`${this.toUrl(`${baseName}.webp`)} ${width}w`);
+    }
+
+    const width = this.sizes[0] as number;
+    return {
+      source,
+      src: this.toUrl(`${name}-${width}${fileExtension}`),
+      srcset: srcset.join(', '),
+      webpSrcset: webpSrcset.join(', '),
+      width,
+      height: Math.round(width * aspect)
+    };
+  }
+
+  /**
+   * sharp ships a native binary that is not available everywhere, so it is
+   * optional: without it logos are copied at their original size.
+   */
+  private loadSharp(): Promise<Sharp | null> {
+    this.sharp ??= import('sharp')
+      .then(module => module.default)
+      .catch(error => {
+        this.logger.warn('sharp is not available, logos will not be resized', error);
+        return null;
+      });
+    return this.sharp;
+  }
+
+  private async isStale(sourcePath: string, outputPath: string): Promise<boolean> {
+    if (!(await fs.pathExists(outputPath))) {
+      return true;
+    }
+    const [source, output] = await Promise.all([fs.stat(sourcePath), fs.stat(outputPath)]);
+    return source.mtimeMs > output.mtimeMs;
+  }
+
+  private async copyIfChanged(sourcePath: string, outputPath: string): Promise<void> {
+    if (await this.isStale(sourcePath, outputPath)) {
+      await fs.copy(sourcePath, outputPath);
+    }
+  }
+
+  private toUrl(fileName: string): string {
+    return `_logo/sized/${encodeURIComponent(fileName)}`;
+  }
+}
@@ -0,0 +1,117 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Logger } from '../utils/Logger.js';
+import { getDirectorySize } from '../utils/FileUtils.js';
+import { GameBuildResult, BuildStatus } from '../types/Game.js';
+import { BuildConfig, BuildManifest, GameManifestEntry } from '../types/Build.js';
+
+const MANIFEST_VERSION = 1;
+
+/**
+ * Keeps track of what was built: the commit, status and time of the last
+ * build of every game, stored next to the games in the output directory.
+ */
+export class ManifestService {
+  private logger: Logger;
+  private outputDir: string;
+  private manifestPath: string;
+
+  constructor(config: BuildConfig, logger: Logger) {
+    this.logger = logger.createChildLogger('ManifestService');
+    this.outputDir = config.outputDir;
+    this.manifestPath = path.join(config.outputDir, '.attogram', 'manifest.json');
+  }
+
+  async load(): Promise<BuildManifest> {
+    if (!(await fs.pathExists(this.manifestPath))) {
+      return this.createEmpty();
+    }
+
+    try {
+      const manifest: BuildManifest = await fs.readJSON(this.manifestPath);
+      if (manifest.version !== MANIFEST_VERSION) {
+        this.logger.warn(`Ignoring build manifest with unsupported version ${manifest.version}`);
+        return this.createEmpty();
+      }
+      return manifest;
+    } catch (error) {
+      this.logger.warn('Could not read build manifest, starting fresh', error);
+      return this.createEmpty();
+    }
+  }
+
+  async getEntry(gameId: string): Promise<GameManifestEntry | undefined> {
+    const manifest = await this.load();
+    return manifest.games[gameId];
+  }
+
+  /**
+   * Merge build or update results into the manifest. A failed build keeps the
+   * commit of the last good one, since that is what is still on disk, and
+   * games in `restored` got their last good build back, so keep its status. Games
+   * are dated by their first good build and their last change of commit,
+   * and their errors and warnings are those of the latest run.
+   */
+  async record(results: GameBuildResult[], restored: string[] = []): Promise<BuildManifest> {
+    const manifest = await this.load();
+
+    for (const result of results) {
+      const previous = manifest.games[result.game.id];
+      // Skipped games were left alone on disk, so their entry still holds
+      if (result.game.buildStatus === BuildStatus.SKIPPED && previous) {
+        continue;
+      }
+
+      const entry: GameManifestEntry = { ...previous, buildStatus: result.game.buildStatus };
+      delete entry.errors;
+      delete entry.warnings;
+      if (result.errors.length > 0) entry.errors = result.errors;
+      if (result.warnings.length > 0) entry.warnings = result.warnings;
+      if (previous && restored.includes(result.game.id)) {
+        entry.buildStatus = previous.buildStatus;
+      }
+
+      if (result.game.buildStatus === BuildStatus.SUCCESS) {
+        const builtAt = (result.game.lastBuilt ?? new Date()).toISOString();
+        if (result.game.lastCommit && result.game.lastCommit !== previous?.commit) {
+          entry.commit = result.game.lastCommit;
+          entry.lastUpdated = builtAt;
+        }
+        if (result.game.lastBuilt) entry.lastBuilt = builtAt;
+        if (result.game.buildTime !== undefined) entry.buildTime = Math.round(result.game.buildTime);
+        entry.firstBuilt ??= previous?.lastBuilt ?? builtAt;
+
+        const gameDir = path.join(this.outputDir, result.game.id);
+        if (await fs.pathExists(gameDir)) entry.size = await getDirectorySize(gameDir);
+      }
+
+      manifest.games[result.game.id] = entry;
+    }
+
+    manifest.updatedAt = new Date().toISOString();
+    await fs.outputJSON(this.manifestPath, manifest, { spaces: 2 });
+    this.logger.debug(`Recorded ${results.length} games in ${this.manifestPath}`);
+
+    return manifest;
+  }
+
+  /**
+   * Forget games that are no longer installed.
+   */
+  async remove(gameIds: string[]): Promise<BuildManifest> {
+    const manifest = await this.load();
+    for (const gameId of gameIds) {
+      delete manifest.games[gameId];
+    }
+
+    manifest.updatedAt = new Date().toISOString();
+    await fs.outputJSON(this.manifestPath, manifest, { spaces: 2 });
+    this.logger.debug(`Removed ${gameIds.join(', ')} from ${this.manifestPath}`);
+
+    return manifest;
+  }
+
+  private createEmpty(): BuildManifest {
+    return { version: MANIFEST_VERSION, updatedAt: new Date().toISOString(), games: {} };
+  }
+}
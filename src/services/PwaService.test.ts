@@ -0,0 +1,95 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { PwaService } from './PwaService.js';
+import { Logger, LogLevel } from '../utils/Logger.js';
+import { BuildStatus, GameBuildResult, GameConfig } from '../types/Game.js';
+
+const game: GameConfig = {
+  name: 'Chess',
+  tag: 'board game',
+  license: 'MIT',
+  git: 'https://github.com/attogram/chess.git',
+  mobile: true,
+  desktop: true
+};
+
+function built(gameId: string, config: GameConfig = game): GameBuildResult {
+  return {
+    game: { id: gameId, config, buildStatus: BuildStatus.SUCCESS, lastCommit: 'abc1234' },
+    success: true,
+    duration: 0,
+    errors: [],
+    warnings: []
+  };
+}
+
+describe('PwaService', () => {
+  let tempDir: string;
+  let outputDir: string;
+  let pwa: PwaService;
+  const games = [built('chess'), built('pool', { ...game, name: 'Pool', offline: false })];
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'attogram-pwa-'));
+    outputDir = path.join(tempDir, 'out');
+    pwa = new PwaService({
+      outputDir,
+      templatesDir: path.join(tempDir, 'templates'),
+      customDir: path.join(tempDir, 'custom'),
+      logoDir: path.join(tempDir, 'logo'),
+      concurrency: 1,
+      enableCache: false,
+      skipExisting: false
+    }, new Logger({ level: LogLevel.SILENT }));
+
+    await fs.outputFile(path.join(outputDir, 'index.html'), '<h1>Games</h1>');
+    await fs.outputFile(path.join(outputDir, 'search-index.json'), '[]');
+    await fs.outputFile(path.join(outputDir, '_theme', 'style.css'), 'body {}');
+    await fs.outputFile(path.join(outputDir, 'chess', 'index.html'), '<canvas></canvas>');
+    await fs.outputFile(path.join(outputDir, 'chess', '.git', 'HEAD'), 'ref: refs/heads/main');
+    await fs.outputFile(path.join(outputDir, 'pool', 'index.html'), '<canvas></canvas>');
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('precaches the site and the games available offline', async () => {
+    const result = await pwa.generate(games);
+    const manifest = await fs.readJSON(path.join(outputDir, 'precache-manifest.json'));
+
+    expect(manifest).toEqual({
+      version: result.version,
+      files: ['index.html', 'search-index.json', 'manifest.webmanifest', '_theme/style.css', 'chess/index.html']
+    });
+    expect(result.excluded).toEqual(['pool']);
+    expect(await fs.readFile(path.join(outputDir, 'sw.js'), 'utf-8')).toContain(JSON.stringify(result.version));
+  });
+
+  it('keeps the cache version while nothing changes', async () => {
+    const first = await pwa.generate(games);
+    const second = await pwa.generate(games);
+
+    expect(second.version).toBe(first.version);
+  });
+
+  it.each([
+    ['a page', 'index.html', '<h1>New games</h1>'],
+    ['the theme', path.join('_theme', 'style.css'), 'body { color: red }'],
+    ['the search index', 'search-index.json', '[{"id":"chess"}]'],
+    ['a game', path.join('chess', 'index.html'), '<canvas id="board"></canvas>']
+  ])('starts a new cache when %s changes', async (_, file, content) => {
+    const before = await pwa.generate(games);
+    await fs.outputFile(path.join(outputDir, file), content);
+
+    expect((await pwa.generate(games)).version).not.toBe(before.version);
+  });
+
+  it('starts a new cache when a file is added', async () => {
+    const before = await pwa.generate(games);
+    await fs.outputFile(path.join(outputDir, 'about.html'), '<h1>About</h1>');
+
+    expect((await pwa.generate(games)).version).not.toBe(before.version);
+  });
+});
@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { Logger } from '../utils/Logger.js';
+import { formatSize } from '../utils/FileUtils.js';
+import { PrecacheManifest, renderServiceWorker } from '../utils/ServiceWorker.js';
+import { BuildStatus, GameBuildResult } from '../types/Game.js';
+import { BuildConfig } from '../types/Build.js';
+import { SiteService } from './SiteService.js';
+
+const WEB_MANIFEST_FILE = 'manifest.webmanifest';
+const SERVICE_WORKER_FILE = 'sw.js';
+const PRECACHE_MANIFEST_FILE = 'precache-manifest.json';
+const ICON_FILE = path.join('_pwa', 'icon.png');
+const DEFAULT_ICON = 'game.png';
+// The pages and assets around the games, relative to the output directory
+const SHELL_FILES = ['index.html', 'about.html', '404.html', 'search-index.json', WEB_MANIFEST_FILE, ICON_FILE];
+const SHELL_DIRS = ['_theme', path.join('_logo', 'sized'), '_games', '_categories'];
+const SKIPPED_DIRS = new Set(['.git', 'node_modules']);
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+export interface PwaResult {
+  version: string;
+  fileCount: number;
+  /** Bytes a full offline install downloads */
+  totalSize: number;
+  /** Games left out with `offline: false` */
+  excluded: string[];
+}
+
+interface PrecacheFile {
+  url: string;
+  /** Relative to the output directory */
+  path: string;
+  size: number;
+}
+
+/**
+ * Makes the site installable and playable offline: a web app manifest, and
+ * a service worker precaching the site and every successfully built game.
+ */
+export class PwaService {
+  private logger: Logger;
+  private config: BuildConfig;
+  private siteService: SiteService;
+
+  constructor(config: BuildConfig, logger: Logger, siteService = new SiteService(config, logger)) {
+    this.config = config;
+    this.logger = logger.createChildLogger('PwaService');
+    this.siteService = siteService;
+  }
+
+  /**
+   * Write `manifest.webmanifest`, `sw.js` and `precache-manifest.json`.
+   * Run after the pages are generated, as they are precached too.
+   */
+  async generate(games: GameBuildResult[]): Promise<PwaResult> {
+    this.logger.info('Generating web app manifest and service worker');
+
+    const builtGames = games.filter(result => result.game.buildStatus === BuildStatus.SUCCESS);
+    const offlineGames = builtGames.filter(result => result.game.config.offline !== false);
+    const excluded = builtGames.filter(result => !offlineGames.includes(result)).map(result => result.game.id);
+
+    await this.writeWebManifest();
+
+    const files: PrecacheFile[] = [];
+    for (const file of SHELL_FILES) {
+      const filePath = path.join(this.config.outputDir, file);
+      if (await fs.pathExists(filePath)) {
+        files.push({ url: this.toUrl(file), path: file, size: (await fs.stat(filePath)).size });
+      }
+    }
+    for (const dir of [...SHELL_DIRS, ...offlineGames.map(result => result.game.id)]) {
+      files.push(...await this.listFiles(dir));
+    }
+    // The pages of the site's other languages, see TemplateService
+    for (const locale of (await this.siteService.getLocales()).slice(1)) {
+      files.push(...await this.listFiles(locale));
+    }
+
+    const manifest: PrecacheManifest = {
+      version: await this.getCacheVersion(files),
+      files: files.map(file => file.url)
+    };
+    await fs.writeJSON(path.join(this.config.outputDir, PRECACHE_MANIFEST_FILE), manifest, { spaces: 2 });
+    await fs.writeFile(path.join(this.config.outputDir, SERVICE_WORKER_FILE), renderServiceWorker(manifest), 'utf-8');
+
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    if (excluded.length > 0) {
+      this.logger.info(`Not available offline: ${excluded.join(', ')}`);
+    }
+    this.logger.success(`Generated service worker ${manifest.version} precaching ${files.length} files (${formatSize(totalSize)})`);
+
+    return { version: manifest.version, fileCount: files.length, totalSize, excluded };
+  }
+
+  /**
+   * Derived from the path and contents of every precached file. The
+   * service worker serves assets cache-first, so any change to the pages,
+   * theme, search index or a game has to give the worker a new cache.
+   */
+  private async getCacheVersion(files: PrecacheFile[]): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    for (const file of files) {
+      hash.update(`${file.url}\n`);
+      for await (const chunk of fs.createReadStream(path.join(this.config.outputDir, file.path))) {
+        hash.update(chunk);
+      }
+      hash.update('\n');
+    }
+    return hash.digest('hex').slice(0, 12);
+  }
+
+  private async writeWebManifest(): Promise<void> {
+    const site = await this.siteService.load();
+    const icon = await this.writeIcon();
+
+    const manifest = {
+      name: site.title,
+      short_name: site.pwa?.shortName ?? site.title,
+      ...(site.description ? { description: site.description } : {}),
+      start_url: './',
+      scope: './',
+      display: 'standalone',
+      ...(site.pwa?.backgroundColor ? { background_color: site.pwa.backgroundColor } : {}),
+      ...(site.pwa?.themeColor ? { theme_color: site.pwa.themeColor } : {}),
+      icons: icon ? [icon] : []
+    };
+
+    await fs.writeJSON(path.join(this.config.outputDir, WEB_MANIFEST_FILE), manifest, { spaces: 2 });
+  }
+
+  /**
+   * The default game logo doubles as the app icon. Its size is read from
+   * the PNG header, as the manifest has to state it.
+   */
+  private async writeIcon(): Promise<{ src: string; sizes: string; type: string } | undefined> {
+    const source = path.join(this.config.logoDir, DEFAULT_ICON);
+    const header = await fs.readFile(source).catch(() => undefined);
+    if (!header || header.length < 24 || !header.subarray(0, 8).equals(PNG_SIGNATURE)) {
+      this.logger.warn(`No PNG at ${source}, the web app manifest will have no icon`);
+      return undefined;
+    }
+
+    await fs.copy(source, path.join(this.config.outputDir, ICON_FILE));
+    return {
+      src: this.toUrl(ICON_FILE),
+      sizes: `${header.readUInt32BE(16)}x${header.readUInt32BE(20)}`,
+      type: 'image/png'
+    };
+  }
+
+  private async listFiles(relativeDir: string): Promise<PrecacheFile[]> {
+    const dir = path.join(this.config.outputDir, relativeDir);
+    if (!(await fs.pathExists(dir))) {
+      return [];
+    }
+
+    const files: PrecacheFile[] = [];
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      if (entry.name.startsWith('.') || SKIPPED_DIRS.has(entry.name)) continue;
+
+      const relativePath = path.join(relativeDir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...await this.listFiles(relativePath));
+      } else if (entry.isFile()) {
+        files.push({ url: this.toUrl(relativePath), path: relativePath, size: (await fs.stat(path.join(dir, entry.name))).size });
+      }
+    }
+
+    return files.sort((a, b) => a.url.localeCompare(b.url));
+  }
+
+  private toUrl(relativePath: string): string {
+    return relativePath.split(path.sep).map(encodeURIComponent).join('/');
+  }
+}
@@ -0,0 +1,154 @@
+import { ReportService } from './ReportService.js';
+import { Logger, LogLevel } from '../utils/Logger.js';
+import { BuildStatus, GameBuildResult } from '../types/Game.js';
+import { BuildConfig, BuildPhase, BuildResult } from '../types/Build.js';
+import { BuildReport, GameReport } from '../types/Report.js';
+
+const config: BuildConfig = {
+  outputDir: '/tmp/attogram-test/out',
+  templatesDir: '/tmp/attogram-test/templates',
+  customDir: '/tmp/attogram-test/custom',
+  logoDir: '/tmp/attogram-test/logo',
+  concurrency: 1,
+  enableCache: false,
+  skipExisting: false
+};
+
+const game = {
+  name: 'Chess',
+  tag: 'board game',
+  license: 'MIT',
+  git: 'https://github.com/attogram/chess.git',
+  mobile: true,
+  desktop: true
+};
+
+function gameReport(id: string, status: BuildStatus, extra: Partial<GameReport> = {}): GameReport {
+  return { id, name: id, status, duration: 1000, fromCache: false, errors: [], warnings: [], steps: [], ...extra };
+}
+
+function report(games: GameReport[]): BuildReport {
+  return {
+    version: 1,
+    generator: 'attogram-games test',
+    success: true,
+    startTime: '2024-01-01T00:00:00.000Z',
+    endTime: '2024-01-01T00:01:00.000Z',
+    duration: 60000,
+    summary: { total: games.length, succeeded: 0, failed: 0, skipped: 0, cached: 0 },
+    games,
+    errors: [],
+    warnings: []
+  };
+}
+
+describe('ReportService', () => {
+  const reports = new ReportService(config, new Logger({ level: LogLevel.SILENT }));
+
+  describe('createReport', () => {
+    it('summarizes a build and keeps game errors with their game', () => {
+      const results: GameBuildResult[] = [
+        { game: { id: 'chess', config: game, buildStatus: BuildStatus.SUCCESS, lastCommit: 'abc' }, success: true, duration: 1200.4, errors: [], warnings: [], fromCache: true },
+        {
+          game: { id: 'pool', config: game, buildStatus: BuildStatus.FAILED },
+          success: false,
+          duration: 10,
+          errors: ['Clone failed'],
+          warnings: [],
+          phase: BuildPhase.CLONE
+        },
+        { game: { id: 'go', config: game, buildStatus: BuildStatus.SKIPPED }, success: true, duration: 0, errors: [], warnings: [], skipReason: 'missing requirements: yarn' }
+      ];
+      const result: BuildResult = {
+        success: false,
+        totalGames: 3,
+        successCount: 1,
+        failedCount: 1,
+        skippedCount: 1,
+        games: results,
+        errors: [
+          { gameId: 'pool', message: 'Clone failed', phase: BuildPhase.CLONE, timestamp: new Date() },
+          { message: 'Site generation failed', phase: BuildPhase.FINALIZE, timestamp: new Date() }
+        ],
+        warnings: [],
+        startTime: new Date('2024-01-01T00:00:00Z'),
+        endTime: new Date('2024-01-01T00:00:02Z'),
+        totalDuration: 2000
+      };
+
+      const created = reports.createReport(result);
+
+      expect(created.summary).toEqual({ total: 3, succeeded: 1, failed: 1, skipped: 1, cached: 1 });
+      expect(created.errors).toEqual(['Site generation failed']);
+      expect(created.games.map(entry => [entry.id, entry.status, entry.duration])).toEqual([
+        ['chess', BuildStatus.SUCCESS, 1200],
+        ['pool', BuildStatus.FAILED, 10],
+        ['go', BuildStatus.SKIPPED, 0]
+      ]);
+      expect(created.games[1]).toEqual(expect.objectContaining({ phase: BuildPhase.CLONE, errors: ['Clone failed'] }));
+      expect(created.games[2]?.skipReason).toBe('missing requirements: yarn');
+    });
+  });
+
+  describe('diff', () => {
+    const options = { slowdownThreshold: 0.5 };
+
+    it('reports regressions, fixes, added and removed games', () => {
+      const diff = reports.diff(
+        report([
+          gameReport('chess', BuildStatus.SUCCESS),
+          gameReport('pool', BuildStatus.FAILED),
+          gameReport('go', BuildStatus.SUCCESS),
+          gameReport('life', BuildStatus.SUCCESS)
+        ]),
+        report([
+          gameReport('chess', BuildStatus.FAILED, { phase: BuildPhase.BUILD, errors: ['npm ci failed'] }),
+          gameReport('pool', BuildStatus.SUCCESS),
+          gameReport('go', BuildStatus.SKIPPED, { skipReason: 'missing requirements: yarn' }),
+          gameReport('tetris', BuildStatus.FAILED),
+          gameReport('snake', BuildStatus.SUCCESS)
+        ]),
+        options
+      );
+
+      expect(diff.regressions.map(change => change.id)).toEqual(['chess', 'go', 'tetris']);
+      expect(diff.regressions[0]).toEqual({
+        id: 'chess', from: BuildStatus.SUCCESS, to: BuildStatus.FAILED, phase: BuildPhase.BUILD, errors: ['npm ci failed']
+      });
+      expect(diff.fixed.map(change => change.id)).toEqual(['pool']);
+      expect(diff.added).toEqual(['tetris', 'snake']);
+      expect(diff.removed).toEqual(['life']);
+    });
+
+    it('counts games skipped as already installed as built', () => {
+      const diff = reports.diff(
+        report([gameReport('chess', BuildStatus.SUCCESS), gameReport('pool', BuildStatus.SKIPPED)]),
+        report([gameReport('chess', BuildStatus.SKIPPED), gameReport('pool', BuildStatus.SUCCESS)]),
+        options
+      );
+
+      expect(diff.regressions).toEqual([]);
+      expect(diff.fixed).toEqual([]);
+    });
+
+    it('reports builds that got much slower, leaving out short and cached ones', () => {
+      const diff = reports.diff(
+        report([
+          gameReport('chess', BuildStatus.SUCCESS, { duration: 10000 }),
+          gameReport('pool', BuildStatus.SUCCESS, { duration: 1000 }),
+          gameReport('go', BuildStatus.SUCCESS, { duration: 10000 }),
+          gameReport('life', BuildStatus.SUCCESS, { duration: 10000 })
+        ]),
+        report([
+          gameReport('chess', BuildStatus.SUCCESS, { duration: 20000 }),
+          gameReport('pool', BuildStatus.SUCCESS, { duration: 4000 }),
+          gameReport('go', BuildStatus.SUCCESS, { duration: 20000, fromCache: true }),
+          gameReport('life', BuildStatus.SUCCESS, { duration: 14000 })
+        ]),
+        options
+      );
+
+      expect(diff.slower).toEqual([{ id: 'chess', from: 10000, to: 20000 }]);
+    });
+  });
+});
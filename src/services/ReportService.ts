@@ -0,0 +1,190 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Logger } from '../utils/Logger.js';
+import { renderHtmlReport, renderJUnitReport } from '../utils/BuildReport.js';
+import { VERSION } from '../utils/Version.js';
+import { BuildStatus, GameBuildResult } from '../types/Game.js';
+import { BuildConfig, BuildResult } from '../types/Build.js';
+import { BuildReport, GameReport, ReportDiff, ReportFormat } from '../types/Report.js';
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'junit', 'html'];
+const REPORT_VERSION = 1;
+const REPORT_FILES: { [format in ReportFormat]: string } = {
+  json: 'build-report.json',
+  junit: 'build-report.xml',
+  html: 'build-report.html'
+};
+// Shorter builds vary too much from run to run to call them slower
+const MIN_SLOWDOWN = 5000;
+
+export interface ReportDiffOptions {
+  /** How much longer a build may take before it counts as slower, 0.5 for 50% */
+  slowdownThreshold: number;
+}
+
+/**
+ * Writes build reports for CI and people, and compares two of them. Reports
+ * go to `.attogram/reports` in the output directory unless `--report-dir`
+ * says otherwise.
+ */
+export class ReportService {
+  private logger: Logger;
+  private config: BuildConfig;
+
+  constructor(config: BuildConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger.createChildLogger('ReportService');
+  }
+
+  getReportDir(): string {
+    return this.config.reportDir ?? path.join(this.config.outputDir, '.attogram', 'reports');
+  }
+
+  createReport(result: BuildResult): BuildReport {
+    const games = result.games.map(gameResult => this.toGameReport(gameResult));
+    return {
+      version: REPORT_VERSION,
+      generator: `attogram-games ${VERSION}`,
+      success: result.success,
+      startTime: result.startTime.toISOString(),
+      endTime: result.endTime.toISOString(),
+      duration: result.totalDuration,
+      summary: {
+        total: result.totalGames,
+        succeeded: result.successCount,
+        failed: result.failedCount,
+        skipped: result.skippedCount,
+        cached: games.filter(game => game.fromCache).length
+      },
+      games,
+      errors: result.errors.filter(error => !error.gameId).map(error => error.message),
+      warnings: result.warnings
+    };
+  }
+
+  /**
+   * Write the report in each format. Returns the paths written.
+   */
+  async write(result: BuildResult, formats: ReportFormat[]): Promise<string[]> {
+    const report = this.createReport(result);
+    const reportDir = this.getReportDir();
+    await fs.ensureDir(reportDir);
+
+    const written: string[] = [];
+    for (const format of new Set(formats)) {
+      const reportPath = path.join(reportDir, REPORT_FILES[format]);
+      if (format === 'json') {
+        await fs.writeJSON(reportPath, report, { spaces: 2 });
+      } else {
+        await fs.writeFile(reportPath, format === 'junit' ? renderJUnitReport(report) : renderHtmlReport(report), 'utf-8');
+      }
+      written.push(reportPath);
+    }
+
+    this.logger.success(`Wrote ${[...new Set(formats)].join(', ')} build report to ${reportDir}`);
+    return written;
+  }
+
+  /**
+   * Read a JSON report, given its path or the directory it was written to.
+   */
+  async read(reportPath: string): Promise<BuildReport> {
+    const file = (await fs.stat(reportPath)).isDirectory()
+      ? path.join(reportPath, REPORT_FILES.json)
+      : reportPath;
+    const data = await fs.readJSON(file);
+    if (typeof data?.version !== 'number' || !Array.isArray(data.games)) {
+      throw new Error(`${file} is not a JSON build report`);
+    }
+    if (data.version > REPORT_VERSION) {
+      throw new Error(`${file} was written by a newer version (report version ${data.version})`);
+    }
+    return data as BuildReport;
+  }
+
+  /**
+   * What changed from one build to the next. Skipping a game that built
+   * before for missing requirements counts as a regression, as the site
+   * loses it all the same. Games skipped as already installed count as built.
+   */
+  diff(previous: BuildReport, current: BuildReport, options: ReportDiffOptions): ReportDiff {
+    const previousGames = new Map(previous.games.map(game => [game.id, game]));
+    const currentIds = new Set(current.games.map(game => game.id));
+    const diff: ReportDiff = {
+      regressions: [],
+      fixed: [],
+      slower: [],
+      added: [],
+      removed: previous.games.filter(game => !currentIds.has(game.id)).map(game => game.id)
+    };
+
+    for (const game of current.games) {
+      const before = previousGames.get(game.id);
+      const change = {
+        id: game.id,
+        ...(before ? { from: before.status } : {}),
+        to: game.status,
+        ...(game.phase ? { phase: game.phase } : {}),
+        errors: game.errors
+      };
+
+      if (!before) {
+        diff.added.push(game.id);
+        if (game.status === BuildStatus.FAILED) {
+          diff.regressions.push(change);
+        }
+        continue;
+      }
+
+      if (isBuilt(before) && !isBuilt(game)) {
+        diff.regressions.push(change);
+      } else if (!isBuilt(before) && isBuilt(game)) {
+        diff.fixed.push(change);
+      } else if (
+        before.status === BuildStatus.SUCCESS && !before.fromCache && !game.fromCache
+        && game.duration - before.duration >= MIN_SLOWDOWN
+        && game.duration > before.duration * (1 + options.slowdownThreshold)
+      ) {
+        diff.slower.push({ id: game.id, from: before.duration, to: game.duration });
+      }
+    }
+
+    return diff;
+  }
+
+  private toGameReport(result: GameBuildResult): GameReport {
+    const { game } = result;
+    const status = game.buildStatus === BuildStatus.SKIPPED
+      ? BuildStatus.SKIPPED
+      : result.success ? BuildStatus.SUCCESS : BuildStatus.FAILED;
+
+    return {
+      id: game.id,
+      name: game.config.name,
+      status,
+      ...(result.phase ? { phase: result.phase } : {}),
+      duration: Math.round(result.duration),
+      ...(game.lastCommit ? { commit: game.lastCommit } : {}),
+      fromCache: result.fromCache ?? false,
+      ...(result.skipReason ? { skipReason: result.skipReason } : {}),
+      errors: result.errors,
+      warnings: result.warnings,
+      steps: (result.steps ?? []).map(step => ({
+        command: step.command,
+        success: step.success,
+        exitCode: step.exitCode,
+        timedOut: step.timedOut,
+        duration: Math.round(step.duration)
+      })),
+      ...(result.logFile ? { logFile: result.logFile } : {})
+    };
+  }
+}
+
+/**
+ * Whether the game is on the site after the build: built now, or skipped
+ * for being installed already rather than for a reason of its own.
+ */
+function isBuilt(game: GameReport): boolean {
+  return game.status === BuildStatus.SUCCESS || (game.status === BuildStatus.SKIPPED && !game.skipReason);
+}
@@ -0,0 +1,116 @@
+import { execFile } from 'child_process';
+import fs from 'fs-extra';
+import path from 'path';
+import { promisify } from 'util';
+import { Logger } from '../utils/Logger.js';
+import { parseRequirement, satisfiesVersion } from '../utils/Requirement.js';
+
+const execFileAsync = promisify(execFile);
+
+const VERSION_TIMEOUT = 10000;
+
+export interface RequirementCheck {
+  requirement: string;
+  satisfied: boolean;
+  path?: string;
+  foundVersion?: string;
+  reason?: string;
+}
+
+/**
+ * Checks that the tools a game's build steps need are on the PATH, and new
+ * enough where a version range is given. Lookups are cached for the run.
+ */
+export class RequirementService {
+  private logger: Logger;
+  private pathCache = new Map<string, Promise<string | null>>();
+  private versionCache = new Map<string, Promise<string | null>>();
+
+  constructor(logger: Logger) {
+    this.logger = logger.createChildLogger('RequirementService');
+  }
+
+  async check(requirements: string[]): Promise<RequirementCheck[]> {
+    return await Promise.all(requirements.map(requirement => this.checkOne(requirement)));
+  }
+
+  private async checkOne(requirement: string): Promise<RequirementCheck> {
+    const parsed = parseRequirement(requirement);
+    if (!parsed) {
+      return { requirement, satisfied: false, reason: `invalid requirement '${requirement}'` };
+    }
+
+    const toolPath = await this.cached(this.pathCache, parsed.tool, () => this.findOnPath(parsed.tool));
+    if (!toolPath) {
+      return { requirement, satisfied: false, reason: `${parsed.tool} not found on PATH` };
+    }
+
+    if (!parsed.operator || !parsed.version) {
+      return { requirement, satisfied: true, path: toolPath };
+    }
+
+    const foundVersion = await this.cached(this.versionCache, toolPath, () => this.getVersion(toolPath));
+    if (!foundVersion) {
+      return { requirement, satisfied: false, path: toolPath, reason: `could not determine ${parsed.tool} version` };
+    }
+
+    const satisfied = satisfiesVersion(foundVersion, parsed.operator, parsed.version);
+    return {
+      requirement,
+      satisfied,
+      path: toolPath,
+      foundVersion,
+      ...(satisfied ? {} : { reason: `${parsed.tool} ${foundVersion} does not satisfy ${parsed.operator}${parsed.version}` })
+    };
+  }
+
+  private async findOnPath(tool: string): Promise<string | null> {
+    const dirs = (process.env.PATH ?? '').split(path.delimiter).filter(Boolean);
+    const extensions = process.platform === 'win32'
+      ? ['', ...(process.env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';')]
+      : [''];
+
+    for (const dir of dirs) {
+      for (const extension of extensions) {
+        const candidate = path.join(dir, tool + extension);
+        try {
+          await fs.access(candidate, fs.constants.X_OK);
+          if ((await fs.stat(candidate)).isFile()) {
+            return candidate;
+          }
+        } catch {
+          // Not here, keep looking
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private async getVersion(toolPath: string): Promise<string | null> {
+    try {
+      const { stdout, stderr } = await execFileAsync(toolPath, ['--version'], {
+        timeout: VERSION_TIMEOUT,
+        shell: process.platform === 'win32'
+      });
+      const match = /(\d+\.\d+(?:\.\d+)?)/.exec(`${stdout}\n${stderr}`);
+      return match?.[1] ?? null;
+    } catch (error) {
+      this.logger.debug(`Failed to run ${toolPath} --version`, error);
+      return null;
+    }
+  }
+
+  private cached(
+    cache: Map<string, Promise<string | null>>,
+    key: string,
+    lookup: () => Promise<string | null>
+  ): Promise<string | null> {
+    let result = cache.get(key);
+    if (!result) {
+      result = lookup();
+      cache.set(key, result);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,151 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ScrubService } from './ScrubService.js';
+import { Logger, LogLevel } from '../utils/Logger.js';
+import { BuildStatus, GameBuildResult, GameConfig, ScrubResult } from '../types/Game.js';
+
+const game: GameConfig = {
+  name: 'Chess',
+  tag: 'board game',
+  license: 'MIT',
+  git: 'https://github.com/attogram/chess.git',
+  mobile: true,
+  desktop: true
+};
+
+const TRACKED_PAGE = `<html><head>
+<script async src="https://www.googletagmanager.com/gtag/js?id=G-1"></script>
+<script>
+  window.dataLayer = window.dataLayer || [];
+  function gtag(){dataLayer.push(arguments);}
+  gtag('js', new Date());
+  gtag('config', 'G-1');
+</script>
+<script src="game.js"></script>
+</head><body><a href="https://www.hotjar.com/">Hotjar</a></body></html>`;
+
+const SCRUBBED_PAGE = `<html><head>
+
+
+<script src="game.js"></script>
+</head><body><a href="https://www.hotjar.com/">Hotjar</a></body></html>`;
+
+function scrubbed(gameId: string, scrub: ScrubResult, buildStatus = BuildStatus.SUCCESS): GameBuildResult {
+  return {
+    game: { id: gameId, config: game, buildStatus, lastCommit: 'abc1234' },
+    success: buildStatus !== BuildStatus.FAILED,
+    duration: 0,
+    errors: [],
+    warnings: [],
+    scrub
+  };
+}
+
+describe('ScrubService', () => {
+  let tempDir: string;
+  let gameDir: string;
+  let scrubs: ScrubService;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'attogram-scrub-'));
+    gameDir = path.join(tempDir, 'chess');
+    scrubs = new ScrubService({
+      outputDir: tempDir,
+      templatesDir: path.join(tempDir, 'templates'),
+      customDir: path.join(tempDir, 'custom'),
+      logoDir: path.join(tempDir, 'logo'),
+      concurrency: 1,
+      enableCache: false,
+      skipExisting: false
+    }, new Logger({ level: LogLevel.SILENT }));
+
+    await fs.outputFile(path.join(gameDir, 'index.html'), TRACKED_PAGE);
+    await fs.outputFile(path.join(gameDir, 'js', 'game.js'), "ga('send', 'pageview');\nstartGame();\n");
+    await fs.outputFile(path.join(gameDir, 'style.css'), "/* gtag('config', 'G-1'); */\n");
+    await fs.outputFile(path.join(gameDir, 'node_modules', 'lib', 'index.js'), "gtag('config', 'G-1');\n");
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  describe('scrub', () => {
+    it('removes tracker code, then the script tags it leaves empty', async () => {
+      const result = await scrubs.scrub('chess', gameDir, game);
+
+      expect(result.removals).toEqual([
+        { file: 'index.html', rule: 'tracker-script-tag', count: 1 },
+        { file: 'index.html', rule: 'google-tag', count: 3 },
+        { file: 'index.html', rule: 'empty-script', count: 1 },
+        { file: 'js/game.js', rule: 'google-analytics-command', count: 1 }
+      ]);
+      expect(await fs.readFile(path.join(gameDir, 'index.html'), 'utf-8')).toBe(SCRUBBED_PAGE);
+      expect(await fs.readFile(path.join(gameDir, 'js', 'game.js'), 'utf-8')).toBe('\nstartGame();\n');
+    });
+
+    it('leaves other file types and dependencies alone', async () => {
+      await scrubs.scrub('chess', gameDir, game);
+
+      expect(await fs.readFile(path.join(gameDir, 'style.css'), 'utf-8')).toBe("/* gtag('config', 'G-1'); */\n");
+      expect(await fs.readFile(path.join(gameDir, 'node_modules', 'lib', 'index.js'), 'utf-8')).toBe("gtag('config', 'G-1');\n");
+    });
+
+    it('reports the tracker domains still referenced', async () => {
+      const result = await scrubs.scrub('chess', gameDir, game);
+
+      expect(result.trackerDomains).toEqual({ 'hotjar.com': ['index.html'] });
+    });
+
+    it('applies custom rules to the files they name, with or without the built-in ones', async () => {
+      const config: GameConfig = {
+        ...game,
+        scrub: {
+          builtin: false,
+          rules: [{ pattern: 'https://www\\.hotjar\\.com/', replacement: '#', files: ['.html'], description: 'hotjar-link' }]
+        }
+      };
+
+      const result = await scrubs.scrub('chess', gameDir, config);
+
+      expect(result.removals).toEqual([{ file: 'index.html', rule: 'hotjar-link', count: 1 }]);
+      expect(result.trackerDomains).toEqual({ 'googletagmanager.com': ['index.html'] });
+      expect(await fs.readFile(path.join(gameDir, 'index.html'), 'utf-8')).toContain('<a href="#">Hotjar</a>');
+      expect(await fs.readFile(path.join(gameDir, 'js', 'game.js'), 'utf-8')).toContain("ga('send', 'pageview');");
+    });
+  });
+
+  describe('getUnexpectedDomains', () => {
+    it('leaves out allowed domains and their subdomains', () => {
+      const result: ScrubResult = {
+        removals: [],
+        trackerDomains: { 'hotjar.com': ['a.js'], 'doubleclick.net': ['a.js'], 'ads.doubleclick.net': ['a.js'], 'notdoubleclick.net': ['a.js'] }
+      };
+
+      expect(scrubs.getUnexpectedDomains(result, { ...game, scrub: { allowDomains: ['DoubleClick.net'] } }))
+        .toEqual(['hotjar.com', 'notdoubleclick.net']);
+      expect(scrubs.getUnexpectedDomains(result, game)).toHaveLength(4);
+    });
+  });
+
+  describe('recordReport', () => {
+    const hotjar: ScrubResult = { removals: [], trackerDomains: { 'hotjar.com': ['index.html'] } };
+    const clean: ScrubResult = { removals: [{ file: 'index.html', rule: 'google-tag', count: 1 }], trackerDomains: {} };
+
+    it('merges builds into the report, keeping games not scrubbed this time', async () => {
+      await scrubs.recordReport([scrubbed('chess', hotjar), scrubbed('pool', hotjar)]);
+      const report = await scrubs.recordReport([scrubbed('chess', clean)]);
+
+      expect(report.games['chess']).toEqual(expect.objectContaining({ commit: 'abc1234', ...clean }));
+      expect(report.games['pool']?.trackerDomains).toEqual(hotjar.trackerDomains);
+      expect(await scrubs.loadReport()).toEqual(report);
+    });
+
+    it('keeps the last good entry when a build fails', async () => {
+      await scrubs.recordReport([scrubbed('chess', clean)]);
+      const report = await scrubs.recordReport([scrubbed('chess', hotjar, BuildStatus.FAILED)]);
+
+      expect(report.games['chess']?.trackerDomains).toEqual({});
+    });
+  });
+});
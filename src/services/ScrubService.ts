@@ -0,0 +1,173 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Logger } from '../utils/Logger.js';
+import { BUILTIN_TRACKER_RULES, EMPTY_SCRIPT_PATTERN, TrackerRule, findTrackerDomains } from '../utils/Trackers.js';
+import { BuildStatus, GameBuildResult, GameConfig, ScrubRemoval, ScrubResult } from '../types/Game.js';
+import { BuildConfig } from '../types/Build.js';
+
+const DEFAULT_EXTENSIONS = ['.html', '.htm', '.js'];
+const SKIPPED_DIRS = new Set(['.git', 'node_modules']);
+// Bundles this large are data or engines, not places trackers get pasted into
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+export interface ScrubReport {
+  updatedAt: string;
+  games: { [gameId: string]: ScrubReportEntry };
+}
+
+export interface ScrubReportEntry extends ScrubResult {
+  commit?: string;
+  scrubbedAt: string;
+}
+
+/**
+ * Post-build transform that strips analytics and social tracking code from
+ * a game's HTML and JavaScript, so games can be hosted without forking
+ * them just to delete a snippet.
+ */
+export class ScrubService {
+  private logger: Logger;
+  private reportPath: string;
+
+  constructor(config: BuildConfig, logger: Logger) {
+    this.logger = logger.createChildLogger('ScrubService');
+    this.reportPath = path.join(config.outputDir, '.attogram', 'scrub-report.json');
+  }
+
+  getReportPath(): string {
+    return this.reportPath;
+  }
+
+  async scrub(gameId: string, gameDir: string, config: GameConfig): Promise<ScrubResult> {
+    const rules = this.getRules(config);
+    const extensions = new Set(rules.flatMap(rule => rule.extensions).concat(DEFAULT_EXTENSIONS));
+    const removals: ScrubRemoval[] = [];
+    const trackerDomains: { [domain: string]: string[] } = {};
+
+    for (const file of await this.listFiles(gameDir, extensions)) {
+      const relativePath = path.relative(gameDir, file).split(path.sep).join('/');
+      const extension = path.extname(file).toLowerCase();
+      const original = await fs.readFile(file, 'utf8');
+      let content = original;
+      let removedAny = false;
+
+      for (const rule of rules) {
+        if (!rule.extensions.includes(extension)) continue;
+
+        let count = 0;
+        content = content.replace(rule.pattern, () => {
+          count++;
+          return rule.replacement ?? '';
+        });
+
+        if (count > 0) {
+          removals.push({ file: relativePath, rule: rule.id, count });
+          removedAny = true;
+        }
+      }
+
+      if (removedAny && (extension === '.html' || extension === '.htm')) {
+        let count = 0;
+        content = content.replace(EMPTY_SCRIPT_PATTERN, () => {
+          count++;
+          return '';
+        });
+        if (count > 0) {
+          removals.push({ file: relativePath, rule: 'empty-script', count });
+        }
+      }
+
+      if (content !== original) {
+        await fs.writeFile(file, content);
+      }
+
+      for (const domain of findTrackerDomains(content)) {
+        (trackerDomains[domain] ??= []).push(relativePath);
+      }
+    }
+
+    const removedCount = removals.reduce((sum, removal) => sum + removal.count, 0);
+    if (removedCount > 0) {
+      this.logger.info(`Removed ${removedCount} tracker snippets from ${gameId}`);
+    }
+
+    return { removals, trackerDomains };
+  }
+
+  /**
+   * Tracker domains a scrubbed game still references that its config does
+   * not explicitly allow.
+   */
+  getUnexpectedDomains(result: ScrubResult, config: GameConfig): string[] {
+    const allowed = (config.scrub?.allowDomains ?? []).map(domain => domain.toLowerCase());
+    return Object.keys(result.trackerDomains).filter(domain =>
+      !allowed.some(allowedDomain => domain === allowedDomain || domain.endsWith(`.${allowedDomain}`))
+    );
+  }
+
+  async loadReport(): Promise<ScrubReport> {
+    if (!(await fs.pathExists(this.reportPath))) {
+      return { updatedAt: new Date().toISOString(), games: {} };
+    }
+    return await fs.readJSON(this.reportPath);
+  }
+
+  /**
+   * Merge the scrub results of a build into the report. Games that were
+   * not scrubbed this time keep their previous entry, and so do games whose
+   * build failed: the next build compares against the report to find new
+   * tracker domains, and a domain that failed this build must still count
+   * as new then.
+   */
+  async recordReport(results: GameBuildResult[]): Promise<ScrubReport> {
+    const report = await this.loadReport();
+    const now = new Date().toISOString();
+
+    for (const result of results) {
+      if (!result.scrub || result.game.buildStatus === BuildStatus.FAILED) continue;
+      report.games[result.game.id] = {
+        ...(result.game.lastCommit ? { commit: result.game.lastCommit } : {}),
+        scrubbedAt: now,
+        ...result.scrub
+      };
+    }
+
+    report.updatedAt = now;
+    await fs.outputJSON(this.reportPath, report, { spaces: 2 });
+    return report;
+  }
+
+  private getRules(config: GameConfig): (TrackerRule & { replacement?: string })[] {
+    const builtin = config.scrub?.builtin === false ? [] : BUILTIN_TRACKER_RULES;
+    const custom = (config.scrub?.rules ?? []).map((rule, index) => ({
+      id: rule.description ?? `custom-${index + 1}`,
+      description: rule.description ?? rule.pattern,
+      extensions: (rule.files ?? DEFAULT_EXTENSIONS).map(extension => extension.toLowerCase()),
+      pattern: new RegExp(rule.pattern, 'g'),
+      ...(rule.replacement !== undefined ? { replacement: rule.replacement } : {})
+    }));
+
+    return [...builtin, ...custom];
+  }
+
+  private async listFiles(dir: string, extensions: Set<string>): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) {
+          files.push(...await this.listFiles(entryPath, extensions));
+        }
+      } else if (entry.isFile() && extensions.has(path.extname(entry.name).toLowerCase())) {
+        if ((await fs.stat(entryPath)).size <= MAX_FILE_SIZE) {
+          files.push(entryPath);
+        } else {
+          this.logger.debug(`Not scrubbing ${entryPath}, too large`);
+        }
+      }
+    }
+
+    return files;
+  }
+}
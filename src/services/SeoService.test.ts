@@ -0,0 +1,113 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { SeoService } from './SeoService.js';
+import { Logger, LogLevel } from '../utils/Logger.js';
+import { BuildConfig } from '../types/Build.js';
+import { BuildStatus, GameBuildResult, GameConfig } from '../types/Game.js';
+
+const game: GameConfig = {
+  name: 'Chess',
+  tag: 'board game',
+  license: 'MIT',
+  git: 'https://github.com/attogram/chess.git',
+  mobile: true,
+  desktop: true
+};
+
+function built(gameId: string): GameBuildResult {
+  return {
+    game: { id: gameId, config: game, buildStatus: BuildStatus.SUCCESS },
+    success: true,
+    duration: 0,
+    errors: [],
+    warnings: []
+  };
+}
+
+describe('SeoService', () => {
+  let tempDir: string;
+  let config: BuildConfig;
+  const logger = new Logger({ level: LogLevel.SILENT });
+
+  async function generate(games: GameBuildResult[], baseUrl?: string): Promise<string[]> {
+    const written = await new SeoService({ ...config, ...(baseUrl ? { baseUrl } : {}) }, logger).generate(games);
+    return written.map(file => path.relative(config.outputDir, file));
+  }
+
+  async function read(file: string): Promise<string> {
+    return await fs.readFile(path.join(config.outputDir, file), 'utf-8');
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'attogram-seo-'));
+    config = {
+      outputDir: path.join(tempDir, 'out'),
+      templatesDir: path.join(tempDir, 'templates'),
+      customDir: path.join(tempDir, 'custom'),
+      logoDir: path.join(tempDir, 'logo'),
+      concurrency: 1,
+      enableCache: false,
+      skipExisting: false
+    };
+    await fs.outputJSON(path.join(config.customDir, 'site.json'), { title: 'Arcade', headline: 'Play' });
+    await fs.ensureDir(config.outputDir);
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  describe('robots.txt', () => {
+    it('points crawlers at the sitemap of sites at the root of their host', async () => {
+      expect(await generate([], 'https://games.example.com/')).toEqual(['robots.txt', 'sitemap.xml', 'feed.xml']);
+      expect(await read('robots.txt')).toBe([
+        'User-agent: *',
+        'Disallow: /.attogram/',
+        'Disallow: /maintenance.html',
+        '',
+        'Sitemap: https://games.example.com/sitemap.xml',
+        ''
+      ].join('\n'));
+    });
+
+    it('is left out below the root, where crawlers never look', async () => {
+      await fs.outputFile(path.join(config.outputDir, 'robots.txt'), 'User-agent: *\n');
+
+      expect(await generate([], 'https://example.com/games/')).toEqual(['sitemap.xml', 'feed.xml']);
+      expect(await fs.pathExists(path.join(config.outputDir, 'robots.txt'))).toBe(false);
+    });
+  });
+
+  describe('dates', () => {
+    it('dates games without a build record from their commit', async () => {
+      const gameDir = path.join(config.outputDir, 'chess');
+      await fs.outputFile(path.join(gameDir, 'index.html'), '<canvas></canvas>');
+      const git = (...args: string[]) => execFileSync('git', args, {
+        cwd: gameDir,
+        env: { ...process.env, GIT_COMMITTER_DATE: '2024-03-01T12:00:00Z', GIT_AUTHOR_DATE: '2024-03-01T12:00:00Z' }
+      });
+      git('init', '-q');
+      git('add', '.');
+      git('-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'Initial commit');
+
+      await generate([built('chess')], 'https://games.example.com/');
+
+      expect(await read('sitemap.xml')).toContain([
+        '    <loc>https://games.example.com/chess/</loc>',
+        '    <lastmod>2024-03-01T12:00:00.000Z</lastmod>'
+      ].join('\n'));
+      expect(await read('feed.xml')).toContain('<updated>2024-03-01T12:00:00.000Z</updated>');
+    });
+
+    it('leaves undated games out of the feed and their lastmod out of the sitemap', async () => {
+      await generate([built('pool')], 'https://games.example.com/');
+
+      const sitemap = await read('sitemap.xml');
+      expect(sitemap).toContain('<loc>https://games.example.com/pool/</loc>');
+      expect(sitemap).not.toContain('<lastmod>');
+      expect(await read('feed.xml')).not.toContain('<entry>');
+    });
+  });
+});
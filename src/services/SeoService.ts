@@ -0,0 +1,223 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Logger } from '../utils/Logger.js';
+import { assertWellFormed, escapeXml } from '../utils/Xml.js';
+import { VERSION } from '../utils/Version.js';
+import { getLocaleDir } from '../utils/I18n.js';
+import { BuildStatus, GameBuildResult } from '../types/Game.js';
+import { BuildConfig, GameManifestEntry } from '../types/Build.js';
+import { SiteConfig } from '../types/Site.js';
+import { ManifestService } from './ManifestService.js';
+import { SiteService } from './SiteService.js';
+import { GitService } from './GitService.js';
+
+export const SITEMAP_FILE = 'sitemap.xml';
+export const FEED_FILE = 'feed.xml';
+const ROBOTS_FILE = 'robots.txt';
+// Build state that has no business in search results
+const DISALLOWED_PATHS = ['.attogram/', 'maintenance.html'];
+
+interface SitemapUrl {
+  loc: string;
+  lastmod?: string;
+}
+
+interface FeedEntry {
+  result: GameBuildResult;
+  /** Unset for games nothing dates */
+  published?: string;
+  updated?: string;
+}
+
+/**
+ * Writes what search engines and feed readers look for: `robots.txt` for
+ * sites at the root of their host, and given a base URL, `sitemap.xml` and
+ * an Atom feed of the games, newest first. Games are dated from the build
+ * manifest, so run after it is recorded.
+ */
+export class SeoService {
+  private logger: Logger;
+  private config: BuildConfig;
+  private manifestService: ManifestService;
+  private siteService: SiteService;
+  private gitService: GitService;
+
+  constructor(config: BuildConfig, logger: Logger, siteService = new SiteService(config, logger)) {
+    this.config = config;
+    this.logger = logger.createChildLogger('SeoService');
+    this.manifestService = new ManifestService(config, logger);
+    this.siteService = siteService;
+    this.gitService = new GitService(logger);
+  }
+
+  /**
+   * Returns the paths written.
+   */
+  async generate(games: GameBuildResult[]): Promise<string[]> {
+    this.logger.info('Generating robots.txt, sitemap and feed');
+
+    const siteUrl = await this.siteService.getSiteUrl();
+    const builtGames = games.filter(result => result.game.buildStatus === BuildStatus.SUCCESS);
+    const written: string[] = [];
+
+    // Crawlers only read robots.txt at the root of a host
+    const basePath = siteUrl ? new URL(siteUrl).pathname : '/';
+    if (basePath === '/') {
+      written.push(await this.write(ROBOTS_FILE, this.renderRobots(siteUrl)));
+    } else {
+      this.logger.warn(`Base URL is not at the root of its host, skipping ${ROBOTS_FILE} - add its rules to the host's own ${ROBOTS_FILE}`);
+      await fs.remove(path.join(this.config.outputDir, ROBOTS_FILE));
+    }
+
+    if (!siteUrl) {
+      this.logger.warn(`No absolute base URL, skipping ${SITEMAP_FILE} and ${FEED_FILE} (set baseUrl in site.json or use --base-url)`);
+      await this.removeStale();
+      return written;
+    }
+
+    const manifest = await this.manifestService.load();
+    const entries: FeedEntry[] = [];
+    for (const result of builtGames) {
+      entries.push(await this.toFeedEntry(result, manifest.games[result.game.id]));
+    }
+    entries.sort((a, b) => (b.updated ?? '').localeCompare(a.updated ?? '') || a.result.game.id.localeCompare(b.result.game.id));
+
+    const site = await this.siteService.load();
+    const localeDirs = (await this.siteService.getLocales()).map((locale, _, locales) => getLocaleDir(locales, locale));
+    const documents: [string, string][] = [
+      [SITEMAP_FILE, this.renderSitemap(siteUrl, site, localeDirs, entries)],
+      [FEED_FILE, this.renderFeed(siteUrl, site, entries)]
+    ];
+    for (const [file, xml] of documents) {
+      // Malformed XML is a bug here, not something to publish
+      assertWellFormed(file, xml);
+      written.push(await this.write(file, xml));
+    }
+
+    this.logger.success(`Generated ${ROBOTS_FILE}, ${SITEMAP_FILE} and ${FEED_FILE} with ${entries.length} games`);
+    return written;
+  }
+
+  private renderRobots(siteUrl: string | undefined): string {
+    return [
+      'User-agent: *',
+      ...DISALLOWED_PATHS.map(disallowed => `Disallow: /${disallowed}`),
+      ...(siteUrl ? ['', `Sitemap: ${siteUrl}${SITEMAP_FILE}`] : []),
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * The pages of every locale, and each game itself.
+   */
+  private renderSitemap(siteUrl: string, site: SiteConfig, localeDirs: string[], entries: FeedEntry[]): string {
+    const lastUpdate = entries[0]?.updated;
+    const urls: SitemapUrl[] = [];
+    for (const dir of localeDirs) {
+      const localeUrl = siteUrl + dir;
+      urls.push({ loc: localeUrl, ...(lastUpdate ? { lastmod: lastUpdate } : {}) });
+      urls.push({ loc: `${localeUrl}about.html` });
+      for (const { result, updated } of entries) {
+        urls.push({ loc: this.gamePageUrl(localeUrl, result), ...(updated ? { lastmod: updated } : {}) });
+      }
+      for (const category of site.categories ?? []) {
+        urls.push({ loc: `${localeUrl}_categories/${category.id}.html` });
+      }
+    }
+    for (const { result, updated } of entries) {
+      urls.push({ loc: this.playUrl(siteUrl, result), ...(updated ? { lastmod: updated } : {}) });
+    }
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      ...urls.map(url => [
+        '  <url>',
+        `    <loc>${escapeXml(url.loc)}</loc>`,
+        ...(url.lastmod ? [`    <lastmod>${url.lastmod}</lastmod>`] : []),
+        '  </url>'
+      ].join('\n')),
+      '</urlset>',
+      ''
+    ].join('\n');
+  }
+
+  private renderFeed(siteUrl: string, site: SiteConfig, entries: FeedEntry[]): string {
+    const categoryNames = new Map((site.categories ?? []).map(category => [category.id, category.name]));
+    const updated = entries[0]?.updated ?? new Date().toISOString();
+
+    // Atom entries must be dated
+    const datedEntries = entries.filter((entry): entry is Required<FeedEntry> =>
+      entry.published !== undefined && entry.updated !== undefined);
+
+    const renderEntry = ({ result, published, updated: entryUpdated }: Required<FeedEntry>) => {
+      const { game } = result;
+      const url = this.gamePageUrl(siteUrl, result);
+      return [
+        '  <entry>',
+        `    <id>${escapeXml(url)}</id>`,
+        `    <title>${escapeXml(game.config.name)}</title>`,
+        `    <link rel="alternate" type="text/html" href="${escapeXml(url)}"/>`,
+        `    <published>${published}</published>`,
+        `    <updated>${entryUpdated}</updated>`,
+        ...(game.config.categories ?? []).map(category =>
+          `    <category term="${escapeXml(category)}" label="${escapeXml(categoryNames.get(category) ?? category)}"/>`),
+        `    <summary>${escapeXml(game.config.tag)}</summary>`,
+        '  </entry>'
+      ].join('\n');
+    };
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<feed xmlns="http://www.w3.org/2005/Atom">',
+      `  <id>${escapeXml(siteUrl)}</id>`,
+      `  <title>${escapeXml(site.title)}</title>`,
+      ...(site.description ? [`  <subtitle>${escapeXml(site.description)}</subtitle>`] : []),
+      `  <link rel="self" type="application/atom+xml" href="${escapeXml(siteUrl + FEED_FILE)}"/>`,
+      `  <link rel="alternate" type="text/html" href="${escapeXml(siteUrl)}"/>`,
+      `  <author><name>${escapeXml(site.title)}</name></author>`,
+      `  <generator version="${VERSION}">Attogram Games</generator>`,
+      `  <updated>${updated}</updated>`,
+      ...datedEntries.map(renderEntry),
+      '</feed>',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * A game is published with its first good build and updated whenever it
+   * moves to another commit. Games from older manifests fall back to their
+   * last build, then to the date of the commit they are checked out at.
+   */
+  private async toFeedEntry(result: GameBuildResult, entry: GameManifestEntry | undefined): Promise<FeedEntry> {
+    const lastBuilt = entry?.lastBuilt ?? result.game.lastBuilt?.toISOString() ??
+      await this.gitService.getCommitDate(path.join(this.config.outputDir, result.game.id)) ?? undefined;
+    const published = entry?.firstBuilt ?? lastBuilt;
+    const updated = entry?.lastUpdated ?? published;
+    return { result, ...(published ? { published } : {}), ...(updated ? { updated } : {}) };
+  }
+
+  private gamePageUrl(siteUrl: string, result: GameBuildResult): string {
+    return `${siteUrl}_games/${encodeURIComponent(result.game.id)}.html`;
+  }
+
+  private playUrl(siteUrl: string, result: GameBuildResult): string {
+    return `${siteUrl}${encodeURIComponent(result.game.id)}/${result.game.config.index ?? ''}`;
+  }
+
+  private async write(file: string, content: string): Promise<string> {
+    const outputPath = path.join(this.config.outputDir, file);
+    await fs.writeFile(outputPath, content, 'utf-8');
+    return outputPath;
+  }
+
+  /**
+   * Without a base URL, drop a sitemap and feed from an earlier build rather
+   * than leave them pointing at games that may be gone.
+   */
+  private async removeStale(): Promise<void> {
+    for (const file of [SITEMAP_FILE, FEED_FILE]) {
+      await fs.remove(path.join(this.config.outputDir, file));
+    }
+  }
+}
@@ -0,0 +1,260 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Logger } from '../utils/Logger.js';
+import { parsePhpAssignment } from '../utils/PhpArrayParser.js';
+import { ConfigValidationError, validateSiteConfig } from '../utils/Validator.js';
+import { VERSION } from '../utils/Version.js';
+import { DEFAULT_LOCALE, Messages, translate } from '../utils/I18n.js';
+import { BuildConfig } from '../types/Build.js';
+import { LegacyTemplates, SiteConfig } from '../types/Site.js';
+import type { MigrationOptions } from './ConfigService.js';
+
+const SITE_FILE = 'site.json';
+const LEGACY_CONFIG_FILE = 'config.php';
+const LEGACY_TEMPLATE_FILES = ['header.html', 'footer.html', 'css.css'];
+
+export const DEFAULT_SITE: SiteConfig = {
+  title: 'Attogram Games Website',
+  headline: 'Open Source Web Games Collection'
+};
+
+export interface SiteMigrationResult {
+  source: string;
+  output: string;
+  written: boolean;
+  site?: SiteConfig;
+  skippedReason?: string;
+}
+
+/**
+ * Loads the site settings: `custom/site.json`, else `$title` and
+ * `$headline` imported from the PHP builder's `config.php`, else the
+ * defaults. Also renders the PHP builder's header and footer templates
+ * for sites that still customize them.
+ */
+export class SiteService {
+  private logger: Logger;
+  private config: BuildConfig;
+  private legacyDir: string;
+  private site: Promise<SiteConfig> | undefined;
+  private siteUrl: Promise<string | undefined> | undefined;
+
+  constructor(config: BuildConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger.createChildLogger('SiteService');
+    this.legacyDir = path.join(process.cwd(), '_build');
+  }
+
+  /**
+   * The site settings, read once until `reset()`. A failed read is not
+   * kept, so the next call tries again.
+   */
+  load(): Promise<SiteConfig> {
+    this.site ??= this.loadSite().catch(error => {
+      this.site = undefined;
+      throw error;
+    });
+    return this.site;
+  }
+
+  /**
+   * Forget the settings read so far, to pick up edits to them.
+   */
+  reset(): void {
+    this.site = undefined;
+    this.siteUrl = undefined;
+  }
+
+  /**
+   * The site's languages, the one served from the site root first.
+   */
+  async getLocales(): Promise<string[]> {
+    return (await this.load()).locales ?? [DEFAULT_LOCALE];
+  }
+
+  /**
+   * The site as shown in a locale: its translations applied, and the
+   * default title and headline taken from the theme's messages.
+   */
+  async localize(locale: string, messages: Messages): Promise<SiteConfig> {
+    const site = await this.load();
+    const translation = site.translations?.[locale] ?? {};
+    const title = translation.title
+      ?? (site.title === DEFAULT_SITE.title ? translate(messages, locale, 'site.title') : site.title);
+    const headline = translation.headline
+      ?? (site.headline === DEFAULT_SITE.headline ? translate(messages, locale, 'site.headline') : site.headline);
+    const description = translation.description ?? site.description;
+
+    return {
+      ...site,
+      title,
+      headline,
+      ...(description !== undefined ? { description } : {}),
+      ...(site.categories ? {
+        categories: site.categories.map(category => {
+          const categoryTranslation = translation.categories?.[category.id] ?? {};
+          const categoryDescription = categoryTranslation.description ?? category.description;
+          return {
+            ...category,
+            name: categoryTranslation.name ?? category.name,
+            ...(categoryDescription !== undefined ? { description: categoryDescription } : {})
+          };
+        })
+      } : {})
+    };
+  }
+
+  /**
+   * The public URL of the site, ending in `/`: `--base-url`, else the site's
+   * base URL. Undefined unless it is an absolute http(s) URL, as sitemaps,
+   * feeds and social previews cannot use relative links.
+   */
+  getSiteUrl(): Promise<string | undefined> {
+    this.siteUrl ??= this.resolveSiteUrl().catch(error => {
+      this.siteUrl = undefined;
+      throw error;
+    });
+    return this.siteUrl;
+  }
+
+  /**
+   * Import `$title` and `$headline` from a PHP config. Like the PHP
+   * builder, the headline falls back to the title.
+   */
+  async importPhpConfig(phpFilePath: string): Promise<SiteConfig> {
+    const source = await fs.readFile(phpFilePath, 'utf-8');
+    const readString = (variable: string): string | undefined => {
+      const value = parsePhpAssignment(source, variable);
+      return typeof value === 'string' && value.length > 0 ? value : undefined;
+    };
+
+    const title = readString('title') ?? DEFAULT_SITE.title;
+    return { title, headline: readString('headline') ?? title };
+  }
+
+  /**
+   * Whether to render the legacy templates: as configured, else when any of
+   * them is customized.
+   */
+  async usesLegacyTemplates(): Promise<boolean> {
+    const site = await this.load();
+    if (site.legacyTemplates !== undefined) {
+      return site.legacyTemplates;
+    }
+
+    for (const file of LEGACY_TEMPLATE_FILES) {
+      if (await fs.pathExists(path.join(this.config.customDir, file))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * `header.html` and `footer.html` with the PHP builder's `{{TITLE}}`,
+   * `{{HEADLINE}}`, `{{CSS}}`, `{{VERSION}}` and `{{DATETIME_UTC}}` tokens
+   * replaced, custom copies first.
+   */
+  async renderLegacyTemplates(buildTime: Date): Promise<LegacyTemplates> {
+    const site = await this.load();
+    const css = await this.readLegacyTemplate('css.css');
+    const tokens: { [token: string]: string } = {
+      '{{CSS}}': css,
+      '{{TITLE}}': site.title,
+      '{{HEADLINE}}': site.headline,
+      '{{VERSION}}': `v${VERSION}`,
+      '{{DATETIME_UTC}}': buildTime.toISOString().slice(0, 19).replace('T', ' ')
+    };
+
+    const transpose = (template: string) =>
+      Object.entries(tokens).reduce((result, [token, value]) => result.split(token).join(value), template);
+
+    return {
+      header: transpose(await this.readLegacyTemplate('header.html')),
+      footer: transpose(await this.readLegacyTemplate('footer.html'))
+    };
+  }
+
+  /**
+   * Write `site.json` from the legacy `config.php`.
+   */
+  async migrate(options: MigrationOptions): Promise<SiteMigrationResult> {
+    const sourcePath = path.join(options.sourceDir, LEGACY_CONFIG_FILE);
+    const outputPath = path.join(options.outputDir, SITE_FILE);
+
+    if (!(await fs.pathExists(sourcePath))) {
+      return { source: sourcePath, output: outputPath, written: false, skippedReason: 'source not found' };
+    }
+
+    const site = await this.importPhpConfig(sourcePath);
+    const result: SiteMigrationResult = { source: sourcePath, output: outputPath, written: false, site };
+
+    if (!options.force && await fs.pathExists(outputPath)) {
+      result.skippedReason = 'output exists (use --force to overwrite)';
+    } else if (!options.dryRun) {
+      await fs.outputJSON(outputPath, site, { spaces: 2 });
+      result.written = true;
+      this.logger.success(`Migrated site settings from ${LEGACY_CONFIG_FILE} to ${outputPath}`);
+    }
+
+    return result;
+  }
+
+  private async loadSite(): Promise<SiteConfig> {
+    const sitePath = path.join(this.config.customDir, SITE_FILE);
+    if (await fs.pathExists(sitePath)) {
+      this.logger.debug(`Loading site settings from ${sitePath}`);
+      const data = await fs.readJSON(sitePath);
+      const issues = validateSiteConfig(data);
+      if (issues.length > 0) {
+        throw new ConfigValidationError(issues, `Site configuration ${sitePath}`);
+      }
+      return { ...data, headline: data.headline ?? data.title };
+    }
+
+    for (const phpPath of [path.join(this.config.customDir, LEGACY_CONFIG_FILE), path.join(this.legacyDir, LEGACY_CONFIG_FILE)]) {
+      if (!(await fs.pathExists(phpPath))) {
+        continue;
+      }
+      try {
+        this.logger.debug(`Importing site settings from ${phpPath} (legacy)`);
+        return await this.importPhpConfig(phpPath);
+      } catch (error) {
+        this.logger.warn(`Could not import site settings from ${phpPath}, using defaults`, error);
+        break;
+      }
+    }
+
+    return { ...DEFAULT_SITE };
+  }
+
+  private async resolveSiteUrl(): Promise<string | undefined> {
+    const baseUrl = this.config.baseUrl ?? (await this.load()).baseUrl;
+    if (!baseUrl) {
+      return undefined;
+    }
+
+    try {
+      const url = new URL(baseUrl);
+      if (url.protocol === 'http:' || url.protocol === 'https:') {
+        url.search = '';
+        url.hash = '';
+        return url.href.endsWith('/') ? url.href : `${url.href}/`;
+      }
+    } catch {
+      // Reported below
+    }
+    this.logger.warn(`Base URL ${baseUrl} is not an absolute http(s) URL, leaving out absolute links`);
+    return undefined;
+  }
+
+  private async readLegacyTemplate(file: string): Promise<string> {
+    for (const dir of [this.config.customDir, this.config.templatesDir]) {
+      const templatePath = path.join(dir, file);
+      if (await fs.pathExists(templatePath)) {
+        return await fs.readFile(templatePath, 'utf-8');
+      }
+    }
+    return '';
+  }
+}
@@ -0,0 +1,145 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { StepService } from './StepService.js';
+import { Logger, LogLevel } from '../utils/Logger.js';
+import { BuildStepResult } from '../types/Game.js';
+
+const NODE = `'${process.execPath}'`;
+
+// Start a grandchild in the step's process group and print its pid. Shells
+// have background jobs ignore SIGINT, so the one that forwards it uses Node.
+const SPAWNS_CHILD = 'sleep 30 & echo $!; wait';
+const SPAWNS_NODE_CHILD = `${NODE} -e "console.log(require('child_process').spawn('sleep', ['30']).pid); setInterval(() => {}, 1000)"`;
+
+/** Whether a process is still running; zombies waiting to be reaped count as gone */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  const stat = `/proc/${pid}/stat`;
+  return !fs.existsSync(stat) || !/^\d+ \(.*\) Z/.test(fs.readFileSync(stat, 'utf-8'));
+}
+
+/** Whether a process is gone within a second, as signals take a moment to land */
+async function hasExited(pid: number): Promise<boolean> {
+  for (let attempt = 0; attempt < 20 && isRunning(pid); attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  return !isRunning(pid);
+}
+
+function childPid(result: BuildStepResult): number {
+  return parseInt(result.stdout.trim(), 10);
+}
+
+describe('StepService', () => {
+  let tempDir: string;
+  let steps: StepService;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'attogram-step-'));
+    steps = new StepService({
+      outputDir: tempDir,
+      templatesDir: path.join(tempDir, 'templates'),
+      customDir: path.join(tempDir, 'custom'),
+      logoDir: path.join(tempDir, 'logo'),
+      concurrency: 1,
+      enableCache: false,
+      skipExisting: false
+    }, new Logger({ level: LogLevel.SILENT }));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('runs commands with their environment and working directory', async () => {
+    await fs.ensureDir(path.join(tempDir, 'web'));
+
+    const result = await steps.runStep(tempDir, {
+      run: `GREETING=hello ${NODE} -e "console.log(process.env.GREETING, process.env.NAME, process.cwd())"`,
+      env: { NAME: 'chess' },
+      cwd: 'web'
+    });
+
+    expect(result).toEqual(expect.objectContaining({ exitCode: 0, success: true, timedOut: false, truncated: false }));
+    expect(result.stdout.trim()).toBe(`hello chess ${await fs.realpath(path.join(tempDir, 'web'))}`);
+  });
+
+  it('reports failing steps with their output', async () => {
+    const result = await steps.runStep(tempDir, `${NODE} -e "console.error('broken'); process.exit(3)"`);
+
+    expect(result).toEqual(expect.objectContaining({ exitCode: 3, success: false, stderr: 'broken\n' }));
+  });
+
+  it('refuses a cwd outside the game directory', async () => {
+    await expect(steps.runStep(tempDir, { run: 'ls', cwd: '..' }))
+      .rejects.toThrow('Build step cwd must stay inside the game directory: ..');
+  });
+
+  it('keeps the tail of long output', async () => {
+    const result = await steps.runStep(tempDir, `${NODE} -e "process.stdout.write('x'.repeat(200000) + 'END')"`);
+
+    expect(result.truncated).toBe(true);
+    expect(result.stdout).toHaveLength(64 * 1024);
+    expect(result.stdout.endsWith('xEND')).toBe(true);
+  });
+
+  it('decodes characters split across chunks', async () => {
+    const chunks: string[] = [];
+    const result = await steps.runStep(
+      tempDir,
+      `${NODE} -e "process.stdout.write(Buffer.from([0xc3])); setTimeout(() => process.stdout.write(Buffer.from([0xa9])), 100)"`,
+      (stream, chunk) => chunks.push(chunk)
+    );
+
+    expect(result.stdout).toBe('é');
+    expect(chunks.join('')).toBe('é');
+  });
+
+  const unix = process.platform === 'win32' ? describe.skip : describe;
+
+  unix('stopping steps', () => {
+    it('kills the whole process group when a step times out', async () => {
+      const result = await steps.runStep(tempDir, { run: SPAWNS_CHILD, timeout: 0.5 });
+
+      expect(result).toEqual(expect.objectContaining({ timedOut: true, success: false, signal: 'SIGTERM' }));
+      expect(await hasExited(childPid(result))).toBe(true);
+    });
+
+    it('kills steps that ignore SIGTERM after a grace period', async () => {
+      const result = await steps.runStep(tempDir, { run: `trap '' TERM; ${SPAWNS_CHILD}`, timeout: 0.5 });
+
+      expect(result).toEqual(expect.objectContaining({ timedOut: true, signal: 'SIGKILL' }));
+      expect(await hasExited(childPid(result))).toBe(true);
+    }, 15_000);
+
+    it('passes SIGINT on to running steps and stops listening after', async () => {
+      // Stands in for the listener that would otherwise have the builder exit
+      const keepAlive = () => undefined;
+      process.on('SIGINT', keepAlive);
+
+      try {
+        let started: () => void = () => undefined;
+        const running = new Promise<void>(resolve => {
+          started = resolve;
+        });
+        const step = steps.runStep(tempDir, SPAWNS_NODE_CHILD, () => started());
+
+        await running;
+        expect(process.listenerCount('SIGINT')).toBe(2);
+        process.emit('SIGINT', 'SIGINT');
+        const result = await step;
+
+        expect(result).toEqual(expect.objectContaining({ success: false, signal: 'SIGINT' }));
+        expect(await hasExited(childPid(result))).toBe(true);
+        expect(process.listenerCount('SIGINT')).toBe(1);
+      } finally {
+        process.off('SIGINT', keepAlive);
+      }
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { spawn, ChildProcess } from 'child_process';
+import path from 'path';
+import { Logger } from '../utils/Logger.js';
+import { parseCommand } from '../utils/CommandParser.js';
+import { BuildStep, BuildStepConfig, BuildStepResult } from '../types/Game.js';
+import { BuildConfig } from '../types/Build.js';
+
+const DEFAULT_STEP_TIMEOUT = 600;
+const KILL_GRACE_PERIOD = 5000;
+const MAX_OUTPUT_LENGTH = 64 * 1024;
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+export type StepOutputListener = (stream: 'stdout' | 'stderr', chunk: string) => void;
+
+/**
+ * Runs a single build step. Plain commands are spawned directly, anything
+ * using shell syntax goes through the platform shell, and a step that runs
+ * past its timeout is killed together with every process it started. Steps
+ * run in their own process group, out of reach of Ctrl-C, so interrupting
+ * the builder passes the signal on to them.
+ */
+export class StepService {
+  private logger: Logger;
+  private config: BuildConfig;
+  private running = new Set<ChildProcess>();
+
+  constructor(config: BuildConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger.createChildLogger('StepService');
+  }
+
+  /**
+   * Run a step. The result keeps the tail of its output, `onOutput` gets
+   * all of it as it comes.
+   */
+  async runStep(gameDir: string, step: BuildStep, onOutput?: StepOutputListener): Promise<BuildStepResult> {
+    const stepConfig: BuildStepConfig = typeof step === 'string' ? { run: step } : step;
+    const cwd = path.resolve(gameDir, stepConfig.cwd ?? '.');
+    const relativeCwd = path.relative(gameDir, cwd);
+
+    if (relativeCwd.startsWith('..') || path.isAbsolute(relativeCwd)) {
+      throw new Error(`Build step cwd must stay inside the game directory: ${stepConfig.cwd}`);
+    }
+
+    const parsed = parseCommand(stepConfig.run);
+    const timeout = (stepConfig.timeout ?? this.config.stepTimeout ?? DEFAULT_STEP_TIMEOUT) * 1000;
+    const options = {
+      cwd,
+      env: { ...process.env, ...stepConfig.env, ...parsed.env },
+      stdio: ['ignore', 'pipe', 'pipe'] as ['ignore', 'pipe', 'pipe'],
+      // Own process group, so a timeout or Ctrl-C can take down the whole tree
+      detached: process.platform !== 'win32'
+    };
+
+    const command = parsed.argv[0];
+    const child = parsed.needsShell || !command
+      ? spawn(stepConfig.run, { ...options, shell: true })
+      : spawn(command, parsed.argv.slice(1), options);
+
+    this.track(child);
+    return await this.collect(child, stepConfig.run, timeout, onOutput);
+  }
+
+  /**
+   * Pass SIGINT and SIGTERM on to running steps while there are any. The
+   * builder then exits as it would have without the listener, unless
+   * something else is listening for the signal too.
+   */
+  private track(child: ChildProcess): void {
+    if (this.running.size === 0) {
+      FORWARDED_SIGNALS.forEach(signal => process.on(signal, this.forwardSignal));
+    }
+    this.running.add(child);
+
+    child.once('close', () => {
+      this.running.delete(child);
+      if (this.running.size === 0) {
+        FORWARDED_SIGNALS.forEach(signal => process.off(signal, this.forwardSignal));
+      }
+    });
+  }
+
+  private forwardSignal = (signal: NodeJS.Signals): void => {
+    this.logger.warn(`Received ${signal}, stopping ${this.running.size} running build step(s)`);
+    for (const child of this.running) {
+      this.killTree(child, signal);
+    }
+
+    FORWARDED_SIGNALS.forEach(forwarded => process.off(forwarded, this.forwardSignal));
+    if (process.listenerCount(signal) === 0) {
+      process.kill(process.pid, signal);
+    }
+  };
+
+  private collect(
+    child: ChildProcess,
+    command: string,
+    timeout: number,
+    onOutput?: StepOutputListener
+  ): Promise<BuildStepResult> {
+    const startTime = performance.now();
+    const stdout = new OutputBuffer();
+    const stderr = new OutputBuffer();
+    let timedOut = false;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    // Decoded as a stream, so characters split across chunks come out whole
+    child.stdout?.setEncoding('utf8');
+    child.stderr?.setEncoding('utf8');
+    child.stdout?.on('data', (chunk: string) => {
+      stdout.append(chunk);
+      onOutput?.('stdout', chunk);
+    });
+    child.stderr?.on('data', (chunk: string) => {
+      stderr.append(chunk);
+      onOutput?.('stderr', chunk);
+    });
+
+    const timeoutTimer = setTimeout(() => {
+      timedOut = true;
+      this.logger.warn(`Build step timed out after ${timeout / 1000}s, killing: ${command}`);
+      this.killTree(child, 'SIGTERM');
+      killTimer = setTimeout(() => this.killTree(child, 'SIGKILL'), KILL_GRACE_PERIOD);
+    }, timeout);
+
+    return new Promise<BuildStepResult>(resolve => {
+      let settled = false;
+      const finish = (exitCode: number | null, signal: string | null, error?: Error) => {
+        // A failed spawn emits both 'error' and 'close'
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeoutTimer);
+        clearTimeout(killTimer);
+
+        if (error) {
+          stderr.append(error.message);
+          onOutput?.('stderr', `${error.message}\n`);
+        }
+
+        resolve({
+          command,
+          exitCode,
+          ...(signal ? { signal } : {}),
+          timedOut,
+          success: !error && !timedOut && exitCode === 0,
+          duration: performance.now() - startTime,
+          stdout: stdout.toString(),
+          stderr: stderr.toString(),
+          truncated: stdout.truncated || stderr.truncated
+        });
+      };
+
+      child.on('close', (code: number | null, signal: NodeJS.Signals | null) => finish(code, signal));
+      child.on('error', (error: Error) => finish(null, null, error));
+    });
+  }
+
+  private killTree(child: ChildProcess, signal: NodeJS.Signals): void {
+    // The group may outlive its leader, so signal it even after the leader exited
+    if (child.pid === undefined) {
+      return;
+    }
+
+    try {
+      if (process.platform === 'win32') {
+        spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore' });
+      } else {
+        process.kill(-child.pid, signal);
+      }
+    } catch (error) {
+      this.logger.debug(`Failed to send ${signal} to process group ${child.pid}`, error);
+    }
+  }
+}
+
+/**
+ * Keeps the tail of a stream, which is where build errors usually are.
+ */
+class OutputBuffer {
+  private content = '';
+  truncated = false;
+
+  append(chunk: string): void {
+    this.content += chunk;
+    if (this.content.length > MAX_OUTPUT_LENGTH * 2) {
+      this.content = this.content.slice(-MAX_OUTPUT_LENGTH);
+      this.truncated = true;
+    }
+  }
+
+  toString(): string {
+    if (this.content.length > MAX_OUTPUT_LENGTH) {
+      this.truncated = true;
+      return this.content.slice(-MAX_OUTPUT_LENGTH);
+    }
+    return this.content;
+  }
+}
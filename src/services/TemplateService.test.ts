@@ -0,0 +1,114 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { TemplateService } from './TemplateService.js';
+import { Logger, LogLevel } from '../utils/Logger.js';
+import { BuildConfig } from '../types/Build.js';
+import { BuildStatus } from '../types/Game.js';
+
+describe('TemplateService', () => {
+  let tempDir: string;
+  let config: BuildConfig;
+  const logger = new Logger({ level: LogLevel.SILENT });
+
+  async function renderIndex(): Promise<string> {
+    await new TemplateService(config, logger).generateIndex([], new Map());
+    return await fs.readFile(path.join(config.outputDir, 'index.html'), 'utf-8');
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'attogram-template-'));
+    config = {
+      outputDir: path.join(tempDir, 'out'),
+      templatesDir: path.join(tempDir, 'templates'),
+      customDir: path.join(tempDir, 'custom'),
+      logoDir: path.join(tempDir, 'logo'),
+      concurrency: 1,
+      enableCache: false,
+      skipExisting: false
+    };
+    await fs.outputJSON(path.join(config.customDir, 'site.json'), { title: 'Arcade', headline: 'Play' });
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  describe('theme selection', () => {
+    it('renders the default theme for sites without legacy templates', async () => {
+      await fs.outputFile(path.join(config.templatesDir, 'header.html'), '<h1>{{TITLE}} header</h1>');
+
+      const html = await renderIndex();
+
+      expect(html).toContain('<link rel="stylesheet" href="_theme/style.css">');
+      expect(html).not.toContain('Arcade header');
+    });
+
+    it('switches to the legacy theme when a legacy template is customized', async () => {
+      await fs.outputFile(path.join(config.customDir, 'header.html'), '<h1>{{TITLE}} header</h1>');
+      await fs.outputFile(path.join(config.templatesDir, 'footer.html'), '<footer>{{HEADLINE}}</footer>');
+
+      const html = await renderIndex();
+
+      expect(html.startsWith('<h1>Arcade header</h1>')).toBe(true);
+      expect(html.trim().endsWith('<footer>Play</footer>')).toBe(true);
+    });
+
+    it('follows legacyTemplates in site.json over the files present', async () => {
+      await fs.outputFile(path.join(config.customDir, 'header.html'), '<h1>{{TITLE}} header</h1>');
+      await fs.outputJSON(path.join(config.customDir, 'site.json'), { title: 'Arcade', headline: 'Play', legacyTemplates: false });
+      expect(await renderIndex()).not.toContain('Arcade header');
+
+      await fs.outputJSON(path.join(config.customDir, 'site.json'), { title: 'Arcade', headline: 'Play', legacyTemplates: true });
+      await fs.remove(path.join(config.customDir, 'header.html'));
+      await fs.outputFile(path.join(config.templatesDir, 'header.html'), '<h1>{{TITLE}} header</h1>');
+      expect(await renderIndex()).toContain('<h1>Arcade header</h1>');
+    });
+
+    it('lets --theme win over the legacy templates', async () => {
+      await fs.outputFile(path.join(config.customDir, 'header.html'), '<h1>{{TITLE}} header</h1>');
+      config.theme = 'default';
+
+      expect(await renderIndex()).not.toContain('Arcade header');
+    });
+  });
+
+  describe('locales', () => {
+    const setLocales = (locales: string[]) =>
+      fs.outputJSON(path.join(config.customDir, 'site.json'), { title: 'Arcade', headline: 'Play', locales });
+
+    it('removes the pages of locales dropped from the site', async () => {
+      await setLocales(['en', 'fr', 'de']);
+      await renderIndex();
+      expect(await fs.pathExists(path.join(config.outputDir, 'fr', 'index.html'))).toBe(true);
+
+      await setLocales(['de', 'en']);
+      await renderIndex();
+
+      expect(await fs.pathExists(path.join(config.outputDir, 'fr'))).toBe(false);
+      expect(await fs.pathExists(path.join(config.outputDir, 'de'))).toBe(false);
+      expect(await fs.pathExists(path.join(config.outputDir, 'en', 'index.html'))).toBe(true);
+    });
+
+    it('leaves a game that took over the directory of a dropped locale', async () => {
+      await setLocales(['en', 'go']);
+      await renderIndex();
+      await setLocales(['en']);
+      await fs.outputFile(path.join(config.outputDir, 'go', 'game.html'), '<canvas></canvas>');
+
+      await new TemplateService(config, logger).generateIndex([{
+        game: {
+          id: 'go',
+          config: { name: 'Go', tag: 'board game', license: 'MIT', git: 'https://github.com/attogram/go.git', mobile: true, desktop: true },
+          buildStatus: BuildStatus.SUCCESS
+        },
+        success: true,
+        duration: 0,
+        errors: [],
+        warnings: []
+      }], new Map());
+
+      expect(await fs.pathExists(path.join(config.outputDir, 'go', 'game.html'))).toBe(true);
+    });
+  });
+});
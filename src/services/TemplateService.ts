@@ -1,208 +1,555 @@
 import fs from 'fs-extra';
 import path from 'path';
-import Handlebars from 'handlebars';
 import { Logger } from '../utils/Logger.js';
-import { GameBuildResult } from '../types/Game.js';
+import { BuildStatus, GameBuildResult } from '../types/Game.js';
 import { BuildConfig } from '../types/Build.js';
+import { CategoryDefinition, LegacyTemplates, SiteConfig } from '../types/Site.js';
+import { GameLogo } from './LogoService.js';
+import { DEFAULT_SITE, SiteService } from './SiteService.js';
+import { DEFAULT_THEME, ThemeService } from './ThemeService.js';
+import { EMBED_CSS, EmbedGame, renderWidgetScript } from '../utils/EmbedWidget.js';
+import { VERSION } from '../utils/Version.js';
+import { buildSearchIndex, listLicenses } from '../utils/SearchIndex.js';
+import { DEFAULT_LOCALE, getLanguageName, getLocaleDir, Messages, SiteLocale } from '../utils/I18n.js';
+
+export interface TemplateGame extends GameBuildResult {
+  logo?: GameLogo;
+}
+
+export interface TemplateCategory extends CategoryDefinition {
+  games: TemplateGame[];
+  /** Link to the category page, relative to the pages of the locale */
+  url: string;
+}
 
 export interface TemplateData {
+  site: SiteConfig;
   title: string;
   headline: string;
-  games: GameBuildResult[];
+  games: TemplateGame[];
+  /** Every category of the taxonomy, each with its games */
+  categories: TemplateCategory[];
+  /** Games filed under no category */
+  uncategorized: TemplateGame[];
   buildTime: string;
   version: string;
+  /** Whether pages register the service worker */
+  pwa: boolean;
+  /** Public URL of the site ending in `/`, when configured */
+  siteUrl?: string;
+  /** The language of the pages, for the `t` helper */
+  locale: SiteLocale;
+  /** Set when rendering with the legacy theme */
+  legacy?: LegacyTemplates;
+}
+
+export interface PageData extends TemplateData {
+  /** Relative path from the page back to the site root, where the games and assets are */
+  root: string;
+  /** Relative path from the page to the pages of its locale, `root` for the first locale */
+  localeRoot: string;
+  /** The page in every language of the site, empty for single language sites */
+  alternates: PageAlternate[];
+  /** Link preview tags, on the index and game pages */
+  social?: SocialMeta;
 }
 
+export interface PageAlternate {
+  code: string;
+  name: string;
+  /** Relative link from the page */
+  href: string;
+  /** Absolute link, when the site has a base URL */
+  url?: string;
+  current: boolean;
+}
+
+/**
+ * OpenGraph and Twitter card values. Crawlers need absolute URLs, so the
+ * URL and image are only set with a base URL.
+ */
+export interface SocialMeta {
+  title: string;
+  description: string;
+  url?: string;
+  image?: string;
+  imageAlt?: string;
+}
+
+export interface IndexPageData extends PageData {
+  /** Licenses for the search form's license filter */
+  licenses: string[];
+}
+
+export interface CategoryPageData extends PageData {
+  category: TemplateCategory;
+}
+
+export interface GamePageData extends PageData {
+  game: TemplateGame;
+  /** The categories the game is filed under */
+  gameCategories: TemplateCategory[];
+  playUrl: string;
+  repositoryUrl: string;
+  commit?: string;
+  commitUrl?: string;
+  lastBuilt?: string;
+}
+
+/** A language to generate, with where its pages go */
+interface LocaleContext {
+  locale: SiteLocale;
+  /** The messages translated for this locale itself, without fallbacks */
+  ownMessages: Messages;
+  /** Directory of the pages below the output directory, `''` or `fr/` */
+  dir: string;
+  /** Whether it is the site's first locale, whose text is the original */
+  primary: boolean;
+}
+
+const GAME_PAGES_DIR = '_games';
+const CATEGORY_PAGES_DIR = '_categories';
+const SEARCH_INDEX_FILE = 'search-index.json';
+// The locale directories of the last generated site, to find dropped ones
+const LOCALES_FILE = path.join('.attogram', 'locales.json');
+const LEGACY_THEME = 'legacy';
+// Hosts whose web UI shows a commit at `<repository>/commit/<sha>`
+const COMMIT_URL_HOSTS = new Set(['github.com', 'gitlab.com', 'codeberg.org']);
+
+/**
+ * Renders the site with the theme, once per locale of the site: the first
+ * locale at the site root and every other one in `<locale>/`, all linking
+ * to the same games and assets.
+ */
 export class TemplateService {
   private logger: Logger;
   private config: BuildConfig;
+  private siteService: SiteService;
+  private themeService: Promise<ThemeService> | undefined;
+  private locales: Promise<LocaleContext[]> | undefined;
+  private parentLogger: Logger;
 
-  constructor(config: BuildConfig, logger: Logger) {
+  constructor(config: BuildConfig, logger: Logger, siteService = new SiteService(config, logger)) {
     this.config = config;
+    this.parentLogger = logger;
     this.logger = logger.createChildLogger('TemplateService');
+    this.siteService = siteService;
   }
 
-  async generateIndex(games: GameBuildResult[]): Promise<void> {
+  /**
+   * Start over with the theme and the locales, so the next pages use the
+   * templates, partials, helpers and messages as they are on disk now.
+   */
+  reset(): void {
+    this.themeService = undefined;
+    this.locales = undefined;
+  }
+
+  async generateIndex(games: GameBuildResult[], logos: Map<string, GameLogo>): Promise<void> {
     this.logger.info('Generating index.html');
 
     try {
-      // Load template
-      const template = await this.loadTemplate('index.hbs');
-      
-      // Prepare template data
-      const templateData: TemplateData = {
-        title: 'Attogram Games Website',
-        headline: 'Open Source Web Games Collection',
-        games: games.filter(g => g.success), // Only include successful builds
-        buildTime: new Date().toISOString(),
-        version: '2.0.0'
-      };
+      const templateGames = this.prepareGames(games, logos);
+      const themeService = await this.getThemeService();
+      const locales = await this.getLocales();
 
-      // Compile and render template
-      const compiledTemplate = Handlebars.compile(template);
-      const html = compiledTemplate(templateData);
+      for (const context of locales) {
+        const base = await this.createTemplateData(templateGames, context);
+        const searchIndex = buildSearchIndex(base.games, base.site.categories ?? []);
+        const templateData: IndexPageData = {
+          ...this.createPageData(base, context, locales, 'index.html'),
+          social: {
+            title: base.title,
+            description: base.site.description ?? base.headline.replace(/<[^>]*>/g, ''),
+            ...(base.siteUrl ? { url: this.getPageUrl(base.siteUrl, context, 'index.html') } : {})
+          },
+          licenses: listLicenses(searchIndex)
+        };
 
-      // Write index.html
-      const outputPath = path.join(this.config.outputDir, 'index.html');
-      await fs.writeFile(outputPath, html, 'utf-8');
+        // Render the theme's index template, with the search index beside it
+        const html = await themeService.render('index', templateData);
+        const outputDir = path.join(this.config.outputDir, context.dir);
+        await fs.ensureDir(outputDir);
+        await fs.writeFile(path.join(outputDir, 'index.html'), html, 'utf-8');
+        await fs.writeJSON(path.join(outputDir, SEARCH_INDEX_FILE), searchIndex);
+      }
+      await themeService.copyAssets();
+      await this.removeStaleLocales(locales, games.map(game => game.game.id));
+      await this.reportMissingTranslations(templateGames, locales);
 
-      this.logger.success(`Generated index.html with ${templateData.games.length} games`);
+      const localeNote = locales.length > 1 ? ` in ${locales.length} languages` : '';
+      this.logger.success(`Generated index.html with ${templateGames.length} games${localeNote}`);
     } catch (error) {
       this.logger.error('Failed to generate index.html', error);
       throw error;
     }
   }
 
-  private async loadTemplate(templateName: string): Promise<string> {
-    // Try custom template first
-    const customPath = path.join(this.config.customDir, templateName);
-    if (await fs.pathExists(customPath)) {
-      this.logger.debug(`Using custom template: ${templateName}`);
-      return await fs.readFile(customPath, 'utf-8');
+  /**
+   * Write the pages around the index: a detail page per game in `_games/`,
+   * a page per category in `_categories/`, plus `about.html`, `404.html`
+   * and `maintenance.html`. Every page type has its own theme template
+   * (`game.hbs`, `category.hbs`, `about.hbs`, `404.hbs`, `maintenance.hbs`)
+   * that `custom/` can override.
+   */
+  async generatePages(games: GameBuildResult[], logos: Map<string, GameLogo>): Promise<void> {
+    this.logger.info('Generating site pages');
+
+    const templateGames = this.prepareGames(games, logos);
+    const themeService = await this.getThemeService();
+    const locales = await this.getLocales();
+    // Error pages are served from any path, so they link from the site root
+    const errorRoot = (await this.getBaseUrl()) ?? '/';
+    let categoryCount = 0;
+
+    for (const context of locales) {
+      const base = await this.createTemplateData(templateGames, context);
+      const outputDir = path.join(this.config.outputDir, context.dir);
+      categoryCount = base.categories.length;
+
+      const pagesDir = path.join(outputDir, GAME_PAGES_DIR);
+      await fs.ensureDir(pagesDir);
+
+      for (const game of base.games) {
+        const pagePath = `${GAME_PAGES_DIR}/${game.game.id}.html`;
+        const page = this.createPageData(base, context, locales, pagePath);
+        const data: GamePageData = {
+          ...page,
+          game,
+          gameCategories: base.categories.filter(category => category.games.includes(game)),
+          social: this.describeGameSocial(game, base.siteUrl, base.siteUrl && this.getPageUrl(base.siteUrl, context, pagePath)),
+          ...this.describeGame(game, page.root)
+        };
+        await fs.writeFile(path.join(outputDir, pagePath), await themeService.render('game', data), 'utf-8');
+      }
+      await this.removeStalePages(pagesDir, base.games.map(game => game.game.id));
+
+      const categoriesDir = path.join(outputDir, CATEGORY_PAGES_DIR);
+      await fs.ensureDir(categoriesDir);
+
+      for (const category of base.categories) {
+        const data: CategoryPageData = { ...this.createPageData(base, context, locales, category.url), category };
+        await fs.writeFile(path.join(outputDir, category.url), await themeService.render('category', data), 'utf-8');
+      }
+      await this.removeStalePages(categoriesDir, base.categories.map(category => category.id));
+
+      const pages: [string, string | undefined][] = [
+        ['about', undefined],
+        ['404', errorRoot],
+        ['maintenance', errorRoot]
+      ];
+
+      for (const [templateName, root] of pages) {
+        const html = await themeService.render(templateName, this.createPageData(base, context, locales, `${templateName}.html`, root));
+        await fs.writeFile(path.join(outputDir, `${templateName}.html`), html, 'utf-8');
+      }
     }
 
-    // Try modern templates
-    const modernPath = path.join(this.config.templatesDir, 'modern', templateName);
-    if (await fs.pathExists(modernPath)) {
-      this.logger.debug(`Using modern template: ${templateName}`);
-      return await fs.readFile(modernPath, 'utf-8');
+    const localeNote = locales.length > 1 ? ` in each of ${locales.length} languages` : '';
+    this.logger.success(`Generated ${templateGames.length} game pages, ${categoryCount} category pages, about.html, 404.html and maintenance.html${localeNote}`);
+  }
+
+  /**
+   * Drop the directories of locales that were generated last time and are
+   * no longer on the site. A game that has since taken over the name is
+   * left alone.
+   */
+  private async removeStaleLocales(locales: LocaleContext[], gameIds: string[]): Promise<void> {
+    const recordPath = path.join(this.config.outputDir, LOCALES_FILE);
+    const current = locales.map(context => context.dir).filter(dir => dir !== '');
+    const previous: string[] = await fs.readJSON(recordPath).catch(() => []);
+
+    for (const dir of previous) {
+      const name = dir.replace(/\/$/, '');
+      // Only ever a directory directly in the output directory
+      if (/^[\w-]+$/.test(name) && !current.includes(dir) && !gameIds.includes(name)) {
+        this.logger.info(`Removing ${dir}, its locale is no longer on the site`);
+        await fs.remove(path.join(this.config.outputDir, dir));
+      }
     }
 
-    // Fallback to default template
-    this.logger.debug(`Using default template: ${templateName}`);
-    return this.getDefaultTemplate();
-  }
-
-  private getDefaultTemplate(): string {
-    return `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>{{title}}</title>
-    <style>
-        * {
-            margin: 0;
-            padding: 0;
-            box-sizing: border-box;
-        }
-        
-        body {
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-            min-height: 100vh;
-            color: #333;
-        }
-        
-        .header {
-            text-align: center;
-            padding: 2rem;
-            color: white;
-        }
-        
-        .header h1 {
-            font-size: 2.5rem;
-            margin-bottom: 0.5rem;
-            text-shadow: 2px 2px 4px rgba(0,0,0,0.3);
-        }
-        
-        .header p {
-            font-size: 1.2rem;
-            opacity: 0.9;
-        }
-        
-        .games-grid {
-            display: grid;
-            grid-template-columns: repeat(auto-fill, minmax(280px, 1fr));
-            gap: 2rem;
-            padding: 2rem;
-            max-width: 1200px;
-            margin: 0 auto;
-        }
-        
-        .game-card {
-            background: white;
-            border-radius: 12px;
-            box-shadow: 0 8px 25px rgba(0,0,0,0.1);
-            overflow: hidden;
-            transition: transform 0.3s ease, box-shadow 0.3s ease;
-            text-decoration: none;
-            color: inherit;
-        }
-        
-        .game-card:hover {
-            transform: translateY(-5px);
-            box-shadow: 0 15px 35px rgba(0,0,0,0.2);
-        }
-        
-        .game-content {
-            padding: 1.5rem;
-        }
-        
-        .game-name {
-            font-size: 1.3rem;
-            font-weight: 600;
-            margin-bottom: 0.5rem;
-            color: #2c3e50;
+    await fs.outputJSON(recordPath, current);
+  }
+
+  /**
+   * Drop the pages of games and categories that are gone from the site.
+   */
+  private async removeStalePages(dir: string, ids: string[]): Promise<void> {
+    const current = new Set(ids.map(id => `${id}.html`));
+    for (const file of await fs.readdir(dir)) {
+      if (file.endsWith('.html') && !current.has(file)) {
+        await fs.remove(path.join(dir, file));
+      }
+    }
+  }
+
+  /**
+   * Links and build details shown on a game's page.
+   */
+  private describeGame(game: TemplateGame, root: string): Omit<GamePageData, keyof PageData | 'game' | 'gameCategories'> {
+    const repositoryUrl = game.game.config.git.replace(/\.git$/, '');
+    const commit = game.game.lastCommit;
+    let commitUrl: string | undefined;
+    try {
+      if (commit && COMMIT_URL_HOSTS.has(new URL(repositoryUrl).hostname)) {
+        commitUrl = `${repositoryUrl}/commit/${commit}`;
+      }
+    } catch {
+      // Not a URL we can link into
+    }
+
+    return {
+      playUrl: `${root}${encodeURIComponent(game.game.id)}/${game.game.config.index ?? ''}`,
+      repositoryUrl,
+      ...(commit ? { commit } : {}),
+      ...(commitUrl ? { commitUrl } : {}),
+      ...(game.game.lastBuilt ? { lastBuilt: new Date(game.game.lastBuilt).toISOString() } : {})
+    };
+  }
+
+  /**
+   * Link preview of a game: its tag line, and its logo at the largest size.
+   */
+  private describeGameSocial(game: TemplateGame, siteUrl: string | undefined, pageUrl: string | undefined): SocialMeta {
+    const { config } = game.game;
+    const social: SocialMeta = { title: config.name, description: config.tag };
+    if (siteUrl && pageUrl) {
+      social.url = pageUrl;
+      const largestLogo = game.logo?.srcset.split(', ').pop()?.split(' ')[0] || game.logo?.src;
+      if (largestLogo) {
+        social.image = new URL(largestLogo, siteUrl).href;
+        social.imageAlt = config.name;
+      }
+    }
+    return social;
+  }
+
+  /**
+   * Write the embeddable menu: `games.html`, a standalone fragment with
+   * scoped CSS, and `games-widget.js` for a single `<script>` tag.
+   * Returns the paths written.
+   */
+  async generateEmbed(games: GameBuildResult[], logos: Map<string, GameLogo>): Promise<string[]> {
+    this.logger.info('Generating embeddable games menu');
+
+    const embedGames: EmbedGame[] = this.prepareGames(games, logos).map(result => ({
+      id: result.game.id,
+      name: result.game.config.name,
+      tag: result.game.config.tag,
+      url: `${encodeURIComponent(result.game.id)}/${result.game.config.index ?? ''}`,
+      mobile: result.game.config.mobile,
+      desktop: result.game.config.desktop,
+      ...(result.logo ? {
+        logo: {
+          src: result.logo.src,
+          srcset: result.logo.srcset,
+          webpSrcset: result.logo.webpSrcset,
+          width: result.logo.width,
+          height: result.logo.height
         }
-        
-        .game-tag {
-            color: #7f8c8d;
-            font-size: 0.9rem;
-            margin-bottom: 1rem;
+      } : {})
+    }));
+
+    const themeService = await this.getThemeService();
+    const html = await themeService.render('embed', {
+      css: EMBED_CSS,
+      baseUrl: (await this.getBaseUrl()) ?? '',
+      games: embedGames
+    });
+
+    const htmlPath = path.join(this.config.outputDir, 'games.html');
+    const widgetPath = path.join(this.config.outputDir, 'games-widget.js');
+    await fs.writeFile(htmlPath, html, 'utf-8');
+    await fs.writeFile(widgetPath, renderWidgetScript(embedGames), 'utf-8');
+
+    this.logger.success(`Generated games.html and games-widget.js with ${embedGames.length} games`);
+    return [htmlPath, widgetPath];
+  }
+
+  /**
+   * Data shared by every page of a locale, from the site settings.
+   */
+  private async createTemplateData(templateGames: TemplateGame[], context: LocaleContext): Promise<TemplateData> {
+    const { locale } = context;
+    const site = await this.siteService.localize(locale.code, locale.messages);
+    const siteUrl = await this.siteService.getSiteUrl();
+    const games = templateGames.map(game => this.localizeGame(game, locale.code));
+    const buildTime = new Date();
+    const themeService = await this.getThemeService();
+    const legacy = (await themeService.load()).name === LEGACY_THEME
+      ? await this.siteService.renderLegacyTemplates(buildTime)
+      : undefined;
+
+    const categories = (site.categories ?? []).map(category => ({
+      ...category,
+      games: games.filter(game => game.game.config.categories?.includes(category.id)),
+      url: `${CATEGORY_PAGES_DIR}/${category.id}.html`
+    }));
+
+    return {
+      site,
+      title: site.title,
+      headline: site.headline,
+      games,
+      categories,
+      uncategorized: games.filter(game => !categories.some(category => category.games.includes(game))),
+      buildTime: buildTime.toISOString(),
+      version: VERSION,
+      pwa: this.config.pwa === true,
+      ...(siteUrl ? { siteUrl } : {}),
+      locale,
+      ...(legacy ? { legacy } : {})
+    };
+  }
+
+  /**
+   * Data for one page, at `pagePath` below the pages of its locale. Error
+   * pages pass the root they link from.
+   */
+  private createPageData(base: TemplateData, context: LocaleContext, locales: LocaleContext[], pagePath: string, root?: string): PageData {
+    const pageRoot = root ?? '../'.repeat((context.dir + pagePath).split('/').length - 1);
+
+    return {
+      ...base,
+      root: pageRoot,
+      localeRoot: pageRoot + context.dir,
+      alternates: locales.length > 1
+        ? locales.map(other => ({
+          code: other.locale.code,
+          name: other.locale.name,
+          href: pageRoot + other.dir + pagePath,
+          ...(base.siteUrl ? { url: this.getPageUrl(base.siteUrl, other, pagePath) } : {}),
+          current: other === context
+        }))
+        : []
+    };
+  }
+
+  /**
+   * Absolute URL of a page, without a trailing `index.html`.
+   */
+  private getPageUrl(siteUrl: string, context: LocaleContext, pagePath: string): string {
+    return siteUrl + context.dir + pagePath.replace(/(^|\/)index\.html$/, '$1');
+  }
+
+  /**
+   * A game with its name and tag in a locale, where translated.
+   */
+  private localizeGame(game: TemplateGame, locale: string): TemplateGame {
+    const translation = game.game.config.translations?.[locale];
+    if (!translation) {
+      return game;
+    }
+    const config = { ...game.game.config, name: translation.name ?? game.game.config.name, tag: translation.tag ?? game.game.config.tag };
+    return { ...game, game: { ...game.game, config } };
+  }
+
+  /**
+   * The site's locales with their messages: the locale's own, over the
+   * first locale's, over English. Every theme ships English.
+   */
+  private getLocales(): Promise<LocaleContext[]> {
+    this.locales ??= (async () => {
+      const themeService = await this.getThemeService();
+      const codes = await this.siteService.getLocales();
+      const fallback = {
+        ...await themeService.loadMessages(DEFAULT_LOCALE),
+        ...(codes[0] !== DEFAULT_LOCALE ? await themeService.loadMessages(codes[0] as string) : {})
+      };
+
+      const contexts: LocaleContext[] = [];
+      for (const [index, code] of codes.entries()) {
+        const ownMessages = await themeService.loadMessages(code);
+        const messages = { ...fallback, ...ownMessages };
+        // Not from the fallbacks, which would name every locale English
+        const name = ownMessages['language.name'];
+        contexts.push({
+          locale: { code, name: typeof name === 'string' ? name : getLanguageName(code), messages },
+          ownMessages,
+          dir: getLocaleDir(codes, code),
+          primary: index === 0
+        });
+      }
+      return contexts;
+    })();
+    return this.locales;
+  }
+
+  /**
+   * Warn about text still in the original language: theme messages, and in
+   * the other locales the site's title, headline and description, category
+   * names and game tags. Game names are left alone, they are mostly names.
+   */
+  private async reportMissingTranslations(games: TemplateGame[], locales: LocaleContext[]): Promise<void> {
+    const site = await this.siteService.load();
+    // The first locale falls back to English, so it has every message
+    const messageKeys = Object.keys(locales[0]?.locale.messages ?? {});
+
+    for (const context of locales) {
+      const { code } = context.locale;
+      const missing: string[] = [];
+
+      if (code !== DEFAULT_LOCALE) {
+        const messages = messageKeys.filter(key => !(key in context.ownMessages));
+        if (messages.length > 0) {
+          missing.push(`messages ${messages.join(', ')}`);
         }
-        
-        .game-platforms {
-            display: flex;
-            gap: 0.5rem;
-            font-size: 1.2rem;
+      }
+
+      if (!context.primary) {
+        // The default title and headline are theme messages
+        const translation = site.translations?.[code] ?? {};
+        const siteFields = (['title', 'headline', 'description'] as const)
+          .filter(field => site[field] && site[field] !== DEFAULT_SITE[field] && !translation[field]);
+        if (siteFields.length > 0) {
+          missing.push(`site ${siteFields.join(', ')}`);
         }
-        
-        .footer {
-            text-align: center;
-            padding: 2rem;
-            color: white;
-            opacity: 0.8;
+
+        const categories = (site.categories ?? []).filter(category => !translation.categories?.[category.id]?.name);
+        if (categories.length > 0) {
+          missing.push(`categories ${categories.map(category => category.id).join(', ')}`);
         }
-        
-        @media (max-width: 768px) {
-            .games-grid {
-                grid-template-columns: 1fr;
-                padding: 1rem;
-            }
-            
-            .header h1 {
-                font-size: 2rem;
-            }
+
+        const tags = games.filter(game => game.game.config.tag && !game.game.config.translations?.[code]?.tag);
+        if (tags.length > 0) {
+          missing.push(`game tags ${tags.map(game => game.game.id).join(', ')}`);
         }
-    </style>
-</head>
-<body>
-    <header class="header">
-        <h1>{{headline}}</h1>
-        <p>{{games.length}} Open Source Web Games</p>
-    </header>
-
-    <main class="games-grid">
-        {{#each games}}
-        <a href="{{game.id}}/{{#if game.config.index}}{{game.config.index}}{{/if}}" class="game-card">
-            <div class="game-content">
-                <div class="game-name">{{game.config.name}}</div>
-                <div class="game-tag">{{game.config.tag}}</div>
-                <div class="game-platforms">
-                    {{#if game.config.desktop}}🖥️{{/if}}
-                    {{#if game.config.mobile}}📱{{/if}}
-                </div>
-            </div>
-        </a>
-        {{/each}}
-    </main>
-
-    <footer class="footer">
-        <p>Built with Attogram Games {{version}} • Generated {{buildTime}}</p>
-        <p>All games are open source and free to play</p>
-    </footer>
-</body>
-</html>`;
+      }
+
+      if (missing.length > 0) {
+        this.logger.warn(`Missing ${code} translations: ${missing.join('; ')}`);
+      }
+    }
+  }
+
+  /**
+   * The `--theme` given, else the legacy theme for sites that still
+   * customize the PHP builder's templates, else the default theme.
+   */
+  private getThemeService(): Promise<ThemeService> {
+    this.themeService ??= (async () => {
+      const theme = this.config.theme ?? (await this.siteService.usesLegacyTemplates() ? LEGACY_THEME : DEFAULT_THEME);
+      return new ThemeService({ ...this.config, theme }, this.parentLogger);
+    })();
+    return this.themeService;
+  }
+
+  /**
+   * `--base-url` wins over the site's base URL.
+   */
+  private async getBaseUrl(): Promise<string | undefined> {
+    return this.config.baseUrl ?? (await this.siteService.load()).baseUrl;
+  }
+
+  /**
+   * Successful builds only, each with its logo.
+   */
+  private prepareGames(games: GameBuildResult[], logos: Map<string, GameLogo>): TemplateGame[] {
+    const builtGames = games.filter(g => g.game.buildStatus === BuildStatus.SUCCESS);
+
+    return builtGames.map(game => {
+      const logo = logos.get(game.game.id);
+      return logo ? { ...game, logo } : game;
+    });
   }
 }
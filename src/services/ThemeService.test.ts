@@ -0,0 +1,140 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ThemeService } from './ThemeService.js';
+import { Logger, LogLevel } from '../utils/Logger.js';
+import { BuildConfig } from '../types/Build.js';
+
+describe('ThemeService', () => {
+  let tempDir: string;
+  let customDir: string;
+  let themesDir: string;
+  const logger = new Logger({ level: LogLevel.SILENT });
+
+  function createThemeService(theme?: string): ThemeService {
+    const config: BuildConfig = {
+      outputDir: path.join(tempDir, 'out'),
+      templatesDir: path.join(tempDir, 'templates'),
+      customDir,
+      logoDir: path.join(tempDir, 'logo'),
+      concurrency: 1,
+      enableCache: false,
+      skipExisting: false,
+      ...(theme ? { theme } : {})
+    };
+    return new ThemeService(config, logger);
+  }
+
+  async function writeTheme(name: string, manifest: object, files: { [file: string]: string } = {}): Promise<string> {
+    const dir = path.join(themesDir, name);
+    await fs.outputJSON(path.join(dir, 'theme.json'), { name, ...manifest });
+    for (const [file, content] of Object.entries(files)) {
+      await fs.outputFile(path.join(dir, file), content);
+    }
+    return dir;
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'attogram-theme-'));
+    customDir = path.join(tempDir, 'custom');
+    themesDir = path.join(customDir, 'themes');
+
+    await writeTheme('base', { extends: false }, {
+      'templates/page.hbs': '{{> banner}}: {{title}}',
+      'templates/about.hbs': 'About {{title}}',
+      'partials/banner.hbs': 'Base',
+      'locales/en.json': JSON.stringify({ nav: { home: 'Home', about: 'About' } }),
+      'assets/style.css': 'base',
+      'assets/logo.svg': 'base'
+    });
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  describe('theme chain', () => {
+    it('uses the default theme when none is given', async () => {
+      const theme = await createThemeService().load();
+
+      expect(theme.name).toBe('default');
+      expect(theme.dirs).toHaveLength(1);
+      expect(theme.dirs[0]).toMatch(/themes[/\\]default$/);
+    });
+
+    it('layers themes over the ones they extend', async () => {
+      const child = await writeTheme('child', { extends: 'base' }, {
+        'templates/page.hbs': '{{> banner}} - {{title}}',
+        'partials/banner.hbs': 'Child',
+        'locales/en.json': JSON.stringify({ nav: { about: 'Info' } }),
+        'assets/style.css': 'child'
+      });
+      const themes = createThemeService('child');
+
+      expect((await themes.load()).dirs).toEqual([path.join(themesDir, 'base'), child]);
+      expect(await themes.render('page', { title: 'Chess' })).toBe('Child - Chess');
+      expect(await themes.render('about', { title: 'Chess' })).toBe('About Chess');
+      expect(await themes.loadMessages('en')).toEqual({ 'nav.home': 'Home', 'nav.about': 'Info' });
+
+      await themes.copyAssets();
+      expect(await fs.readFile(path.join(tempDir, 'out', '_theme', 'style.css'), 'utf-8')).toBe('child');
+      expect(await fs.readFile(path.join(tempDir, 'out', '_theme', 'logo.svg'), 'utf-8')).toBe('base');
+    });
+
+    it('extends the default theme unless told otherwise', async () => {
+      const neon = await writeTheme('neon', {}, { 'templates/page.hbs': 'Neon' });
+
+      expect((await createThemeService('neon').load()).dirs.slice(1)).toEqual([neon]);
+      expect((await createThemeService(neon).load()).name).toBe(neon);
+    });
+
+    it('lets a custom default theme extend the built-in one', async () => {
+      const custom = await writeTheme('default', {}, { 'templates/page.hbs': 'Custom default' });
+      const theme = await createThemeService().load();
+
+      expect(theme.dirs).toHaveLength(2);
+      expect(theme.dirs[0]).toMatch(/themes[/\\]default$/);
+      expect(theme.dirs[1]).toBe(custom);
+    });
+
+    it('refuses themes that extend themselves', async () => {
+      await writeTheme('ping', { extends: 'pong' });
+      await writeTheme('pong', { extends: 'ping' });
+
+      await expect(createThemeService('ping').load()).rejects.toThrow("Theme 'ping' extends itself through 'ping'");
+    });
+
+    it('names where it looked for a missing theme', async () => {
+      await expect(createThemeService('missing').load())
+        .rejects.toThrow(`Theme 'missing' not found (looked in ${path.join(themesDir, 'missing')}`);
+    });
+  });
+
+  describe('custom overrides', () => {
+    it('prefers custom templates and partials over the theme', async () => {
+      await fs.outputFile(path.join(customDir, 'about.hbs'), 'Our {{title}}');
+      await fs.outputFile(path.join(customDir, 'partials', 'banner.hbs'), 'Custom');
+      const themes = createThemeService('base');
+
+      expect(await themes.render('about', { title: 'Chess' })).toBe('Our Chess');
+      expect(await themes.render('page', { title: 'Chess' })).toBe('Custom: Chess');
+    });
+
+    it('falls back to the legacy templates/modern directory before the theme', async () => {
+      await fs.outputFile(path.join(tempDir, 'templates', 'modern', 'about.hbs'), 'Modern {{title}}');
+
+      expect(await createThemeService('base').render('about', { title: 'Chess' })).toBe('Modern Chess');
+    });
+
+    it('overrides single messages from custom/locales', async () => {
+      await fs.outputJSON(path.join(customDir, 'locales', 'en.json'), { nav: { home: 'Start' } });
+
+      expect(await createThemeService('base').loadMessages('en')).toEqual({ 'nav.home': 'Start', 'nav.about': 'About' });
+      expect(await createThemeService('base').loadMessages('fr')).toEqual({});
+    });
+
+    it('reports templates no layer has', async () => {
+      await expect(createThemeService('base').render('game', {})).rejects.toThrow("Theme 'base' has no game.hbs template");
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import Handlebars from 'handlebars';
+import { Logger } from '../utils/Logger.js';
+import { BUILTIN_HELPERS } from '../utils/TemplateHelpers.js';
+import { flattenMessages, Messages } from '../utils/I18n.js';
+import { BuildConfig } from '../types/Build.js';
+
+export const DEFAULT_THEME = 'default';
+const BUILTIN_THEMES_DIR = fileURLToPath(new URL('../../themes', import.meta.url));
+const THEME_FILE = 'theme.json';
+const ASSETS_OUTPUT_DIR = '_theme';
+const HELPER_EXTENSIONS = ['.js', '.mjs', '.cjs'];
+
+export interface ThemeManifest {
+  name: string;
+  description?: string;
+  /** Theme this one builds on, `default` unless set to `false` */
+  extends?: string | false;
+}
+
+export interface Theme {
+  name: string;
+  /** Theme directories, the base theme first */
+  dirs: string[];
+}
+
+/**
+ * Loads a theme and renders its templates. A theme is a directory with a
+ * `theme.json` and any of `templates/`, `layouts/`, `partials/`,
+ * `helpers/`, `locales/` and `assets/`. Themes extend the default theme unless they
+ * say otherwise, so a theme only needs the files it changes.
+ *
+ * Page templates are looked up in `custom/` first, then the legacy
+ * `templates/modern/`, then the theme chain from the most specific theme
+ * down. Layouts are registered as `layouts/<name>` partials, so a page
+ * wraps itself with `{{#> layouts/main}}...{{/layouts/main}}`.
+ */
+export class ThemeService {
+  private logger: Logger;
+  private config: BuildConfig;
+  private handlebars = Handlebars.create();
+  private templates = new Map<string, HandlebarsTemplateDelegate>();
+  private theme: Promise<Theme> | undefined;
+
+  constructor(config: BuildConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger.createChildLogger('ThemeService');
+  }
+
+  async render(templateName: string, data: unknown): Promise<string> {
+    const template = await this.getTemplate(templateName);
+    return template(data);
+  }
+
+  /**
+   * Copy the assets of the whole theme chain to `_theme/` in the output
+   * directory, more specific themes overwriting their base.
+   */
+  async copyAssets(): Promise<void> {
+    const theme = await this.load();
+    const target = path.join(this.config.outputDir, ASSETS_OUTPUT_DIR);
+    await fs.remove(target);
+
+    for (const dir of theme.dirs) {
+      const assetsDir = path.join(dir, 'assets');
+      if (await fs.pathExists(assetsDir)) {
+        await fs.copy(assetsDir, target);
+      }
+    }
+  }
+
+  /**
+   * A locale's messages from `locales/<locale>.json` of the theme chain,
+   * then `custom/locales/`, later files overriding single keys. Empty for
+   * a locale nobody translated.
+   */
+  async loadMessages(locale: string): Promise<Messages> {
+    const theme = await this.load();
+    const messages: Messages = {};
+
+    for (const dir of [...theme.dirs, this.config.customDir]) {
+      const localePath = path.join(dir, 'locales', `${locale}.json`);
+      if (!(await fs.pathExists(localePath))) {
+        continue;
+      }
+      try {
+        Object.assign(messages, flattenMessages(await fs.readJSON(localePath)));
+      } catch (error) {
+        throw new Error(`Invalid ${localePath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return messages;
+  }
+
+  load(): Promise<Theme> {
+    this.theme ??= this.loadTheme(this.config.theme ?? DEFAULT_THEME);
+    return this.theme;
+  }
+
+  private async loadTheme(name: string): Promise<Theme> {
+    const dirs: string[] = [];
+    let current: string | false = name;
+
+    while (current) {
+      const dir = await this.findThemeDir(current);
+      if (dirs.includes(dir)) {
+        throw new Error(`Theme '${name}' extends itself through '${current}'`);
+      }
+      dirs.unshift(dir);
+
+      const manifest = await this.readManifest(dir);
+      current = manifest.extends ?? this.getBaseTheme(current, dir);
+    }
+
+    Object.entries(BUILTIN_HELPERS).forEach(([helperName, helper]) => this.handlebars.registerHelper(helperName, helper));
+
+    // Base theme first, so more specific themes and custom/ override it
+    const layers = [...dirs, this.config.customDir];
+    for (const dir of layers) {
+      await this.registerPartials(path.join(dir, 'layouts'), 'layouts/');
+      await this.registerPartials(path.join(dir, 'partials'), '');
+      await this.registerHelpers(path.join(dir, 'helpers'));
+    }
+
+    this.logger.debug(`Using theme ${name} (${dirs.join(' <- ')})`);
+    return { name, dirs };
+  }
+
+  /**
+   * A theme by path, else by name in `custom/themes/`, then the built-in themes.
+   */
+  private async findThemeDir(name: string): Promise<string> {
+    const candidates = name.includes('/') || name.includes(path.sep)
+      ? [path.resolve(name)]
+      : [path.join(this.config.customDir, 'themes', name), path.join(BUILTIN_THEMES_DIR, name)];
+
+    for (const candidate of candidates) {
+      if (await fs.pathExists(path.join(candidate, THEME_FILE))) {
+        return candidate;
+      }
+    }
+
+    throw new Error(`Theme '${name}' not found (looked in ${candidates.join(', ')})`);
+  }
+
+  /**
+   * Themes extend the default theme, and a `custom/themes/default`
+   * extends the built-in one it replaces.
+   */
+  private getBaseTheme(name: string, dir: string): string | false {
+    const builtinDefault = path.join(BUILTIN_THEMES_DIR, DEFAULT_THEME);
+    if (dir === builtinDefault) {
+      return false;
+    }
+    return name === DEFAULT_THEME ? builtinDefault : DEFAULT_THEME;
+  }
+
+  private async readManifest(dir: string): Promise<ThemeManifest> {
+    const manifestPath = path.join(dir, THEME_FILE);
+    try {
+      return await fs.readJSON(manifestPath);
+    } catch (error) {
+      throw new Error(`Invalid ${manifestPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async getTemplate(templateName: string): Promise<HandlebarsTemplateDelegate> {
+    const cached = this.templates.get(templateName);
+    if (cached) {
+      return cached;
+    }
+
+    const theme = await this.load();
+    const fileName = `${templateName}.hbs`;
+    const candidates = [
+      path.join(this.config.customDir, fileName),
+      path.join(this.config.templatesDir, 'modern', fileName),
+      ...[...theme.dirs].reverse().map(dir => path.join(dir, 'templates', fileName))
+    ];
+
+    for (const candidate of candidates) {
+      if (await fs.pathExists(candidate)) {
+        this.logger.debug(`Using template ${candidate}`);
+        const template = this.handlebars.compile(await fs.readFile(candidate, 'utf-8'));
+        this.templates.set(templateName, template);
+        return template;
+      }
+    }
+
+    throw new Error(`Theme '${theme.name}' has no ${fileName} template`);
+  }
+
+  /**
+   * Register every `.hbs` below a directory, named by its path without the
+   * extension: `partials/cards/game.hbs` becomes `cards/game`.
+   */
+  private async registerPartials(dir: string, prefix: string): Promise<void> {
+    for (const file of await this.listFiles(dir, ['.hbs'])) {
+      const name = prefix + path.relative(dir, file).slice(0, -'.hbs'.length).split(path.sep).join('/');
+      this.handlebars.registerPartial(name, await fs.readFile(file, 'utf-8'));
+    }
+  }
+
+  /**
+   * Helper modules export helper functions by name, or a default object
+   * of them. Imports are keyed by modification time, so an edited helper
+   * is loaded again rather than taken from the module cache.
+   */
+  private async registerHelpers(dir: string): Promise<void> {
+    for (const file of await this.listFiles(dir, HELPER_EXTENSIONS)) {
+      const url = pathToFileURL(file);
+      url.searchParams.set('mtime', String((await fs.stat(file)).mtimeMs));
+      const module = await import(url.href);
+      const exported = { ...(typeof module.default === 'object' ? module.default : {}), ...module };
+
+      for (const [name, helper] of Object.entries(exported)) {
+        if (name !== 'default' && typeof helper === 'function') {
+          this.handlebars.registerHelper(name, helper as Handlebars.HelperDelegate);
+        }
+      }
+    }
+  }
+
+  private async listFiles(dir: string, extensions: string[]): Promise<string[]> {
+    if (!(await fs.pathExists(dir))) {
+      return [];
+    }
+
+    const files: string[] = [];
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...await this.listFiles(entryPath, extensions));
+      } else if (extensions.includes(path.extname(entry.name))) {
+        files.push(entryPath);
+      }
+    }
+
+    return files.sort();
+  }
+}
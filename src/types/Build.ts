@@ -5,7 +5,32 @@ export interface BuildConfig {
   logoDir: string;
   concurrency: number;
   enableCache: boolean;
+  cacheDir?: string;
+  /** Leave games already on disk as they are rather than building them again */
   skipExisting: boolean;
+  /** With `skipExisting`, still build again games whose first build failed */
+  retryFailed?: boolean;
+  frozenLockfile?: boolean;
+  /** Default build step timeout in seconds */
+  stepTimeout?: number;
+  /** Mirror of remote assets laid out as `<host>/<path>`; enables vendoring */
+  mirrorDir?: string;
+  /** Fail games that still reference remote resources after vendoring */
+  offlineStrict?: boolean;
+  /** Logo widths in pixels, the smallest is the display size */
+  logoSizes?: number[];
+  /** Also write the embeddable `games.html` and `games-widget.js` */
+  embed?: boolean;
+  /** Public URL of the site, also the prefix for links in embedded menus */
+  baseUrl?: string;
+  /** Also write a web app manifest and a service worker for offline play */
+  pwa?: boolean;
+  /** Theme name or directory, `default` when unset */
+  theme?: string;
+  /** Build report formats to write after the games are built */
+  reports?: ReportFormat[];
+  /** Where build reports go, `.attogram/reports` in the output directory when unset */
+  reportDir?: string;
 }
 
 export interface BuildResult {
@@ -22,6 +47,18 @@ export interface BuildResult {
   warnings: string[];
 }
 
+export interface UpdateResult {
+  success: boolean;
+  totalGames: number;
+  updatedCount: number;
+  unchangedCount: number;
+  failedCount: number;
+  totalDuration: number;
+  startTime: Date;
+  endTime: Date;
+  games: GameUpdateResult[];
+}
+
 export interface BuildError {
   message: string;
   gameId?: string;
@@ -30,6 +67,20 @@ export interface BuildError {
   timestamp: Date;
 }
 
+/**
+ * What a build reports as it goes, game by game. `game:done` carries the
+ * game's result, `build:done` the whole build's once the site is written.
+ */
+export type BuildEvent =
+  | { type: 'game:queued'; gameId: string }
+  | { type: 'phase:started'; gameId: string; phase: BuildPhase }
+  | { type: 'phase:finished'; gameId: string; phase: BuildPhase; success: boolean; duration: number }
+  | { type: 'step:output'; gameId: string; command: string; stream: 'stdout' | 'stderr'; chunk: string }
+  | { type: 'game:done'; gameId: string; result: GameBuildResult }
+  | { type: 'build:done'; result: BuildResult };
+
+export type BuildEventType = BuildEvent['type'];
+
 export enum BuildPhase {
   SETUP = 'setup',
   CLONE = 'clone',
@@ -52,4 +103,27 @@ export interface BuildMetrics {
   };
 }
 
-import type { GameBuildResult } from './Game.js';
+export interface BuildManifest {
+  version: number;
+  updatedAt: string;
+  games: { [gameId: string]: GameManifestEntry };
+}
+
+export interface GameManifestEntry {
+  buildStatus: BuildStatus;
+  commit?: string;
+  lastBuilt?: string;
+  buildTime?: number;
+  /** When the game was first built successfully */
+  firstBuilt?: string;
+  /** When the game last moved to another commit */
+  lastUpdated?: string;
+  /** Bytes on disk after the last good build */
+  size?: number;
+  /** Left out when the last build or update had none */
+  errors?: string[];
+  warnings?: string[];
+}
+
+import type { GameBuildResult, GameUpdateResult, BuildStatus } from './Game.js';
+import type { ReportFormat } from './Report.js';
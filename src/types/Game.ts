@@ -4,16 +4,80 @@ export interface GameConfig {
   license: string;
   git: string;
   branch?: string;
+  /** Pin the game to an exact commit */
+  commit?: string;
+  /** Pin the game to a git tag (`tag` is the game's tagline) */
+  gitTag?: string;
   index?: string;
   mobile: boolean;
   desktop: boolean;
-  build?: string[];
+  build?: BuildStep[];
+  require?: string[];
+  /** Category ids from the site's taxonomy */
+  categories?: string[];
+  /** Extra search terms */
+  keywords?: string[];
+  /** Name and tag in the site's other languages, by locale */
+  translations?: { [locale: string]: GameTranslation };
+  /** Set to false to leave a large game out of the offline cache */
+  offline?: boolean;
+  /** Tracker scrubbing applied after the build */
+  scrub?: ScrubConfig;
+  notes?: string[];
+}
+
+export interface GameTranslation {
+  name?: string;
+  tag?: string;
+}
+
+export type BuildStep = string | BuildStepConfig;
+
+export interface BuildStepConfig {
+  run: string;
+  /** Working directory relative to the game directory */
+  cwd?: string;
+  env?: { [name: string]: string };
+  /** Seconds before the step and all its child processes are killed */
+  timeout?: number;
+  /** Keep building when this step fails */
+  allowFailure?: boolean;
+}
+
+export interface ScrubConfig {
+  /** Apply the built-in tracker rules, on by default */
+  builtin?: boolean;
+  rules?: ScrubRule[];
+  /** Tracker domains the game may keep referencing */
+  allowDomains?: string[];
+}
+
+export interface ScrubRule {
+  /** Regular expression, matched against the whole file */
+  pattern: string;
+  replacement?: string;
+  /** File extensions to rewrite, `.html`, `.htm` and `.js` by default */
+  files?: string[];
+  description?: string;
 }
 
 export interface GameCollection {
   [gameId: string]: GameConfig;
 }
 
+export interface GamesLock {
+  version: number;
+  games: { [gameId: string]: GameLockEntry };
+}
+
+export interface GameLockEntry {
+  git: string;
+  /** Branch or tag the commit was resolved from, if any */
+  ref?: string;
+  commit: string;
+  lockedAt: string;
+}
+
 export interface GameMetadata {
   id: string;
   config: GameConfig;
@@ -22,6 +86,9 @@ export interface GameMetadata {
   buildTime?: number;
   lastCommit?: string;
   buildErrors?: string[];
+  buildWarnings?: string[];
+  /** Bytes on disk */
+  size?: number;
 }
 
 export enum BuildStatus {
@@ -34,8 +101,71 @@ export enum BuildStatus {
 
 export interface GameBuildResult {
   game: GameMetadata;
+  /** False only when the build failed; skipped games count as successful */
   success: boolean;
   duration: number;
   errors: string[];
   warnings: string[];
+  fromCache?: boolean;
+  skipReason?: string;
+  /** Where the build stopped: the phase that failed, else the last one reached */
+  phase?: BuildPhase;
+  steps?: BuildStepResult[];
+  /** Full output of the build steps, which `steps` only keeps the tail of */
+  logFile?: string;
+  scrub?: ScrubResult;
+  externalResources?: ExternalResourceAudit;
 }
+
+export interface BuildStepResult {
+  command: string;
+  exitCode: number | null;
+  signal?: string;
+  timedOut: boolean;
+  success: boolean;
+  duration: number;
+  /** Tail of the step's output, see `truncated` */
+  stdout: string;
+  stderr: string;
+  truncated: boolean;
+}
+
+export interface ScrubResult {
+  removals: ScrubRemoval[];
+  /** Tracker domains still referenced once scrubbing is done, with the files referencing them */
+  trackerDomains: { [domain: string]: string[] };
+}
+
+export interface ScrubRemoval {
+  /** Path relative to the game directory */
+  file: string;
+  rule: string;
+  count: number;
+}
+
+export interface ExternalResourceAudit {
+  references: ExternalReference[];
+  /** URLs the game still loads from elsewhere */
+  unresolved: string[];
+}
+
+export interface ExternalReference {
+  url: string;
+  /** Files referencing the URL, relative to the game directory */
+  files: string[];
+  /** Local copy the references now point at, relative to the game directory */
+  vendoredPath?: string;
+}
+
+export enum UpdateStatus {
+  UNCHANGED = 'unchanged',
+  UPDATED = 'updated',
+  FAILED = 'failed'
+}
+
+export interface GameUpdateResult extends GameBuildResult {
+  updateStatus: UpdateStatus;
+  previousCommit?: string;
+}
+
+import type { BuildPhase } from './Build.js';
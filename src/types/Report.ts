@@ -0,0 +1,81 @@
+export type ReportFormat = 'json' | 'junit' | 'html';
+
+export interface BuildReport {
+  version: number;
+  /** The builder that wrote the report, e.g. `attogram-games 2.0.0` */
+  generator: string;
+  success: boolean;
+  startTime: string;
+  endTime: string;
+  /** Milliseconds */
+  duration: number;
+  summary: BuildReportSummary;
+  games: GameReport[];
+  /** Errors not tied to one game */
+  errors: string[];
+  warnings: string[];
+}
+
+export interface BuildReportSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  cached: number;
+}
+
+export interface GameReport {
+  id: string;
+  name: string;
+  status: BuildStatus;
+  /** The phase that failed, else the last one reached */
+  phase?: BuildPhase;
+  /** Milliseconds */
+  duration: number;
+  commit?: string;
+  fromCache: boolean;
+  skipReason?: string;
+  errors: string[];
+  warnings: string[];
+  steps: GameReportStep[];
+  /** Full output of the build steps */
+  logFile?: string;
+}
+
+export interface GameReportStep {
+  command: string;
+  success: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  /** Milliseconds */
+  duration: number;
+}
+
+export interface ReportDiff {
+  /** Games that built before and do not now, or new games that fail */
+  regressions: GameStatusChange[];
+  /** Games that failed or were skipped before and build now */
+  fixed: GameStatusChange[];
+  /** Games that took much longer, builds restored from cache aside */
+  slower: GameDurationChange[];
+  added: string[];
+  removed: string[];
+}
+
+export interface GameStatusChange {
+  id: string;
+  /** Unset for games new in the later build */
+  from?: BuildStatus;
+  to: BuildStatus;
+  phase?: BuildPhase;
+  errors: string[];
+}
+
+export interface GameDurationChange {
+  id: string;
+  from: number;
+  to: number;
+}
+
+import type { BuildStatus } from './Game.js';
+import type { BuildPhase } from './Build.js';
@@ -0,0 +1,63 @@
+export interface SiteConfig {
+  /** Page title, text only */
+  title: string;
+  /** Page headline, text or HTML */
+  headline: string;
+  description?: string;
+  /** Public URL of the site, used for absolute links */
+  baseUrl?: string;
+  footerLinks?: FooterLink[];
+  /** The categories games can be filed under */
+  categories?: CategoryDefinition[];
+  /** Show the index as one section per category */
+  groupByCategory?: boolean;
+  /**
+   * Languages to generate the site in. The first is served from the site
+   * root, every other one from `/<locale>/`. English only when unset.
+   */
+  locales?: string[];
+  /** Site text in the other languages, by locale */
+  translations?: { [locale: string]: SiteTranslation };
+  /** Web app manifest settings, used when building with `--pwa` */
+  pwa?: PwaSettings;
+  /** Free-form values for themes, available as `{{site.custom.<name>}}` */
+  custom?: { [name: string]: unknown };
+  /**
+   * Render the PHP builder's `header.html`, `footer.html` and `css.css`.
+   * When unset this is on if any of them is customized in `custom/`.
+   */
+  legacyTemplates?: boolean;
+}
+
+export interface CategoryDefinition {
+  /** Used in game configs and page URLs */
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export interface SiteTranslation {
+  title?: string;
+  headline?: string;
+  description?: string;
+  /** Category names and descriptions, by category id */
+  categories?: { [id: string]: Partial<Pick<CategoryDefinition, 'name' | 'description'>> };
+}
+
+export interface PwaSettings {
+  /** Name under the home screen icon, the title when unset */
+  shortName?: string;
+  themeColor?: string;
+  backgroundColor?: string;
+}
+
+export interface FooterLink {
+  label: string;
+  url: string;
+}
+
+/** The PHP builder's page header and footer, with their tokens replaced */
+export interface LegacyTemplates {
+  header: string;
+  footer: string;
+}
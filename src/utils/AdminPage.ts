@@ -0,0 +1,329 @@
+/**
+ * The admin dashboard page the dev server shows at `/_admin`: every game
+ * with its last build, buttons to rebuild or update games, their build
+ * logs and an editor for the games configuration. It is a single page
+ * that talks to the admin API and follows the server's build events.
+ */
+
+export const ADMIN_PATH = '/_admin';
+
+export function renderAdminPage(eventsPath: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>Attogram Games admin</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+    header { display: flex; flex-wrap: wrap; align-items: center; gap: 1rem; }
+    header h1 { margin: 0; flex: 1; }
+    nav button.active { background: #222; color: #fff; }
+    button { font: inherit; padding: 0.25rem 0.75rem; cursor: pointer; }
+    button:disabled { cursor: default; opacity: 0.5; }
+    table { border-collapse: collapse; width: 100%; margin-top: 1rem; }
+    th, td { border-bottom: 1px solid #ddd; padding: 0.5rem; text-align: left; vertical-align: top; }
+    th { background: #f4f4f4; }
+    ul { margin: 0; padding-left: 1.2rem; }
+    pre { background: #f6f8fa; padding: 1rem; overflow: auto; max-height: 60vh; }
+    textarea { width: 100%; min-height: 50vh; font-family: ui-monospace, monospace; font-size: 0.9rem; }
+    dialog { width: min(90vw, 70rem); }
+    .number { text-align: right; white-space: nowrap; }
+    .actions { white-space: nowrap; }
+    .summary span, .toolbar > * { margin-right: 1rem; }
+    .success, .ok, .added { color: #1a7f37; }
+    .failed, .bad, .errors, .removed { color: #cf222e; }
+    .skipped, .warnings, .queued, .running { color: #9a6700; }
+    .not_built, .muted, .hunk { color: #666; }
+    .message { margin: 1rem 0; }
+    [hidden] { display: none !important; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>Attogram Games admin</h1>
+    <nav>
+      <button type="button" data-tab="games" class="active">Games</button>
+      <button type="button" data-tab="config">Configuration</button>
+    </nav>
+  </header>
+  <p class="message" id="message" role="status"></p>
+
+  <section id="games">
+    <div class="toolbar">
+      <span class="summary" id="summary"></span>
+      <button type="button" data-action="rebuild">Rebuild all</button>
+      <button type="button" data-action="update">Update all</button>
+    </div>
+    <table>
+      <thead>
+        <tr><th>Game</th><th>Status</th><th>Commit</th><th>Last built</th><th>Duration</th><th>Size</th><th>Errors and warnings</th><th></th></tr>
+      </thead>
+      <tbody id="game-rows"></tbody>
+    </table>
+    <h2>Jobs</h2>
+    <table>
+      <thead>
+        <tr><th>Job</th><th>Status</th><th>Trigger</th><th>Started</th><th>Progress</th><th>Result</th></tr>
+      </thead>
+      <tbody id="job-rows"></tbody>
+    </table>
+  </section>
+
+  <section id="config" hidden>
+    <p class="muted" id="config-path"></p>
+    <textarea id="config-text" spellcheck="false"></textarea>
+    <div class="toolbar">
+      <button type="button" id="config-check">Check changes</button>
+      <button type="button" id="config-save" disabled>Save</button>
+      <button type="button" id="config-reload">Discard changes</button>
+    </div>
+    <ul class="errors" id="config-errors"></ul>
+    <pre id="config-diff" hidden></pre>
+  </section>
+
+  <dialog id="log-dialog">
+    <h2 id="log-title"></h2>
+    <pre id="log-text"></pre>
+    <form method="dialog"><button>Close</button></form>
+  </dialog>
+
+  <script>
+  (function () {
+    'use strict';
+    var EVENTS_PATH = ${JSON.stringify(eventsPath)};
+    var API = ${JSON.stringify(`${ADMIN_PATH}/api`)};
+
+    // A token in the address is kept for the session and taken out of the address
+    var params = new URLSearchParams(window.location.search);
+    if (params.has('token')) {
+      sessionStorage.setItem('attogram-admin-token', params.get('token'));
+      params.delete('token');
+      history.replaceState(null, '', window.location.pathname + (params.toString() ? '?' + params : ''));
+    }
+    var token = sessionStorage.getItem('attogram-admin-token');
+
+    var $ = function (id) { return document.getElementById(id); };
+    var configVersion = null;
+    var checkedText = null;
+
+    function escapeHtml(value) {
+      return String(value).replace(/[&<>"']/g, function (c) {
+        return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c];
+      });
+    }
+
+    function formatDuration(ms) {
+      if (ms === undefined) return '';
+      // Round to the unit shown first, so 59.96s reads 1m 0s rather than 60.0s
+      if (Math.round(ms) < 1000) return Math.round(ms) + 'ms';
+      var tenths = Math.round(ms / 100);
+      if (tenths < 600) return (tenths / 10).toFixed(1) + 's';
+      var seconds = Math.round(ms / 1000);
+      return Math.floor(seconds / 60) + 'm ' + (seconds % 60) + 's';
+    }
+
+    function formatSize(bytes) {
+      if (bytes === undefined) return '';
+      if (bytes < 1024) return bytes + ' B';
+      if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+      if (bytes < 1024 * 1024 * 1024) return (bytes / 1024 / 1024).toFixed(1) + ' MB';
+      return (bytes / 1024 / 1024 / 1024).toFixed(2) + ' GB';
+    }
+
+    function formatTime(value) {
+      return value ? new Date(value).toLocaleString() : '';
+    }
+
+    function list(items, className) {
+      return items && items.length
+        ? '<ul class="' + className + '">' + items.map(function (item) { return '<li>' + escapeHtml(item) + '</li>'; }).join('') + '</ul>'
+        : '';
+    }
+
+    function showMessage(text, className) {
+      $('message').textContent = text;
+      $('message').className = 'message ' + (className || '');
+    }
+
+    function api(method, path, body) {
+      var headers = { Accept: 'application/json' };
+      if (token) headers.Authorization = 'Bearer ' + token;
+      if (body !== undefined) headers['Content-Type'] = 'application/json';
+      return fetch(API + path, {
+        method: method,
+        headers: headers,
+        body: body === undefined ? undefined : JSON.stringify(body)
+      }).then(function (response) {
+        var type = response.headers.get('Content-Type') || '';
+        var read = type.indexOf('application/json') === 0 ? response.json() : response.text();
+        return read.then(function (data) {
+          if (!response.ok && response.status !== 422) {
+            throw new Error((data && data.error) || response.statusText);
+          }
+          return data;
+        });
+      });
+    }
+
+    function renderGames(games) {
+      var counts = {};
+      games.forEach(function (game) { counts[game.buildStatus] = (counts[game.buildStatus] || 0) + 1; });
+      $('summary').innerHTML = '<span>' + games.length + ' games</span>' + Object.keys(counts).map(function (status) {
+        return '<span class="' + escapeHtml(status) + '">' + counts[status] + ' ' + escapeHtml(status.replace('_', ' ')) + '</span>';
+      }).join('');
+
+      $('game-rows').innerHTML = games.map(function (game) {
+        var id = escapeHtml(game.id);
+        var busy = game.job ? ' <small class="' + escapeHtml(game.job.status) + '">' + escapeHtml(game.job.action + ' ' + game.job.status) + '</small>' : '';
+        return '<tr>' +
+          '<td><strong>' + escapeHtml(game.config.name) + '</strong><br><code>' + id + '</code></td>' +
+          '<td class="' + escapeHtml(game.buildStatus) + '">' + escapeHtml(game.buildStatus.replace('_', ' ')) + busy + '</td>' +
+          '<td><code>' + escapeHtml((game.lastCommit || '').slice(0, 7)) + '</code></td>' +
+          '<td>' + escapeHtml(formatTime(game.lastBuilt)) + '</td>' +
+          '<td class="number">' + formatDuration(game.buildTime) + '</td>' +
+          '<td class="number">' + formatSize(game.size) + '</td>' +
+          '<td>' + list(game.buildErrors, 'errors') + list(game.buildWarnings, 'warnings') + '</td>' +
+          '<td class="actions">' +
+            '<button type="button" data-action="rebuild" data-game="' + id + '">Rebuild</button> ' +
+            '<button type="button" data-action="update" data-game="' + id + '">Update</button> ' +
+            '<button type="button" data-log="' + id + '"' + (game.hasLog ? '' : ' disabled') + '>Log</button>' +
+          '</td></tr>';
+      }).join('');
+    }
+
+    function renderJobs(jobs) {
+      $('job-rows').innerHTML = jobs.slice(0, 10).map(function (job) {
+        var result = job.error || (job.result ? job.result.successCount + ' ok, ' + job.result.failedCount + ' failed in ' + formatDuration(job.result.totalDuration) : '');
+        return '<tr>' +
+          '<td>' + escapeHtml(job.action + ' ' + (job.gameIds ? job.gameIds.join(', ') : 'all games')) + '</td>' +
+          '<td class="' + escapeHtml(job.status) + '">' + escapeHtml(job.status) + '</td>' +
+          '<td>' + escapeHtml(job.trigger) + '</td>' +
+          '<td>' + escapeHtml(formatTime(job.startedAt || job.createdAt)) + '</td>' +
+          '<td>' + (job.progress.total ? job.progress.finished + '/' + job.progress.total : '') + '</td>' +
+          '<td>' + escapeHtml(result) + '</td></tr>';
+      }).join('') || '<tr><td colspan="6" class="muted">No jobs yet</td></tr>';
+    }
+
+    function refresh() {
+      return api('GET', '/games').then(function (data) {
+        renderGames(data.games);
+        renderJobs(data.jobs);
+      }).catch(function (error) {
+        showMessage('Could not load games: ' + error.message, 'bad');
+      });
+    }
+
+    var refreshTimer = null;
+    function refreshSoon() {
+      clearTimeout(refreshTimer);
+      refreshTimer = setTimeout(refresh, 300);
+    }
+
+    function runJob(action, gameId) {
+      var path = gameId ? '/games/' + encodeURIComponent(gameId) + '/' + action : '/' + action;
+      api('POST', path, {}).then(function (job) {
+        showMessage('Queued ' + action + ' of ' + (gameId || 'all games'));
+        refresh();
+        return job;
+      }).catch(function (error) {
+        showMessage('Could not queue ' + action + ': ' + error.message, 'bad');
+      });
+    }
+
+    function showLog(gameId) {
+      api('GET', '/games/' + encodeURIComponent(gameId) + '/log').then(function (text) {
+        $('log-title').textContent = 'Build log of ' + gameId;
+        $('log-text').textContent = text;
+        $('log-dialog').showModal();
+      }).catch(function (error) {
+        showMessage('Could not load the log: ' + error.message, 'bad');
+      });
+    }
+
+    function loadConfig() {
+      return api('GET', '/config').then(function (data) {
+        configVersion = data.version;
+        checkedText = null;
+        $('config-path').textContent = data.path;
+        $('config-text').value = data.content;
+        $('config-errors').innerHTML = '';
+        $('config-diff').hidden = true;
+        $('config-save').disabled = true;
+      }).catch(function (error) {
+        showMessage('Could not load the configuration: ' + error.message, 'bad');
+      });
+    }
+
+    function showValidation(result) {
+      $('config-errors').innerHTML = result.errors.map(function (issue) {
+        return '<li><code>' + escapeHtml(issue.path) + '</code> ' + escapeHtml(issue.message) + '</li>';
+      }).join('');
+    }
+
+    function checkConfig() {
+      var text = $('config-text').value;
+      api('POST', '/config/check', { content: text }).then(function (result) {
+        showValidation(result);
+        $('config-diff').hidden = !result.diff;
+        $('config-diff').innerHTML = result.diff.split('\\n').map(function (line) {
+          var className = line.indexOf('@@') === 0 ? 'hunk' : line[0] === '+' ? 'added' : line[0] === '-' ? 'removed' : '';
+          return '<span class="' + className + '">' + escapeHtml(line) + '</span>';
+        }).join('\\n');
+        checkedText = result.valid && result.diff ? text : null;
+        $('config-save').disabled = checkedText === null;
+        showMessage(!result.valid ? 'The configuration has errors' : result.diff ? result.gameCount + ' games, review the changes and save' : 'No changes', result.valid ? 'ok' : 'bad');
+      }).catch(function (error) {
+        showMessage('Could not check the configuration: ' + error.message, 'bad');
+      });
+    }
+
+    function saveConfig() {
+      api('PUT', '/config', { content: checkedText, version: configVersion }).then(function (result) {
+        if (result.errors) {
+          showValidation(result);
+          showMessage('The configuration has errors', 'bad');
+          return;
+        }
+        showMessage('Saved ' + result.path, 'ok');
+        return loadConfig();
+      }).catch(function (error) {
+        showMessage('Could not save the configuration: ' + error.message, 'bad');
+      });
+    }
+
+    document.addEventListener('click', function (event) {
+      var button = event.target.closest('button');
+      if (!button) return;
+      if (button.dataset.tab) {
+        document.querySelectorAll('nav button').forEach(function (tab) { tab.classList.toggle('active', tab === button); });
+        $('games').hidden = button.dataset.tab !== 'games';
+        $('config').hidden = button.dataset.tab !== 'config';
+        if (button.dataset.tab === 'config' && configVersion === null) loadConfig();
+      } else if (button.dataset.action) {
+        runJob(button.dataset.action, button.dataset.game);
+      } else if (button.dataset.log) {
+        showLog(button.dataset.log);
+      }
+    });
+    $('config-check').addEventListener('click', checkConfig);
+    $('config-save').addEventListener('click', saveConfig);
+    $('config-reload').addEventListener('click', loadConfig);
+    $('config-text').addEventListener('input', function () {
+      $('config-save').disabled = $('config-text').value !== checkedText;
+    });
+
+    if (window.EventSource) {
+      var source = new EventSource(EVENTS_PATH);
+      ['job:queued', 'job:started', 'job:finished', 'game:done'].forEach(function (type) {
+        source.addEventListener(type, refreshSoon);
+      });
+    }
+    refresh();
+  })();
+  </script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,78 @@
+import { BuildEventEmitter, PhaseTracker } from './BuildEvents.js';
+import { Logger, LogLevel } from './Logger.js';
+import { BuildEvent, BuildPhase } from '../types/Build.js';
+
+describe('BuildEventEmitter', () => {
+  let events: BuildEventEmitter;
+
+  beforeEach(() => {
+    events = new BuildEventEmitter(new Logger({ level: LogLevel.SILENT }));
+  });
+
+  it('passes events to the listeners of their type and to every catch-all listener', () => {
+    const queued: string[] = [];
+    const all: string[] = [];
+    events.on('game:queued', event => queued.push(event.gameId));
+    events.onAny(event => all.push(event.type));
+
+    events.emit({ type: 'game:queued', gameId: 'chess' });
+    events.emit({ type: 'phase:started', gameId: 'chess', phase: BuildPhase.SETUP });
+
+    expect(queued).toEqual(['chess']);
+    expect(all).toEqual(['game:queued', 'phase:started']);
+  });
+
+  it('stops calling listeners that unsubscribed', () => {
+    const queued: string[] = [];
+    const stop = events.on('game:queued', event => queued.push(event.gameId));
+
+    events.emit({ type: 'game:queued', gameId: 'chess' });
+    stop();
+    events.emit({ type: 'game:queued', gameId: 'pool' });
+
+    expect(queued).toEqual(['chess']);
+  });
+
+  it('keeps going when a listener throws', () => {
+    const queued: string[] = [];
+    events.onAny(() => {
+      throw new Error('broken listener');
+    });
+    events.on('game:queued', () => {
+      throw new Error('broken listener');
+    });
+    events.onAny(event => queued.push(event.type));
+
+    expect(() => events.emit({ type: 'game:queued', gameId: 'chess' })).not.toThrow();
+    expect(queued).toEqual(['game:queued']);
+  });
+});
+
+describe('PhaseTracker', () => {
+  it('finishes each phase as the next one starts', () => {
+    const events = new BuildEventEmitter(new Logger({ level: LogLevel.SILENT }));
+    const seen: BuildEvent[] = [];
+    events.onAny(event => seen.push(event));
+    const phases = new PhaseTracker(events, 'chess');
+
+    expect(phases.enter(BuildPhase.SETUP)).toBe(BuildPhase.SETUP);
+    phases.enter(BuildPhase.CLONE);
+    phases.finish(false);
+    phases.finish(true);
+
+    expect(seen.map(event => event.type === 'phase:finished'
+      ? `${event.type} ${event.phase} ${event.success}`
+      : `${event.type} ${'phase' in event ? event.phase : ''}`)).toEqual([
+      'phase:started setup',
+      'phase:finished setup true',
+      'phase:started clone',
+      'phase:finished clone false'
+    ]);
+    for (const event of seen) {
+      if (event.type === 'phase:finished') {
+        expect(event.gameId).toBe('chess');
+        expect(event.duration).toBeGreaterThanOrEqual(0);
+      }
+    }
+  });
+});
@@ -0,0 +1,99 @@
+import { Logger } from './Logger.js';
+import { BuildEvent, BuildEventType, BuildPhase } from '../types/Build.js';
+
+export type BuildEventListener<T extends BuildEventType = BuildEventType> = (event: Extract<BuildEvent, { type: T }>) => void;
+
+/**
+ * Typed build progress events. Listeners run synchronously as the build
+ * goes; one that throws is logged and does not fail the build.
+ */
+export class BuildEventEmitter {
+  private logger: Logger;
+  private listeners = new Map<BuildEventType | '*', Set<BuildEventListener>>();
+
+  constructor(logger: Logger) {
+    this.logger = logger.createChildLogger('BuildEvents');
+  }
+
+  /**
+   * Listen for one type of event. Returns a function that stops listening.
+   */
+  on<T extends BuildEventType>(type: T, listener: BuildEventListener<T>): () => void {
+    return this.add(type, event => listener(event as Extract<BuildEvent, { type: T }>));
+  }
+
+  /**
+   * Listen for every event. Returns a function that stops listening.
+   */
+  onAny(listener: BuildEventListener): () => void {
+    return this.add('*', listener);
+  }
+
+  emit(event: BuildEvent): void {
+    for (const key of [event.type, '*'] as const) {
+      for (const listener of this.listeners.get(key) ?? []) {
+        try {
+          listener(event);
+        } catch (error) {
+          this.logger.warn(`Listener for ${event.type} failed`, error);
+        }
+      }
+    }
+  }
+
+  private add(key: BuildEventType | '*', listener: BuildEventListener): () => void {
+    let listeners = this.listeners.get(key);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(key, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+}
+
+/**
+ * Follows one game through the build phases, finishing each phase as the
+ * next one starts.
+ */
+export class PhaseTracker {
+  private events: BuildEventEmitter;
+  private gameId: string;
+  private current: BuildPhase | undefined;
+  private startedAt = 0;
+
+  constructor(events: BuildEventEmitter, gameId: string) {
+    this.events = events;
+    this.gameId = gameId;
+  }
+
+  /**
+   * Start a phase. Returns it, for keeping track of where a build stopped.
+   */
+  enter(phase: BuildPhase): BuildPhase {
+    this.finish(true);
+    this.current = phase;
+    this.startedAt = performance.now();
+    this.events.emit({ type: 'phase:started', gameId: this.gameId, phase });
+    return phase;
+  }
+
+  /**
+   * Finish the current phase, if one is running.
+   */
+  finish(success: boolean): void {
+    if (this.current === undefined) {
+      return;
+    }
+    this.events.emit({
+      type: 'phase:finished',
+      gameId: this.gameId,
+      phase: this.current,
+      success,
+      duration: performance.now() - this.startedAt
+    });
+    this.current = undefined;
+  }
+}
@@ -0,0 +1,70 @@
+import { formatDuration, renderHtmlReport, renderJUnitReport } from './BuildReport.js';
+import { checkWellFormed } from './Xml.js';
+import { BuildStatus } from '../types/Game.js';
+import { BuildPhase } from '../types/Build.js';
+import { BuildReport } from '../types/Report.js';
+
+const report: BuildReport = {
+  version: 1,
+  generator: 'attogram-games 2.0.0',
+  success: false,
+  startTime: '2024-01-01T00:00:00.000Z',
+  endTime: '2024-01-01T00:01:00.000Z',
+  duration: 60000,
+  summary: { total: 3, succeeded: 1, failed: 1, skipped: 1, cached: 0 },
+  games: [
+    { id: 'chess', name: 'Chess', status: BuildStatus.SUCCESS, duration: 1500, fromCache: false, errors: [], warnings: [], steps: [] },
+    {
+      id: 'pool',
+      name: 'Pool & <Snooker>',
+      status: BuildStatus.FAILED,
+      phase: BuildPhase.BUILD,
+      duration: 2000,
+      fromCache: false,
+      errors: ['npm ci exited with "1"', 'second error'],
+      warnings: ['slow'],
+      steps: [{ command: 'npm ci', success: false, exitCode: 1, timedOut: false, duration: 1900 }]
+    },
+    { id: 'go', name: 'Go', status: BuildStatus.SKIPPED, duration: 0, fromCache: false, skipReason: 'missing requirements: yarn', errors: [], warnings: [], steps: [] }
+  ],
+  errors: [],
+  warnings: ['Site warning']
+};
+
+describe('renderJUnitReport', () => {
+  it('writes a case per game with failures and skips', () => {
+    const xml = renderJUnitReport(report);
+
+    expect(checkWellFormed(xml)).toEqual([]);
+    expect(xml).toContain('<testsuite name="attogram-games" tests="3" failures="1" errors="0" skipped="1" time="60.000" timestamp="2024-01-01T00:00:00">');
+    expect(xml).toContain('<testcase name="chess" classname="games.chess" time="1.500"/>');
+    expect(xml).toContain('<failure message="npm ci exited with &quot;1&quot;" type="build">npm ci exited with &quot;1&quot;\nsecond error</failure>');
+    expect(xml).toContain('<skipped message="missing requirements: yarn"/>');
+    expect(xml).toContain('<system-out>Site warning</system-out>');
+  });
+});
+
+describe('renderHtmlReport', () => {
+  it('escapes what games report about themselves', () => {
+    const html = renderHtmlReport(report);
+
+    expect(html).toContain('<h1>Build failed</h1>');
+    expect(html).toContain('Pool &amp; &lt;Snooker&gt;');
+    expect(html).not.toContain('<Snooker>');
+  });
+});
+
+describe('formatDuration', () => {
+  it('picks a unit to suit the duration', () => {
+    expect(formatDuration(250)).toBe('250ms');
+    expect(formatDuration(1500)).toBe('1.5s');
+    expect(formatDuration(125_000)).toBe('2m 5s');
+  });
+
+  it('rounds before moving up a unit', () => {
+    expect(formatDuration(12.6)).toBe('13ms');
+    expect(formatDuration(999.6)).toBe('1.0s');
+    expect(formatDuration(59_960)).toBe('1m 0s');
+    expect(formatDuration(119_600)).toBe('2m 0s');
+  });
+});
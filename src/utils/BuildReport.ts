@@ -0,0 +1,140 @@
+import { assertWellFormed, escapeXml } from './Xml.js';
+import { BuildStatus } from '../types/Game.js';
+import { BuildReport, GameReport } from '../types/Report.js';
+
+/**
+ * JUnit XML as CI servers read it: one test suite for the build, one test
+ * case per game. Failed games carry their errors as the failure, skipped
+ * games their reason, and warnings go to the case's output.
+ */
+export function renderJUnitReport(report: BuildReport): string {
+  const { summary } = report;
+  const renderCase = (game: GameReport) => {
+    const attributes = `name="${escapeXml(game.id)}" classname="games.${escapeXml(game.id)}" time="${seconds(game.duration)}"`;
+    const body: string[] = [];
+    if (game.status === BuildStatus.FAILED) {
+      const message = game.errors[0] ?? 'Build failed';
+      body.push(`      <failure message="${escapeXml(message)}" type="${escapeXml(game.phase ?? 'build')}">${escapeXml(game.errors.join('\n'))}</failure>`);
+    } else if (game.status === BuildStatus.SKIPPED) {
+      body.push(`      <skipped message="${escapeXml(game.skipReason ?? 'Skipped')}"/>`);
+    }
+    if (game.warnings.length > 0) {
+      body.push(`      <system-out>${escapeXml(game.warnings.join('\n'))}</system-out>`);
+    }
+    return body.length > 0
+      ? [`    <testcase ${attributes}>`, ...body, '    </testcase>'].join('\n')
+      : `    <testcase ${attributes}/>`;
+  };
+
+  const suiteAttributes = [
+    'name="attogram-games"',
+    `tests="${summary.total}"`,
+    `failures="${summary.failed}"`,
+    'errors="0"',
+    `skipped="${summary.skipped}"`,
+    `time="${seconds(report.duration)}"`,
+    `timestamp="${report.startTime.slice(0, 19)}"`
+  ].join(' ');
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(report.generator)}" tests="${summary.total}" failures="${summary.failed}" time="${seconds(report.duration)}">`,
+    `  <testsuite ${suiteAttributes}>`,
+    ...report.games.map(renderCase),
+    ...(report.errors.length > 0 || report.warnings.length > 0 ? [
+      `    <system-out>${escapeXml([...report.errors, ...report.warnings].join('\n'))}</system-out>`
+    ] : []),
+    '  </testsuite>',
+    '</testsuites>',
+    ''
+  ].join('\n');
+
+  assertWellFormed('JUnit report', xml);
+  return xml;
+}
+
+/**
+ * A single HTML page with no outside assets, so it can be attached to a CI
+ * run or mailed as is.
+ */
+export function renderHtmlReport(report: BuildReport): string {
+  const { summary } = report;
+  const list = (items: string[]) => items.length > 0
+    ? `<ul>${items.map(item => `<li>${escapeXml(item)}</li>`).join('')}</ul>`
+    : '';
+  const renderSteps = (game: GameReport) => game.steps.length > 0
+    ? `<details><summary>${game.steps.length} steps</summary><ol>${game.steps.map(step =>
+      `<li class="${step.success ? 'ok' : 'bad'}"><code>${escapeXml(step.command)}</code> ${formatDuration(step.duration)}${
+        step.timedOut ? ', timed out' : step.success ? '' : `, exit ${step.exitCode ?? 'signal'}`}</li>`).join('')}</ol></details>`
+    : '';
+  const renderRow = (game: GameReport) => `
+      <tr class="${game.status}">
+        <td><strong>${escapeXml(game.name)}</strong><br><code>${escapeXml(game.id)}</code></td>
+        <td class="status">${escapeXml(game.status)}${game.fromCache ? ' (cache)' : ''}${game.skipReason ? `<br><small>${escapeXml(game.skipReason)}</small>` : ''}</td>
+        <td>${escapeXml(game.phase ?? '')}</td>
+        <td class="number">${formatDuration(game.duration)}</td>
+        <td><code>${escapeXml(game.commit?.slice(0, 12) ?? '')}</code></td>
+        <td class="errors">${list(game.errors)}${renderSteps(game)}</td>
+        <td class="warnings">${list(game.warnings)}</td>
+      </tr>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Build report ${escapeXml(report.startTime)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border-bottom: 1px solid #ddd; padding: 0.5rem; text-align: left; vertical-align: top; }
+    th { background: #f4f4f4; }
+    ul, ol { margin: 0; padding-left: 1.2rem; }
+    .number { text-align: right; white-space: nowrap; }
+    .success .status, .ok { color: #1a7f37; }
+    .failed .status, .bad, .errors { color: #cf222e; }
+    .skipped .status, .warnings { color: #9a6700; }
+    .summary span { margin-right: 1.5rem; }
+  </style>
+</head>
+<body>
+  <h1>Build ${report.success ? 'succeeded' : 'failed'}</h1>
+  <p class="summary">
+    <span>${summary.total} games</span>
+    <span class="ok">${summary.succeeded} built</span>
+    <span class="bad">${summary.failed} failed</span>
+    <span>${summary.skipped} skipped</span>
+    <span>${summary.cached} from cache</span>
+    <span>${formatDuration(report.duration)}</span>
+  </p>
+  <p><small>${escapeXml(report.startTime)} to ${escapeXml(report.endTime)}, ${escapeXml(report.generator)}</small></p>
+  ${report.errors.length > 0 ? `<h2>Errors</h2>\n  <div class="errors">${list(report.errors)}</div>` : ''}
+  ${report.warnings.length > 0 ? `<h2>Warnings</h2>\n  <div class="warnings">${list(report.warnings)}</div>` : ''}
+  <table>
+    <thead>
+      <tr><th>Game</th><th>Status</th><th>Phase</th><th>Duration</th><th>Commit</th><th>Errors</th><th>Warnings</th></tr>
+    </thead>
+    <tbody>${report.games.map(renderRow).join('')}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Rounded to the unit shown before picking the next one up, so 59.96
+ * seconds reads `1m 0s` rather than `60.0s`.
+ */
+export function formatDuration(milliseconds: number): string {
+  const wholeMilliseconds = Math.round(milliseconds);
+  if (wholeMilliseconds < 1000) return `${wholeMilliseconds}ms`;
+  const tenths = Math.round(milliseconds / 100);
+  if (tenths < 600) return `${(tenths / 10).toFixed(1)}s`;
+  const totalSeconds = Math.round(milliseconds / 1000);
+  return `${Math.floor(totalSeconds / 60)}m ${totalSeconds % 60}s`;
+}
+
+function seconds(milliseconds: number): string {
+  return (milliseconds / 1000).toFixed(3);
+}
@@ -0,0 +1,36 @@
+import { CommandParseError, parseCommand } from './CommandParser.js';
+
+describe('parseCommand', () => {
+  it('splits simple commands into an argv', () => {
+    expect(parseCommand('npm run build -- --prod')).toEqual({ env: {}, argv: ['npm', 'run', 'build', '--', '--prod'], needsShell: false });
+  });
+
+  it('handles quotes and escapes', () => {
+    expect(parseCommand(`echo 'a  b' "c \\"d\\"" e\\ f`).argv).toEqual(['echo', 'a  b', 'c "d"', 'e f']);
+    expect(parseCommand(`echo pre'fix'"ed"`).argv).toEqual(['echo', 'prefixed']);
+  });
+
+  it('takes leading assignments as environment', () => {
+    expect(parseCommand('NODE_ENV=production FLAGS="a b" npm run build')).toEqual({
+      env: { NODE_ENV: 'production', FLAGS: 'a b' },
+      argv: ['npm', 'run', 'build'],
+      needsShell: false
+    });
+    expect(parseCommand('npm run build NODE_ENV=production').argv).toEqual(['npm', 'run', 'build', 'NODE_ENV=production']);
+    expect(parseCommand(`'NODE_ENV=production' npm`).argv).toEqual(['NODE_ENV=production', 'npm']);
+  });
+
+  it('flags shell syntax', () => {
+    for (const command of ['npm ci && npm run build', 'ls | wc -l', 'echo $HOME', 'rm -rf dist/*', 'echo "$(date)"', 'cd ~']) {
+      expect(parseCommand(command).needsShell).toBe(true);
+    }
+    expect(parseCommand(`echo '$HOME' "a\\$b" \\&`).needsShell).toBe(false);
+  });
+
+  it('rejects unterminated quotes and empty commands', () => {
+    expect(() => parseCommand(`echo 'oops`)).toThrow(CommandParseError);
+    expect(() => parseCommand('echo "oops')).toThrow('Unterminated double quote: echo "oops');
+    expect(() => parseCommand('   ')).toThrow(CommandParseError);
+    expect(() => parseCommand('NODE_ENV=production')).toThrow('No command to run');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Shell-style parsing of build step strings. Simple commands are split into
+ * an argv so they can be spawned directly; anything that needs a real shell
+ * (`&&`, pipes, redirects, variable expansion, globs) is flagged so the
+ * caller can hand the whole string to `sh -c` instead.
+ */
+
+export interface ParsedCommand {
+  /** Leading `NAME=value` assignments */
+  env: { [name: string]: string };
+  argv: string[];
+  needsShell: boolean;
+}
+
+export class CommandParseError extends Error {
+  constructor(message: string, public readonly command: string) {
+    super(`${message}: ${command}`);
+    this.name = 'CommandParseError';
+  }
+}
+
+const SHELL_OPERATORS = new Set(['&', '|', ';', '<', '>', '(', ')', '`']);
+const SHELL_EXPANSIONS = new Set(['$', '*', '?', '~']);
+const ASSIGNMENT_PATTERN = /^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/s;
+
+export function parseCommand(command: string): ParsedCommand {
+  const words: string[] = [];
+  let current = '';
+  let inWord = false;
+  let needsShell = false;
+  // A word that starts with a quote is never a NAME=value assignment
+  const quotedWords = new Set<number>();
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i] as string;
+
+    if (char === '\'') {
+      const end = command.indexOf('\'', i + 1);
+      if (end === -1) {
+        throw new CommandParseError('Unterminated single quote', command);
+      }
+      if (!inWord) quotedWords.add(words.length);
+      current += command.slice(i + 1, end);
+      inWord = true;
+      i = end;
+      continue;
+    }
+
+    if (char === '"') {
+      if (!inWord) quotedWords.add(words.length);
+      let j = i + 1;
+      for (; j < command.length && command[j] !== '"'; j++) {
+        const inner = command[j] as string;
+        if (inner === '\\' && j + 1 < command.length && '"\\$`'.includes(command[j + 1] as string)) {
+          current += command[j + 1];
+          j++;
+        } else {
+          if (inner === '$' || inner === '`') needsShell = true;
+          current += inner;
+        }
+      }
+      if (j >= command.length) {
+        throw new CommandParseError('Unterminated double quote', command);
+      }
+      inWord = true;
+      i = j;
+      continue;
+    }
+
+    if (char === '\\') {
+      if (i + 1 < command.length) {
+        current += command[i + 1];
+        inWord = true;
+        i++;
+      }
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      if (inWord) {
+        words.push(current);
+        current = '';
+        inWord = false;
+      }
+      continue;
+    }
+
+    if (SHELL_OPERATORS.has(char) || SHELL_EXPANSIONS.has(char)) {
+      needsShell = true;
+    }
+
+    current += char;
+    inWord = true;
+  }
+
+  if (inWord) {
+    words.push(current);
+  }
+
+  const env: { [name: string]: string } = {};
+  let index = 0;
+  for (; index < words.length; index++) {
+    const match = quotedWords.has(index) ? null : ASSIGNMENT_PATTERN.exec(words[index] as string);
+    if (!match) break;
+    env[match[1] as string] = match[2] as string;
+  }
+
+  const argv = words.slice(index);
+  if (argv.length === 0 && !needsShell) {
+    throw new CommandParseError('No command to run', command);
+  }
+
+  return { env, argv, needsShell };
+}
@@ -0,0 +1,136 @@
+/**
+ * The embeddable games menu: scoped CSS shared by `games.html` and the
+ * drop-in `games-widget.js`, and the widget script itself. The widget
+ * carries the game list inline so it works from any origin without CORS.
+ */
+
+export interface EmbedGame {
+  id: string;
+  name: string;
+  tag: string;
+  /** Link to the game, relative to the site root */
+  url: string;
+  mobile: boolean;
+  desktop: boolean;
+  logo?: {
+    src: string;
+    srcset: string;
+    webpSrcset: string;
+    width: number;
+    height: number;
+  };
+}
+
+/**
+ * Every rule is scoped to `.attogram-games`, so the menu neither inherits
+ * from nor leaks into the page embedding it.
+ */
+export const EMBED_CSS = [
+  '.attogram-games{all:initial;display:block;font-family:sans-serif}',
+  '.attogram-games *{box-sizing:border-box}',
+  '.attogram-games-list{display:flex;flex-wrap:wrap;justify-content:center;margin:0}',
+  '.attogram-games-game{background:#fff;border:1px solid #000;color:darkblue;display:block;margin:5px;padding:10px 5px 0;text-align:center;text-decoration:none;width:118px}',
+  '.attogram-games-game:hover{background:greenyellow;color:#000}',
+  '.attogram-games-game img{border:1px solid darkgrey;display:block;height:auto;margin:0 auto;max-width:100px}',
+  '.attogram-games-name{display:block;font-size:14px}',
+  '.attogram-games-tag{display:block;font-size:12px}',
+  '.attogram-games-platform{color:grey;display:block;font-size:small;padding:2px;text-align:right}'
+].join('\n');
+
+export function renderWidgetScript(games: EmbedGame[]): string {
+  // Safe inside a script: no `</script>` and no line separators JS rejects
+  const json = (value: unknown) => JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+
+  return `/* Attogram Games widget
+ * <script src="https://example.com/games-widget.js" data-base-url="https://example.com/"
+ *   data-platform="mobile" data-max="12" data-target="#games" async></script>
+ */
+(function () {
+  'use strict';
+  var GAMES = ${json(games)};
+  var CSS = ${json(EMBED_CSS)};
+  var script = document.currentScript;
+
+  function addStyle() {
+    if (document.getElementById('attogram-games-style')) return;
+    var style = document.createElement('style');
+    style.id = 'attogram-games-style';
+    style.textContent = CSS;
+    document.head.appendChild(style);
+  }
+
+  function element(tag, className, text) {
+    var node = document.createElement(tag);
+    if (className) node.className = className;
+    if (text) node.textContent = text;
+    return node;
+  }
+
+  function render(target, options) {
+    options = options || {};
+    var baseUrl = options.baseUrl || '';
+    if (baseUrl && baseUrl.charAt(baseUrl.length - 1) !== '/') baseUrl += '/';
+    var games = GAMES.filter(function (game) {
+      return !options.platform || game[options.platform] === true;
+    });
+    if (options.max > 0) games = games.slice(0, options.max);
+
+    addStyle();
+    var container = element('div', 'attogram-games');
+    var list = element('div', 'attogram-games-list');
+    games.forEach(function (game) {
+      var link = element('a', 'attogram-games-game');
+      link.href = baseUrl + game.url;
+      if (game.logo) {
+        var img = element('img');
+        img.src = baseUrl + game.logo.src;
+        if (game.logo.srcset) {
+          img.srcset = game.logo.srcset.split(', ').map(function (candidate) { return baseUrl + candidate; }).join(', ');
+          img.sizes = game.logo.width + 'px';
+        }
+        img.width = game.logo.width;
+        img.height = game.logo.height;
+        img.alt = game.name;
+        img.loading = 'lazy';
+        link.appendChild(img);
+      }
+      link.appendChild(element('span', 'attogram-games-name', game.name));
+      link.appendChild(element('small', 'attogram-games-tag', game.tag));
+      link.appendChild(element('span', 'attogram-games-platform',
+        (game.desktop ? '\\u2328 ' : '') + (game.mobile ? '\\ud83d\\udcf1' : '')));
+      list.appendChild(link);
+    });
+    container.appendChild(list);
+    target.appendChild(container);
+    return container;
+  }
+
+  window.AttogramGames = { games: GAMES, render: render };
+
+  if (script && script.getAttribute('data-auto') !== 'false') {
+    var selector = script.getAttribute('data-target');
+    var options = {
+      baseUrl: script.getAttribute('data-base-url') || script.src.replace(/[^\\/]*$/, ''),
+      platform: script.getAttribute('data-platform') || '',
+      max: parseInt(script.getAttribute('data-max') || '0', 10)
+    };
+    var mount = function () {
+      var target = selector ? document.querySelector(selector) : null;
+      if (!target) {
+        target = document.createElement('div');
+        script.parentNode.insertBefore(target, script.nextSibling);
+      }
+      render(target, options);
+    };
+    if (document.readyState === 'loading') {
+      document.addEventListener('DOMContentLoaded', mount);
+    } else {
+      mount();
+    }
+  }
+})();
+`;
+}
@@ -0,0 +1,57 @@
+/**
+ * Finds absolute URLs that HTML, CSS and JavaScript load from other hosts.
+ * Only URLs in a quoted string, an attribute or a CSS `url()` count, so
+ * links in comments and license headers are not mistaken for resources.
+ */
+
+export type SourceKind = 'html' | 'css' | 'js';
+
+const EXTENSION_KINDS: { [extension: string]: SourceKind } = {
+  '.html': 'html',
+  '.htm': 'html',
+  '.css': 'css',
+  '.js': 'js',
+  '.mjs': 'js'
+};
+
+const URL_PATTERN = /(?<=['"`(=]|,\s*)(?:https?:)?\/\/((?:[a-z0-9-]+\.)+[a-z]{2,})(?::\d+)?(?:[/?#][^\s'"`()<>\\]*)?/gi;
+
+// XML namespaces and doctypes name a URL without ever loading it
+const IDENTIFIER_HOSTS = new Set(['www.w3.org']);
+
+export function getSourceKind(file: string): SourceKind | undefined {
+  const extension = /\.[^./\\]+$/.exec(file)?.[0]?.toLowerCase();
+  return extension ? EXTENSION_KINDS[extension] : undefined;
+}
+
+/**
+ * The external URLs in a file, exactly as written in it.
+ */
+export function findExternalUrls(content: string, kind: SourceKind): string[] {
+  let scanned = content;
+
+  if (kind === 'html') {
+    // Links and forms navigate away rather than load anything
+    scanned = scanned
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(?:a|area|form)\b[^>]*>/gi, '');
+  } else if (kind === 'css') {
+    scanned = scanned.replace(/\/\*[\s\S]*?\*\//g, '');
+  }
+
+  const urls = new Set<string>();
+  for (const match of scanned.matchAll(URL_PATTERN)) {
+    if (!IDENTIFIER_HOSTS.has((match[1] as string).toLowerCase())) {
+      urls.add(match[0]);
+    }
+  }
+
+  return [...urls];
+}
+
+/**
+ * Protocol-relative URLs are reported as https.
+ */
+export function normalizeUrl(url: string): string {
+  return url.startsWith('//') ? `https:${url}` : url;
+}
@@ -0,0 +1,53 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+const SIZE_UNITS: { [unit: string]: number } = {
+  '': 1,
+  B: 1,
+  K: 1024,
+  KB: 1024,
+  M: 1024 ** 2,
+  MB: 1024 ** 2,
+  G: 1024 ** 3,
+  GB: 1024 ** 3
+};
+
+/**
+ * Total size in bytes of all files below a directory. Symlinks are not followed.
+ */
+export async function getDirectorySize(dir: string): Promise<number> {
+  let total = 0;
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      total += await getDirectorySize(entryPath);
+    } else if (entry.isFile()) {
+      total += (await fs.stat(entryPath)).size;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Parse sizes like `500M`, `2GB` or `1048576` into bytes.
+ */
+export function parseSize(value: string): number {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([KMG]?B?)\s*$/i.exec(value);
+  const multiplier = match ? SIZE_UNITS[(match[2] as string).toUpperCase()] : undefined;
+
+  if (!match || multiplier === undefined) {
+    throw new Error(`Invalid size: ${value}`);
+  }
+
+  return Math.round(parseFloat(match[1] as string) * multiplier);
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+}
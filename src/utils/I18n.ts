@@ -0,0 +1,100 @@
+/** Locale of the messages every theme ships, and of sites that configure none */
+export const DEFAULT_LOCALE = 'en';
+
+/** BCP 47 style tags: `en`, `pt-BR`, `zh-Hant` */
+export const LOCALE_PATTERN = /^[a-z]{2,3}(?:-[A-Za-z0-9]{2,8})*$/;
+
+const PLURAL_CATEGORIES = new Set(['zero', 'one', 'two', 'few', 'many', 'other']);
+
+/** Plural forms, picked with `Intl.PluralRules` by the `count` parameter */
+export type PluralMessage = { [category: string]: string } & { other: string };
+
+export type Message = string | PluralMessage;
+
+/** Messages by dotted key, `footer.about` for `{ "footer": { "about": ... } }` */
+export interface Messages {
+  [key: string]: Message;
+}
+
+/** A language the site is generated in, as pages see it */
+export interface SiteLocale {
+  code: string;
+  /** The language's name in that language */
+  name: string;
+  /** The locale's messages, over those of the site's first locale and English */
+  messages: Messages;
+}
+
+/**
+ * Flatten a nested locale file into dotted keys. An object holding only
+ * plural categories, with at least `other`, is one plural message.
+ */
+export function flattenMessages(data: unknown, prefix = ''): Messages {
+  const messages: Messages = {};
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return messages;
+  }
+
+  for (const [name, value] of Object.entries(data)) {
+    const key = prefix + name;
+    if (typeof value === 'string') {
+      messages[key] = value;
+    } else if (isPluralMessage(value)) {
+      messages[key] = value;
+    } else {
+      Object.assign(messages, flattenMessages(value, `${key}.`));
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * The message for a key with its `{name}` placeholders filled in. Unknown
+ * placeholders are kept, unknown keys come back as the key itself.
+ */
+export function translate(messages: Messages, locale: string, key: string, params: { [name: string]: unknown } = {}): string {
+  const message = messages[key];
+  if (message === undefined) {
+    return key;
+  }
+
+  let text: string;
+  if (typeof message === 'string') {
+    text = message;
+  } else {
+    const count = Number(params.count);
+    const category = Number.isFinite(count) ? new Intl.PluralRules(locale).select(count) : 'other';
+    text = message[category] ?? message.other;
+  }
+
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] === undefined || params[name] === null ? placeholder : String(params[name]));
+}
+
+/**
+ * Where a locale's pages go below the site root: the first locale at the
+ * root itself, every other one in `<locale>/`.
+ */
+export function getLocaleDir(locales: string[], locale: string): string {
+  return locale === locales[0] ? '' : `${locale}/`;
+}
+
+/**
+ * The language's own name for itself, `français` for `fr`.
+ */
+export function getLanguageName(locale: string): string {
+  try {
+    return new Intl.DisplayNames([locale], { type: 'language' }).of(locale) ?? locale;
+  } catch {
+    return locale;
+  }
+}
+
+function isPluralMessage(value: unknown): value is PluralMessage {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const entries = Object.entries(value);
+  return 'other' in value && entries.every(([category, form]) => PLURAL_CATEGORIES.has(category) && typeof form === 'string');
+}
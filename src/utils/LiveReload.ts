@@ -0,0 +1,42 @@
+/**
+ * The live reload client the dev server adds to every page it serves. It
+ * listens to the server's build events and reloads the page once a build
+ * has written new output.
+ */
+
+export const LIVE_RELOAD_PATH = '/__livereload.js';
+export const EVENTS_PATH = '/api/events';
+
+export function renderLiveReloadClient(): string {
+  return `/* Attogram Games live reload, added by the dev server */
+(function () {
+  'use strict';
+  if (!window.EventSource) return;
+
+  var source = new EventSource(${JSON.stringify(EVENTS_PATH)});
+  source.addEventListener('job:started', function () {
+    console.info('[live reload] Rebuilding...');
+  });
+  source.addEventListener('job:finished', function (event) {
+    var job = JSON.parse(event.data);
+    if (job.status === 'failed') {
+      console.warn('[live reload] Build failed', job.error || (job.result && job.result.errors));
+    }
+  });
+  source.addEventListener('reload', function () {
+    source.close();
+    window.location.reload();
+  });
+})();
+`;
+}
+
+/**
+ * Add the live reload client to an HTML page, at the end of the body when
+ * it has one.
+ */
+export function injectLiveReload(html: string): string {
+  const tag = `<script src="${LIVE_RELOAD_PATH}"></script>`;
+  const bodyEnd = html.search(/<\/body\s*>(?![\s\S]*<\/body\s*>)/i);
+  return bodyEnd === -1 ? `${html}\n${tag}\n` : `${html.slice(0, bodyEnd)}${tag}\n${html.slice(bodyEnd)}`;
+}
@@ -0,0 +1,107 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { FileSink, JsonSink, LogEntry, Logger, LogLevel } from './Logger.js';
+
+function entry(message: string, overrides: Partial<LogEntry> = {}): LogEntry {
+  return { time: new Date('2024-01-01T00:00:00.000Z'), level: LogLevel.INFO, label: 'info', message, ...overrides };
+}
+
+describe('JsonSink', () => {
+  function capture(): { stream: PassThrough; lines: () => any[] } {
+    const stream = new PassThrough();
+    const chunks: string[] = [];
+    stream.on('data', chunk => chunks.push(chunk.toString()));
+    return { stream, lines: () => chunks.join('').trim().split('\n').map(line => JSON.parse(line)) };
+  }
+
+  it('writes one JSON object per line', () => {
+    const { stream, lines } = capture();
+    const sink = new JsonSink(stream);
+
+    sink.write(entry('Building chess'));
+    sink.write(entry('Clone failed', { level: LogLevel.ERROR, label: 'error', source: 'Builder:GitService', data: { code: 128 } }));
+
+    expect(lines()).toEqual([
+      { time: '2024-01-01T00:00:00.000Z', level: 'info', message: 'Building chess' },
+      { time: '2024-01-01T00:00:00.000Z', level: 'error', source: 'Builder:GitService', message: 'Clone failed', data: { code: 128 } }
+    ]);
+  });
+
+  it('receives entries at or above the logger level, from child loggers too', () => {
+    const { stream, lines } = capture();
+    const logger = new Logger({ level: LogLevel.INFO, sinks: [new JsonSink(stream)] });
+
+    logger.debug('Hidden');
+    logger.success('Built chess');
+    logger.createChildLogger('Builder').createChildLogger('GitService').error('Clone failed', new Error('timeout'));
+
+    const [success, error] = lines();
+    expect(lines()).toHaveLength(2);
+    expect(success).toEqual(expect.objectContaining({ level: 'success', message: 'Built chess' }));
+    expect(success).not.toHaveProperty('source');
+    expect(error).toEqual(expect.objectContaining({
+      level: 'error',
+      source: 'Builder:GitService',
+      data: expect.objectContaining({ message: 'timeout' })
+    }));
+  });
+});
+
+describe('FileSink', () => {
+  let tempDir: string;
+  let logPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'attogram-log-'));
+    logPath = path.join(tempDir, 'logs', 'build.log');
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  const messages = async (file: string) =>
+    (await fs.readFile(file, 'utf-8')).trim().split('\n').map(line => JSON.parse(line).message);
+
+  it('appends JSON lines, creating the directory', async () => {
+    const sink = new FileSink(logPath);
+    sink.write(entry('one'));
+    sink.write(entry('two'));
+
+    expect(await messages(logPath)).toEqual(['one', 'two']);
+  });
+
+  it('rotates before a file outgrows its maximum size, dropping the oldest', async () => {
+    const lineSize = Buffer.byteLength(JSON.stringify({ time: '2024-01-01T00:00:00.000Z', level: 'info', message: 'm1' }) + '\n');
+    const sink = new FileSink(logPath, { maxSize: lineSize * 2, maxFiles: 2 });
+
+    for (let index = 1; index <= 7; index++) {
+      sink.write(entry(`m${index}`));
+    }
+
+    expect(await messages(logPath)).toEqual(['m7']);
+    expect(await messages(`${logPath}.1`)).toEqual(['m5', 'm6']);
+    expect(await messages(`${logPath}.2`)).toEqual(['m3', 'm4']);
+    expect(await fs.pathExists(`${logPath}.3`)).toBe(false);
+  });
+
+  it('counts what an earlier process wrote', async () => {
+    await fs.outputFile(logPath, 'x'.repeat(100) + '\n');
+
+    new FileSink(logPath, { maxSize: 120 }).write(entry('after restart'));
+
+    expect(await messages(logPath)).toEqual(['after restart']);
+    expect(await fs.readFile(`${logPath}.1`, 'utf-8')).toBe('x'.repeat(100) + '\n');
+  });
+
+  it('starts over without keeping old files when maxFiles is 0', async () => {
+    const sink = new FileSink(logPath, { maxSize: 10, maxFiles: 0 });
+    sink.write(entry('one'));
+    sink.write(entry('two'));
+
+    expect(await messages(logPath)).toEqual(['two']);
+    expect(await fs.pathExists(`${logPath}.1`)).toBe(false);
+  });
+});
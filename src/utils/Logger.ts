@@ -1,4 +1,6 @@
 import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
 
 export enum LogLevel {
   DEBUG = 0,
@@ -11,58 +13,176 @@ export enum LogLevel {
 export interface LoggerOptions {
   level: LogLevel;
   prefix?: string;
+  /** Timestamps on the default console sink, on unless turned off */
   timestamp?: boolean;
+  /** Where entries go, the console when unset */
+  sinks?: LogSink[];
+}
+
+export interface LogEntry {
+  time: Date;
+  level: LogLevel;
+  /** `success` is logged at the info level */
+  label: 'debug' | 'info' | 'success' | 'warn' | 'error';
+  /** The logger's prefix, `Builder:BuildService` for child loggers */
+  source?: string;
+  message: string;
+  data?: any;
+}
+
+export interface LogSink {
+  write(entry: LogEntry): void;
+}
+
+export interface FileSinkOptions {
+  /** Bytes a log file may grow to before it is rotated */
+  maxSize?: number;
+  /** Rotated files to keep next to the current one */
+  maxFiles?: number;
+}
+
+const DEFAULT_MAX_LOG_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MAX_LOG_FILES = 5;
+
+const CONSOLE_STYLES: { [label in LogEntry['label']]: [(text: string) => string, (...data: any[]) => void] } = {
+  debug: [chalk.gray, console.debug],
+  info: [chalk.blue, console.info],
+  success: [chalk.green, console.info],
+  warn: [chalk.yellow, console.warn],
+  error: [chalk.red, console.error]
+};
+
+/**
+ * Coloured text for people at a terminal.
+ */
+export class ConsoleSink implements LogSink {
+  private timestamp: boolean;
+
+  constructor(options: { timestamp?: boolean } = {}) {
+    this.timestamp = options.timestamp ?? true;
+  }
+
+  write(entry: LogEntry): void {
+    const [color, print] = CONSOLE_STYLES[entry.label];
+    const timestamp = this.timestamp ? `[${entry.time.toISOString()}] ` : '';
+    const prefix = entry.source ? `[${entry.source}] ` : '';
+    const dataStr = entry.data ? ` ${JSON.stringify(entry.data, null, 2)}` : '';
+    print(color(`${timestamp}${prefix}${entry.label.toUpperCase()} ${entry.message}${dataStr}`));
+  }
+}
+
+/**
+ * Newline-delimited JSON for log collectors, on stderr so it does not mix
+ * with command output.
+ */
+export class JsonSink implements LogSink {
+  private stream: NodeJS.WritableStream;
+
+  constructor(stream: NodeJS.WritableStream = process.stderr) {
+    this.stream = stream;
+  }
+
+  write(entry: LogEntry): void {
+    this.stream.write(`${formatJsonEntry(entry)}\n`);
+  }
+}
+
+/**
+ * Newline-delimited JSON appended to a file. Once the file would grow past
+ * its maximum size it moves to `<file>.1`, older ones shift up to
+ * `<file>.<maxFiles>` and the oldest is dropped.
+ */
+export class FileSink implements LogSink {
+  private filePath: string;
+  private maxSize: number;
+  private maxFiles: number;
+  private size: number;
+
+  constructor(filePath: string, options: FileSinkOptions = {}) {
+    this.filePath = filePath;
+    this.maxSize = options.maxSize ?? DEFAULT_MAX_LOG_SIZE;
+    this.maxFiles = options.maxFiles ?? DEFAULT_MAX_LOG_FILES;
+    fs.ensureDirSync(path.dirname(filePath));
+    this.size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+  }
+
+  write(entry: LogEntry): void {
+    const line = `${formatJsonEntry(entry)}\n`;
+    const length = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + length > this.maxSize) {
+      this.rotate();
+    }
+    // Synchronous, so entries logged right before the process exits are kept
+    fs.appendFileSync(this.filePath, line);
+    this.size += length;
+  }
+
+  private rotate(): void {
+    if (this.maxFiles < 1) {
+      fs.removeSync(this.filePath);
+    } else {
+      for (let index = this.maxFiles - 1; index >= 1; index--) {
+        const rotated = `${this.filePath}.${index}`;
+        if (fs.existsSync(rotated)) {
+          fs.renameSync(rotated, `${this.filePath}.${index + 1}`);
+        }
+      }
+      fs.renameSync(this.filePath, `${this.filePath}.1`);
+    }
+    this.size = 0;
+  }
 }
 
 export class Logger {
   private level: LogLevel;
   private prefix: string;
-  private timestamp: boolean;
+  private sinks: LogSink[];
 
   constructor(options: LoggerOptions = { level: LogLevel.INFO }) {
     this.level = options.level;
     this.prefix = options.prefix || '';
-    this.timestamp = options.timestamp || true;
+    this.sinks = options.sinks ?? [new ConsoleSink({ timestamp: options.timestamp ?? true })];
   }
 
-  private formatMessage(level: string, message: string, data?: any): string {
-    const timestamp = this.timestamp ? `[${new Date().toISOString()}] ` : '';
-    const prefix = this.prefix ? `[${this.prefix}] ` : '';
-    const dataStr = data ? ` ${JSON.stringify(data, null, 2)}` : '';
-    return `${timestamp}${prefix}${level} ${message}${dataStr}`;
+  private log(level: LogLevel, label: LogEntry['label'], message: string, data?: any): void {
+    if (this.level > level) {
+      return;
+    }
+
+    const entry: LogEntry = {
+      time: new Date(),
+      level,
+      label,
+      ...(this.prefix ? { source: this.prefix } : {}),
+      message,
+      ...(data !== undefined ? { data } : {})
+    };
+    for (const sink of this.sinks) {
+      sink.write(entry);
+    }
   }
 
   debug(message: string, data?: any): void {
-    if (this.level <= LogLevel.DEBUG) {
-      console.debug(chalk.gray(this.formatMessage('DEBUG', message, data)));
-    }
+    this.log(LogLevel.DEBUG, 'debug', message, data);
   }
 
   info(message: string, data?: any): void {
-    if (this.level <= LogLevel.INFO) {
-      console.info(chalk.blue(this.formatMessage('INFO', message, data)));
-    }
+    this.log(LogLevel.INFO, 'info', message, data);
   }
 
   success(message: string, data?: any): void {
-    if (this.level <= LogLevel.INFO) {
-      console.info(chalk.green(this.formatMessage('SUCCESS', message, data)));
-    }
+    this.log(LogLevel.INFO, 'success', message, data);
   }
 
   warn(message: string, data?: any): void {
-    if (this.level <= LogLevel.WARN) {
-      console.warn(chalk.yellow(this.formatMessage('WARN', message, data)));
-    }
+    this.log(LogLevel.WARN, 'warn', message, data);
   }
 
   error(message: string, error?: Error | any): void {
-    if (this.level <= LogLevel.ERROR) {
-      const errorData = error instanceof Error 
-        ? { message: error.message, stack: error.stack }
-        : error;
-      console.error(chalk.red(this.formatMessage('ERROR', message, errorData)));
-    }
+    const errorData = error instanceof Error
+      ? { message: error.message, stack: error.stack }
+      : error;
+    this.log(LogLevel.ERROR, 'error', message, errorData);
   }
 
   setLevel(level: LogLevel): void {
@@ -73,10 +193,20 @@ export class Logger {
     return new Logger({
       level: this.level,
       prefix: this.prefix ? `${this.prefix}:${prefix}` : prefix,
-      timestamp: this.timestamp
+      sinks: this.sinks
     });
   }
 }
 
+function formatJsonEntry(entry: LogEntry): string {
+  return JSON.stringify({
+    time: entry.time.toISOString(),
+    level: entry.label,
+    ...(entry.source ? { source: entry.source } : {}),
+    message: entry.message,
+    ...(entry.data !== undefined ? { data: entry.data } : {})
+  });
+}
+
 // Default logger instance
 export const logger = new Logger();
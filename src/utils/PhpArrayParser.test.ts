@@ -0,0 +1,84 @@
+import { isEmptyPhpValue, parsePhpArrayAssignment, parsePhpAssignment, PhpParseError, phpValueToJs } from './PhpArrayParser.js';
+
+const GAMES_PHP = `<?php
+// Games list
+$games = [
+    // A classic
+    '2048-lite' => [
+        'name' => '2048 Lite', // short name
+        'git' => "https://github.com/attogram/2048-lite.git",
+        'mobile' => true,
+        'desktop' => 1,
+        'build' => ['npm install', 'npm run build'],
+    ],
+    "chess" => array(
+        'name' => 'Chess',
+        'index' => null,
+        # no build steps
+    ),
+];
+`;
+
+describe('parsePhpArrayAssignment', () => {
+  it('parses nested arrays in both syntaxes', () => {
+    const games = parsePhpArrayAssignment(GAMES_PHP, 'games');
+
+    expect(phpValueToJs(games)).toEqual({
+      '2048-lite': {
+        name: '2048 Lite',
+        git: 'https://github.com/attogram/2048-lite.git',
+        mobile: true,
+        desktop: 1,
+        build: ['npm install', 'npm run build']
+      },
+      chess: { name: 'Chess', index: null }
+    });
+  });
+
+  it('keeps comments with the nearest entry', () => {
+    const games = parsePhpArrayAssignment(GAMES_PHP, 'games');
+    const lite = games.entries[0];
+    const chess = games.entries[1]?.value;
+
+    expect(lite?.leadingComments).toEqual(['A classic']);
+    expect(typeof lite?.value === 'object' && lite.value?.entries[0]?.inlineComments).toEqual(['short name']);
+    expect(typeof chess === 'object' && chess?.trailingComments).toEqual(['no build steps']);
+  });
+
+  it('reports where the source goes wrong', () => {
+    expect(() => parsePhpArrayAssignment('<?php $games = [\'a\' => "x$y"];', 'games')).toThrow(PhpParseError);
+    expect(() => parsePhpArrayAssignment('<?php $games = [\n  \'a\' => foo(),\n];', 'games')).toThrow(/line 2/);
+    expect(() => parsePhpArrayAssignment('<?php $other = [];', 'games')).toThrow(/not found/);
+  });
+});
+
+describe('parsePhpAssignment', () => {
+  it('reads scalar settings and leaves out missing ones', () => {
+    const source = "<?php\n$title = 'Attogram Games';\n$depth = 3;\n";
+
+    expect(parsePhpAssignment(source, 'title')).toBe('Attogram Games');
+    expect(parsePhpAssignment(source, '$depth')).toBe(3);
+    expect(parsePhpAssignment(source, 'headline')).toBeUndefined();
+  });
+});
+
+describe('phpValueToJs', () => {
+  it('turns only sequential integer keys into lists', () => {
+    const value = parsePhpArrayAssignment('<?php $a = [0 => "x", 2 => "y"]; ', 'a');
+
+    expect(phpValueToJs(value)).toEqual({ 0: 'x', 2: 'y' });
+  });
+});
+
+describe('isEmptyPhpValue', () => {
+  it('follows PHP empty()', () => {
+    for (const value of [undefined, null, false, 0, '', '0']) {
+      expect(isEmptyPhpValue(value)).toBe(true);
+    }
+    for (const value of [true, 1, '1', 'false', '0.0', ' ']) {
+      expect(isEmptyPhpValue(value)).toBe(false);
+    }
+    expect(isEmptyPhpValue(parsePhpArrayAssignment('<?php $a = [];', 'a'))).toBe(true);
+    expect(isEmptyPhpValue(parsePhpArrayAssignment('<?php $a = [1];', 'a'))).toBe(false);
+  });
+});
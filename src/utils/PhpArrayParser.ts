@@ -0,0 +1,376 @@
+/**
+ * Parser for the PHP array-literal subset used by the legacy `_build/*.php`
+ * configuration files: `$name = [ ... ];` assignments made of quoted keys,
+ * strings, numbers, booleans, null, nested arrays, trailing commas and
+ * `//`, `#` and `/* *\/` comments. Comments are kept and attached to the
+ * nearest array entry so they can survive a migration.
+ */
+
+export type PhpValue = string | number | boolean | null | PhpArray;
+
+export interface PhpArrayEntry {
+  key: string | number;
+  value: PhpValue;
+  /** Comments on the lines before the entry */
+  leadingComments: string[];
+  /** Comments following the entry on the same line */
+  inlineComments: string[];
+  line: number;
+}
+
+export interface PhpArray {
+  kind: 'array';
+  entries: PhpArrayEntry[];
+  /** Comments after the last entry, before the closing bracket */
+  trailingComments: string[];
+}
+
+export class PhpParseError extends Error {
+  constructor(message: string, public readonly line: number, public readonly column: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'PhpParseError';
+  }
+}
+
+type TokenType = 'string' | 'number' | 'word' | 'variable' | 'punct' | 'comment' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+  column: number;
+}
+
+const PUNCTUATION = ['=>', '[', ']', '(', ')', ',', '=', ';'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const advance = (count: number): void => {
+    for (let i = 0; i < count; i++) {
+      if (source[pos] === '\n') {
+        line++;
+        lineStart = pos + 1;
+      }
+      pos++;
+    }
+  };
+
+  while (pos < source.length) {
+    const char = source[pos] as string;
+    const column = pos - lineStart + 1;
+    const startLine = line;
+
+    if (/\s/.test(char)) {
+      advance(1);
+      continue;
+    }
+
+    if (source.startsWith('<?php', pos)) {
+      advance(5);
+      continue;
+    }
+
+    if (source.startsWith('?>', pos)) {
+      break;
+    }
+
+    if (source.startsWith('//', pos) || char === '#') {
+      const end = source.indexOf('\n', pos);
+      const stop = end === -1 ? source.length : end;
+      const text = source.slice(pos + (char === '#' ? 1 : 2), stop).trim();
+      tokens.push({ type: 'comment', value: text, line: startLine, column });
+      advance(stop - pos);
+      continue;
+    }
+
+    if (source.startsWith('/*', pos)) {
+      const end = source.indexOf('*/', pos + 2);
+      if (end === -1) {
+        throw new PhpParseError('Unterminated block comment', startLine, column);
+      }
+      const text = source
+        .slice(pos + 2, end)
+        .split('\n')
+        .map(part => part.replace(/^\s*\*?\s?/, '').trimEnd())
+        .filter(part => part.length > 0)
+        .join('\n');
+      tokens.push({ type: 'comment', value: text, line: startLine, column });
+      advance(end + 2 - pos);
+      continue;
+    }
+
+    if (char === '\'' || char === '"') {
+      let value = '';
+      let i = pos + 1;
+      while (i < source.length && source[i] !== char) {
+        const current = source[i] as string;
+        if (current === '\\' && i + 1 < source.length) {
+          const next = source[i + 1] as string;
+          if (char === '\'') {
+            // Single quotes only understand \' and \\
+            value += next === '\'' || next === '\\' ? next : current + next;
+          } else {
+            const escapes: { [key: string]: string } = { n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\', $: '$' };
+            value += escapes[next] ?? current + next;
+          }
+          i += 2;
+          continue;
+        }
+        if (char === '"' && current === '$') {
+          throw new PhpParseError('Variable interpolation in strings is not supported', startLine, column);
+        }
+        value += current;
+        i++;
+      }
+      if (i >= source.length) {
+        throw new PhpParseError('Unterminated string', startLine, column);
+      }
+      tokens.push({ type: 'string', value, line: startLine, column });
+      advance(i + 1 - pos);
+      continue;
+    }
+
+    const numberMatch = /^-?\d+(\.\d+)?/.exec(source.slice(pos, pos + 64));
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: numberMatch[0], line: startLine, column });
+      advance(numberMatch[0].length);
+      continue;
+    }
+
+    const wordMatch = /^\$?[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(pos, pos + 256));
+    if (wordMatch) {
+      const word = wordMatch[0];
+      tokens.push({ type: word.startsWith('$') ? 'variable' : 'word', value: word, line: startLine, column });
+      advance(word.length);
+      continue;
+    }
+
+    const punct = PUNCTUATION.find(p => source.startsWith(p, pos));
+    if (punct) {
+      tokens.push({ type: 'punct', value: punct, line: startLine, column });
+      advance(punct.length);
+      continue;
+    }
+
+    throw new PhpParseError(`Unexpected character '${char}'`, startLine, column);
+  }
+
+  tokens.push({ type: 'eof', value: '', line, column: pos - lineStart + 1 });
+  return tokens;
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseAssignment(variable: string, expectArray: boolean): PhpValue {
+    const name = variable.startsWith('$') ? variable : `$${variable}`;
+    const start = this.tokens.findIndex((token, index) =>
+      token.type === 'variable' &&
+      token.value === name &&
+      this.tokens[index + 1]?.type === 'punct' &&
+      this.tokens[index + 1]?.value === '='
+    );
+
+    if (start === -1) {
+      throw new PhpParseError(`Assignment to ${name} not found`, 1, 1);
+    }
+
+    this.pos = start + 2;
+    this.skipComments();
+    const value = this.parseValue();
+    if (expectArray && (typeof value !== 'object' || value === null)) {
+      const token = this.tokens[start] as Token;
+      throw new PhpParseError(`${name} is not an array`, token.line, token.column);
+    }
+
+    this.skipComments();
+    this.expect(';');
+    return value;
+  }
+
+  private parseValue(): PhpValue {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'string':
+        return token.value;
+      case 'number':
+        return Number(token.value);
+      case 'word': {
+        const word = token.value.toLowerCase();
+        if (word === 'true') return true;
+        if (word === 'false') return false;
+        if (word === 'null') return null;
+        if (word === 'array') {
+          this.expect('(');
+          return this.parseArray(')');
+        }
+        throw new PhpParseError(`Unsupported expression '${token.value}'`, token.line, token.column);
+      }
+      case 'punct':
+        if (token.value === '[') {
+          return this.parseArray(']');
+        }
+        break;
+      default:
+        break;
+    }
+
+    throw new PhpParseError(`Unexpected token '${token.value || token.type}'`, token.line, token.column);
+  }
+
+  private parseArray(closing: ']' | ')'): PhpArray {
+    const entries: PhpArrayEntry[] = [];
+    let pendingComments: string[] = [];
+    let nextIndex = 0;
+    let awaitingSeparator = false;
+
+    for (;;) {
+      const token = this.peek();
+
+      if (token.type === 'comment') {
+        this.pos++;
+        const previous = entries[entries.length - 1];
+        // A comment on the same line as the end of the previous entry belongs to it
+        if (previous && pendingComments.length === 0 && this.previousLine() === token.line) {
+          previous.inlineComments.push(token.value);
+        } else {
+          pendingComments.push(token.value);
+        }
+        continue;
+      }
+
+      if (token.type === 'punct' && token.value === closing) {
+        this.pos++;
+        return { kind: 'array', entries, trailingComments: pendingComments };
+      }
+
+      if (awaitingSeparator) {
+        if (!(token.type === 'punct' && token.value === ',')) {
+          throw new PhpParseError(`Expected ',' or '${closing}'`, token.line, token.column);
+        }
+        this.pos++;
+        awaitingSeparator = false;
+        continue;
+      }
+
+      const first = this.parseValue();
+      let key: string | number;
+      let value: PhpValue;
+
+      this.skipComments();
+      if (this.peek().type === 'punct' && this.peek().value === '=>') {
+        this.pos++;
+        if (typeof first !== 'string' && typeof first !== 'number') {
+          throw new PhpParseError('Array keys must be strings or integers', token.line, token.column);
+        }
+        key = first;
+        this.skipComments();
+        value = this.parseValue();
+      } else {
+        key = nextIndex;
+        value = first;
+      }
+
+      if (typeof key === 'number' && Number.isInteger(key) && key >= nextIndex) {
+        nextIndex = key + 1;
+      }
+
+      entries.push({ key, value, leadingComments: pendingComments, inlineComments: [], line: token.line });
+      pendingComments = [];
+      awaitingSeparator = true;
+    }
+  }
+
+  private skipComments(): void {
+    while (this.peek().type === 'comment') {
+      this.pos++;
+    }
+  }
+
+  private previousLine(): number {
+    for (let i = this.pos - 2; i >= 0; i--) {
+      const token = this.tokens[i] as Token;
+      if (token.type !== 'comment') {
+        return token.line;
+      }
+    }
+    return 0;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== 'punct' || token.value !== value) {
+      throw new PhpParseError(`Expected '${value}'`, token.line, token.column);
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos] ?? (this.tokens[this.tokens.length - 1] as Token);
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      this.pos++;
+    }
+    return token;
+  }
+}
+
+/**
+ * Parse the array assigned to `$variable` in a PHP source file.
+ */
+export function parsePhpArrayAssignment(source: string, variable: string): PhpArray {
+  return new Parser(tokenize(source)).parseAssignment(variable, true) as PhpArray;
+}
+
+/**
+ * Parse the value assigned to `$variable`, or undefined when the source
+ * never assigns it. Used for the scalar settings in `config.php`.
+ */
+export function parsePhpAssignment(source: string, variable: string): PhpValue | undefined {
+  const tokens = tokenize(source);
+  const name = variable.startsWith('$') ? variable : `$${variable}`;
+  if (!tokens.some(token => token.type === 'variable' && token.value === name)) {
+    return undefined;
+  }
+  return new Parser(tokens).parseAssignment(name, false);
+}
+
+/**
+ * Convert a parsed value to plain JavaScript. Arrays with only sequential
+ * integer keys become JS arrays, everything else becomes an ordered object.
+ */
+export function phpValueToJs(value: PhpValue): unknown {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const isList = value.entries.every((entry, index) => entry.key === index);
+  if (isList) {
+    return value.entries.map(entry => phpValueToJs(entry.value));
+  }
+
+  const result: { [key: string]: unknown } = {};
+  for (const entry of value.entries) {
+    result[String(entry.key)] = phpValueToJs(entry.value);
+  }
+  return result;
+}
+
+/**
+ * Whether PHP's `empty()` holds for a value: null, false, 0, '', '0' and
+ * empty arrays. Missing values count as empty too.
+ */
+export function isEmptyPhpValue(value: PhpValue | undefined): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'object') return value.entries.length === 0;
+  return value === false || value === 0 || value === '' || value === '0';
+}
@@ -0,0 +1,43 @@
+import { parseRequirement, satisfiesVersion } from './Requirement.js';
+
+describe('parseRequirement', () => {
+  it('splits a tool from its version range', () => {
+    expect(parseRequirement('yarn')).toEqual({ tool: 'yarn' });
+    expect(parseRequirement('node>=18')).toEqual({ tool: 'node', operator: '>=', version: '18' });
+    expect(parseRequirement(' composer ^v2.5 ')).toEqual({ tool: 'composer', operator: '^', version: '2.5' });
+  });
+
+  it('rejects anything else', () => {
+    expect(parseRequirement('node >= latest')).toBeNull();
+    expect(parseRequirement('rm -rf /')).toBeNull();
+  });
+});
+
+describe('satisfiesVersion', () => {
+  it('compares versions numerically', () => {
+    expect(satisfiesVersion('18.10.0', '>=', '18.9')).toBe(true);
+    expect(satisfiesVersion('9.0.0', '>=', '18')).toBe(false);
+    expect(satisfiesVersion('18.0.0', '>', '18')).toBe(false);
+    expect(satisfiesVersion('17.9.9', '<', '18')).toBe(true);
+    expect(satisfiesVersion('18.0.0', '<=', '18')).toBe(true);
+  });
+
+  it('matches partial versions for =', () => {
+    expect(satisfiesVersion('18.19.1', '=', '18')).toBe(true);
+    expect(satisfiesVersion('18.19.1', '=', '18.19')).toBe(true);
+    expect(satisfiesVersion('18.19.1', '=', '18.18')).toBe(false);
+  });
+
+  it('keeps ^ within the major and ~ within the given minor', () => {
+    expect(satisfiesVersion('2.9.0', '^', '2.5')).toBe(true);
+    expect(satisfiesVersion('3.0.0', '^', '2.5')).toBe(false);
+    expect(satisfiesVersion('2.4.0', '^', '2.5')).toBe(false);
+    expect(satisfiesVersion('2.5.3', '~', '2.5')).toBe(true);
+    expect(satisfiesVersion('2.6.0', '~', '2.5')).toBe(false);
+    expect(satisfiesVersion('2.6.0', '~', '2')).toBe(true);
+  });
+
+  it('rejects unknown operators', () => {
+    expect(satisfiesVersion('1.0.0', '!=', '2')).toBe(false);
+  });
+});
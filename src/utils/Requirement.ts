@@ -0,0 +1,63 @@
+/**
+ * Requirement strings from a game's `require` list: a tool name with an
+ * optional version range, e.g. `yarn`, `node>=18` or `composer ^2.5`.
+ */
+
+const REQUIREMENT_PATTERN = /^([A-Za-z0-9._+-]+?)\s*(?:(>=|<=|>|<|=|\^|~)\s*v?(\d+(?:\.\d+){0,2}))?$/;
+
+export interface Requirement {
+  tool: string;
+  operator?: string;
+  version?: string;
+}
+
+/**
+ * Parse `yarn`, `node>=18` or `composer ^2.5` into tool and version range.
+ */
+export function parseRequirement(requirement: string): Requirement | null {
+  const match = REQUIREMENT_PATTERN.exec(requirement.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, tool, operator, version] = match;
+  return {
+    tool: tool as string,
+    ...(operator ? { operator } : {}),
+    ...(version ? { version } : {})
+  };
+}
+
+export function satisfiesVersion(found: string, operator: string, wanted: string): boolean {
+  const have = toParts(found);
+  const want = toParts(wanted);
+  const cmp = compareParts(have, want);
+  const precision = wanted.split('.').length;
+
+  switch (operator) {
+    case '>=': return cmp >= 0;
+    case '>': return cmp > 0;
+    case '<=': return cmp <= 0;
+    case '<': return cmp < 0;
+    // `node=18` matches any 18.x, like a partial version in npm
+    case '=': return have.slice(0, precision).every((part, i) => part === want[i]);
+    case '^': return cmp >= 0 && have[0] === want[0];
+    // `~2` allows any 2.x, `~2.5` only 2.5.x
+    case '~': return cmp >= 0 && have[0] === want[0] && (precision < 2 || have[1] === want[1]);
+    default: return false;
+  }
+}
+
+function toParts(version: string): number[] {
+  const parts = version.split('.').map(part => parseInt(part, 10) || 0);
+  while (parts.length < 3) parts.push(0);
+  return parts;
+}
+
+function compareParts(a: number[], b: number[]): number {
+  for (let i = 0; i < 3; i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
@@ -0,0 +1,56 @@
+import { buildSearchIndex, listLicenses, SEARCH_INDEX_VERSION } from './SearchIndex.js';
+import { BuildStatus, GameBuildResult, GameConfig } from '../types/Game.js';
+
+const chess: GameConfig = {
+  name: 'Chess',
+  tag: 'board game',
+  license: 'MIT',
+  git: 'https://github.com/attogram/chess.git',
+  mobile: false,
+  desktop: true,
+  categories: ['board'],
+  keywords: ['strategy']
+};
+
+function installed(id: string, config: GameConfig): GameBuildResult {
+  return { game: { id, config, buildStatus: BuildStatus.SUCCESS }, success: true, duration: 0, errors: [], warnings: [] };
+}
+
+describe('buildSearchIndex', () => {
+  it('describes each game in page order', () => {
+    const index = buildSearchIndex([
+      installed('chess', chess),
+      installed('3d city', { ...chess, name: '3D City', license: '', mobile: true, categories: [], keywords: [], index: 'play.html' })
+    ], []);
+
+    expect(index.version).toBe(SEARCH_INDEX_VERSION);
+    expect(index.games).toEqual([
+      { id: 'chess', name: 'Chess', tag: 'board game', license: 'MIT', platforms: ['desktop'], categories: ['board'], keywords: ['strategy'], url: 'chess/' },
+      { id: '3d city', name: '3D City', tag: 'board game', license: '', platforms: ['desktop', 'mobile'], categories: [], keywords: [], url: '3d%20city/play.html' }
+    ]);
+  });
+
+  it('lists only the categories games are in, in taxonomy order', () => {
+    const categories = [
+      { id: 'arcade', name: 'Arcade' },
+      { id: 'board', name: 'Board', description: 'Board games' },
+      { id: 'puzzle', name: 'Puzzle' }
+    ];
+    const index = buildSearchIndex([installed('chess', { ...chess, categories: ['puzzle', 'board'] })], categories);
+
+    expect(index.categories).toEqual([{ id: 'board', name: 'Board' }, { id: 'puzzle', name: 'Puzzle' }]);
+  });
+});
+
+describe('listLicenses', () => {
+  it('lists each license in use once, sorted', () => {
+    const index = buildSearchIndex([
+      installed('chess', chess),
+      installed('pool', { ...chess, license: 'GPL-3.0' }),
+      installed('life', { ...chess, license: '' }),
+      installed('go', chess)
+    ], []);
+
+    expect(listLicenses(index)).toEqual(['GPL-3.0', 'MIT']);
+  });
+});
@@ -0,0 +1,58 @@
+import type { GameBuildResult } from '../types/Game.js';
+import type { CategoryDefinition } from '../types/Site.js';
+
+export const SEARCH_INDEX_VERSION = 1;
+
+export type Platform = 'desktop' | 'mobile';
+
+export interface SearchEntry {
+  id: string;
+  name: string;
+  tag: string;
+  license: string;
+  platforms: Platform[];
+  /** Category ids */
+  categories: string[];
+  keywords: string[];
+  /** Link to the game, relative to the site root */
+  url: string;
+}
+
+export interface SearchIndex {
+  version: number;
+  /** Categories that have games, for the category filter */
+  categories: Pick<CategoryDefinition, 'id' | 'name'>[];
+  games: SearchEntry[];
+}
+
+/**
+ * The games as the index page's search script sees them, in page order.
+ */
+export function buildSearchIndex(games: GameBuildResult[], categories: CategoryDefinition[]): SearchIndex {
+  const used = new Set(games.flatMap(({ game }) => game.config.categories ?? []));
+
+  return {
+    version: SEARCH_INDEX_VERSION,
+    categories: categories.filter(category => used.has(category.id)).map(({ id, name }) => ({ id, name })),
+    games: games.map(({ game }) => ({
+      id: game.id,
+      name: game.config.name,
+      tag: game.config.tag,
+      license: game.config.license,
+      platforms: [
+        ...(game.config.desktop ? ['desktop' as const] : []),
+        ...(game.config.mobile ? ['mobile' as const] : [])
+      ],
+      categories: game.config.categories ?? [],
+      keywords: game.config.keywords ?? [],
+      url: `${encodeURIComponent(game.id)}/${game.config.index ?? ''}`
+    }))
+  };
+}
+
+/**
+ * Licenses in use, for the license filter.
+ */
+export function listLicenses(index: SearchIndex): string[] {
+  return [...new Set(index.games.map(entry => entry.license).filter(license => license.length > 0))].sort();
+}
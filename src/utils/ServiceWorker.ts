@@ -0,0 +1,100 @@
+/**
+ * The service worker written next to `index.html` by `build --pwa`. It
+ * precaches the site and the games when installed, serves pages network
+ * first and everything else cache first, and drops the caches of older
+ * builds once a new version activates.
+ */
+
+export const CACHE_PREFIX = 'attogram-games-';
+
+export interface PrecacheManifest {
+  /** Changes whenever any precached file does */
+  version: string;
+  /** URLs relative to the site root */
+  files: string[];
+}
+
+export function renderServiceWorker(manifest: PrecacheManifest): string {
+  return `/* Attogram Games service worker, generated by the build */
+'use strict';
+var CACHE_PREFIX = ${JSON.stringify(CACHE_PREFIX)};
+var CACHE = CACHE_PREFIX + ${JSON.stringify(manifest.version)};
+var FILES = ${JSON.stringify(manifest.files)};
+var BATCH_SIZE = 20;
+var FALLBACK_PAGE = '404.html';
+
+function toUrl(file) {
+  return new URL(file, self.registration.scope).href;
+}
+
+// One missing file must not stop the rest of the site from working offline
+function precache(cache) {
+  var batches = [];
+  for (var i = 0; i < FILES.length; i += BATCH_SIZE) {
+    batches.push(FILES.slice(i, i + BATCH_SIZE));
+  }
+  return batches.reduce(function (previous, batch) {
+    return previous.then(function () {
+      return Promise.all(batch.map(function (file) {
+        return cache.add(toUrl(file)).catch(function (error) {
+          console.warn('Could not cache ' + file, error);
+        });
+      }));
+    });
+  }, Promise.resolve());
+}
+
+function fromCache(request) {
+  return caches.open(CACHE).then(function (cache) {
+    return cache.match(request, { ignoreSearch: true }).then(function (response) {
+      var url = new URL(request.url);
+      if (response || url.pathname.charAt(url.pathname.length - 1) !== '/') return response;
+      url.pathname += 'index.html';
+      return cache.match(url.href, { ignoreSearch: true });
+    });
+  });
+}
+
+self.addEventListener('install', function (event) {
+  event.waitUntil(caches.open(CACHE).then(precache).then(function () {
+    return self.skipWaiting();
+  }));
+});
+
+self.addEventListener('activate', function (event) {
+  event.waitUntil(caches.keys().then(function (keys) {
+    return Promise.all(keys.filter(function (key) {
+      return key.indexOf(CACHE_PREFIX) === 0 && key !== CACHE;
+    }).map(function (key) {
+      return caches.delete(key);
+    }));
+  }).then(function () {
+    return self.clients.claim();
+  }));
+});
+
+self.addEventListener('fetch', function (event) {
+  var request = event.request;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).then(function (response) {
+      if (response.ok) {
+        var copy = response.clone();
+        caches.open(CACHE).then(function (cache) { cache.put(request, copy); });
+      }
+      return response;
+    }).catch(function () {
+      return fromCache(request).then(function (response) {
+        return response || caches.match(toUrl(FALLBACK_PAGE));
+      });
+    }));
+    return;
+  }
+
+  event.respondWith(fromCache(request).then(function (response) {
+    return response || fetch(request);
+  }));
+});
+`;
+}
@@ -0,0 +1,38 @@
+import type { HelperDelegate, HelperOptions } from 'handlebars';
+import { SiteLocale, translate } from './I18n.js';
+
+/**
+ * Helpers every theme can rely on. Theme helpers with the same name win.
+ */
+export const BUILTIN_HELPERS: { [name: string]: HelperDelegate } = {
+  eq: (a: unknown, b: unknown) => a === b,
+
+  not: (value: unknown) => !value,
+
+  json: (value: unknown) => JSON.stringify(value),
+
+  urlencode: (value: unknown) => encodeURIComponent(String(value ?? '')),
+
+  /** `{{srcset logo.srcset @root.root}}` prefixes every candidate URL */
+  srcset: (value: unknown, prefix: unknown) => String(value ?? '')
+    .split(', ')
+    .filter(candidate => candidate.length > 0)
+    .map(candidate => `${typeof prefix === 'string' ? prefix : ''}${candidate}`)
+    .join(', '),
+
+  /** `{{t "footer.about"}}` in the page's locale, `{{t "index.count" count=games.length}}` fills in `{count}` */
+  t: (key: unknown, options: HelperOptions) => {
+    const locale: SiteLocale | undefined = options.data?.root?.locale;
+    return locale ? translate(locale.messages, locale.code, String(key), options.hash) : String(key);
+  },
+
+  /** `{{date lastBuilt}}` gives `2024-01-31`, `{{date lastBuilt "datetime"}}` adds the UTC time */
+  date: (value: unknown, format: unknown) => {
+    const date = value instanceof Date ? value : new Date(String(value));
+    if (Number.isNaN(date.getTime())) {
+      return '';
+    }
+    const iso = date.toISOString();
+    return format === 'datetime' ? `${iso.slice(0, 10)} ${iso.slice(11, 16)} UTC` : iso.slice(0, 10);
+  }
+};
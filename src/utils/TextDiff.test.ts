@@ -0,0 +1,92 @@
+import { diffLines, formatUnifiedDiff } from './TextDiff.js';
+
+function numbered(count: number): string[] {
+  return Array.from({ length: count }, (_, index) => `line ${index + 1}`);
+}
+
+describe('diffLines', () => {
+  it('keeps identical text the same', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'same', text: 'b' }
+    ]);
+  });
+
+  it('finds added, removed and changed lines', () => {
+    expect(diffLines('a\nb\nc\nd', 'a\nc\nx\nd\ne')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: 'd' },
+      { type: 'added', text: 'e' }
+    ]);
+  });
+
+  it('keeps the lines shared between two edits', () => {
+    const types = diffLines('x\na\nb\nc\ny', 'z\na\nb\nc\nw').map(line => line.type);
+
+    expect(types).toEqual(['removed', 'added', 'same', 'same', 'same', 'removed', 'added']);
+  });
+
+  it('replaces wholesale when the edit is too large to compare', () => {
+    const common = numbered(2001);
+    const lines = diffLines(['old start', ...common, 'old end'].join('\n'), ['new start', ...common, 'new end'].join('\n'));
+
+    expect(lines.some(line => line.type === 'same')).toBe(false);
+    expect(lines.filter(line => line.type === 'removed')).toHaveLength(2003);
+    expect(lines.filter(line => line.type === 'added')).toHaveLength(2003);
+  });
+});
+
+describe('formatUnifiedDiff', () => {
+  it('is empty when nothing changed', () => {
+    expect(formatUnifiedDiff(diffLines('a\nb', 'a\nb'))).toBe('');
+  });
+
+  it('shows a change with three lines of context', () => {
+    const before = numbered(10);
+    const after = [...before];
+    after[4] = 'changed';
+
+    expect(formatUnifiedDiff(diffLines(before.join('\n'), after.join('\n')))).toBe([
+      '@@ -2,7 +2,7 @@',
+      ' line 2',
+      ' line 3',
+      ' line 4',
+      '-line 5',
+      '+changed',
+      ' line 6',
+      ' line 7',
+      ' line 8',
+      ''
+    ].join('\n'));
+  });
+
+  it('numbers hunks by their place in the old and new text', () => {
+    const before = numbered(20);
+    const after = ['inserted', ...before.slice(0, 15), ...before.slice(16)];
+
+    expect(formatUnifiedDiff(diffLines(before.join('\n'), after.join('\n')), 1)).toBe([
+      '@@ -1,1 +1,2 @@',
+      '+inserted',
+      ' line 1',
+      '@@ -15,3 +16,2 @@',
+      ' line 15',
+      '-line 16',
+      ' line 17',
+      ''
+    ].join('\n'));
+  });
+
+  it('joins changes whose context overlaps into one hunk', () => {
+    const before = numbered(10);
+    const after = [...before];
+    after[2] = 'first';
+    after[5] = 'second';
+
+    const diff = formatUnifiedDiff(diffLines(before.join('\n'), after.join('\n')), 1);
+
+    expect(diff.split('\n').filter(line => line.startsWith('@@'))).toEqual(['@@ -2,6 +2,6 @@']);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Line diffs for showing what an edit changes before it is saved.
+ */
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Past this the edit is shown as a wholesale replacement rather than
+// spending seconds and gigabytes on the longest common subsequence
+const MAX_DIFF_CELLS = 4_000_000;
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const oldLines = before.split('\n');
+  const newLines = after.split('\n');
+
+  // Edits are usually small, so only the lines between the common head
+  // and tail need comparing
+  let head = 0;
+  while (head < oldLines.length && head < newLines.length && oldLines[head] === newLines[head]) {
+    head++;
+  }
+  let tail = 0;
+  while (
+    tail < oldLines.length - head && tail < newLines.length - head
+    && oldLines[oldLines.length - 1 - tail] === newLines[newLines.length - 1 - tail]
+  ) {
+    tail++;
+  }
+
+  const same = (text: string): DiffLine => ({ type: 'same', text });
+  return [
+    ...oldLines.slice(0, head).map(same),
+    ...diffMiddle(oldLines.slice(head, oldLines.length - tail), newLines.slice(head, newLines.length - tail)),
+    ...oldLines.slice(oldLines.length - tail).map(same)
+  ];
+}
+
+/**
+ * Unified diff hunks with a few lines of context, empty when nothing changed.
+ */
+export function formatUnifiedDiff(lines: DiffLine[], context = 3): string {
+  const changed = lines.flatMap((line, index) => line.type === 'same' ? [] : [index]);
+  if (changed.length === 0) {
+    return '';
+  }
+
+  // Changes close enough to share their context go in one hunk
+  const ranges: Array<[number, number]> = [];
+  for (const index of changed) {
+    const last = ranges[ranges.length - 1];
+    if (last && index - last[1] <= context * 2 + 1) {
+      last[1] = index;
+    } else {
+      ranges.push([index, index]);
+    }
+  }
+
+  // Line numbers in the old and new text at each position
+  const oldNumbers: number[] = [];
+  const newNumbers: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const line of lines) {
+    oldNumbers.push(oldLine);
+    newNumbers.push(newLine);
+    if (line.type !== 'added') oldLine++;
+    if (line.type !== 'removed') newLine++;
+  }
+
+  const hunks = ranges.map(([first, last]) => {
+    const start = Math.max(first - context, 0);
+    const end = Math.min(last + context, lines.length - 1);
+    const hunk = lines.slice(start, end + 1);
+    const oldCount = hunk.filter(line => line.type !== 'added').length;
+    const newCount = hunk.filter(line => line.type !== 'removed').length;
+    const header = `@@ -${oldNumbers[start]},${oldCount} +${newNumbers[start]},${newCount} @@`;
+    const body = hunk.map(line => `${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}${line.text}`);
+    return [header, ...body].join('\n');
+  });
+
+  return `${hunks.join('\n')}\n`;
+}
+
+function diffMiddle(oldLines: string[], newLines: string[]): DiffLine[] {
+  const removed = oldLines.map((text): DiffLine => ({ type: 'removed', text }));
+  const added = newLines.map((text): DiffLine => ({ type: 'added', text }));
+  if (oldLines.length === 0 || newLines.length === 0 || oldLines.length * newLines.length > MAX_DIFF_CELLS) {
+    return [...removed, ...added];
+  }
+
+  // Longest common subsequence of oldLines[i..] and newLines[j..], row by row
+  const width = newLines.length + 1;
+  const lengths = new Uint32Array((oldLines.length + 1) * width);
+  const lengthAt = (i: number, j: number) => lengths[i * width + j] ?? 0;
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = oldLines[i] === newLines[j]
+        ? lengthAt(i + 1, j + 1) + 1
+        : Math.max(lengthAt(i + 1, j), lengthAt(i, j + 1));
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'same', text: oldLines[i] as string });
+      i++;
+      j++;
+    } else if (lengthAt(i + 1, j) >= lengthAt(i, j + 1)) {
+      result.push(removed[i++] as DiffLine);
+    } else {
+      result.push(added[j++] as DiffLine);
+    }
+  }
+  return [...result, ...removed.slice(i), ...added.slice(j)];
+}
@@ -0,0 +1,67 @@
+import { BUILTIN_TRACKER_RULES, EMPTY_SCRIPT_PATTERN, findTrackerDomains } from './Trackers.js';
+
+/** Content after every built-in rule for the extension has run */
+function scrub(content: string, extension = '.html'): string {
+  return BUILTIN_TRACKER_RULES
+    .filter(rule => rule.extensions.includes(extension))
+    .reduce((result, rule) => result.replace(rule.pattern, ''), content);
+}
+
+describe('BUILTIN_TRACKER_RULES', () => {
+  it('removes script tags loading a tracker', () => {
+    const html = '<script async src="https://www.googletagmanager.com/gtag/js?id=G-1"></script><script src="game.js"></script>';
+
+    expect(scrub(html)).toBe('<script src="game.js"></script>');
+  });
+
+  it('removes the Google Analytics loader and its calls', () => {
+    const js = `(function(i,s,o,g,r,a,m){i['GoogleAnalyticsObject']=r;a=s.createElement(o)})(window,document,'script','https://www.google-analytics.com/analytics.js','ga');
+ga('create', 'UA-1-1', 'auto');
+ga('send', 'pageview', { page: location.pathname });
+startGame();`;
+
+    expect(scrub(js, '.js').trim()).toBe('startGame();');
+  });
+
+  it('removes gtag setup and calls', () => {
+    const js = `window.dataLayer = window.dataLayer || [];
+function gtag(){dataLayer.push(arguments);}
+gtag('js', new Date());
+gtag('config', 'G-1');`;
+
+    expect(scrub(js, '.js').trim()).toBe('');
+  });
+
+  it('leaves look-alike game code alone', () => {
+    const js = "saga('create', 'level'); game.send('pageview'); function gtagged() {}";
+
+    expect(scrub(js, '.js')).toBe(js);
+  });
+
+  it('only removes HTML markup from HTML files', () => {
+    const markup = '<div id="fb-root"></div>';
+
+    expect(scrub(markup)).toBe('');
+    expect(scrub(markup, '.js')).toBe(markup);
+  });
+});
+
+describe('EMPTY_SCRIPT_PATTERN', () => {
+  it('matches inline scripts left empty but not external ones', () => {
+    const html = '<script>\n</script><script type="text/javascript"> </script><script src="game.js"></script>';
+
+    expect(html.replace(EMPTY_SCRIPT_PATTERN, '')).toBe('<script src="game.js"></script>');
+  });
+});
+
+describe('findTrackerDomains', () => {
+  it('finds tracker domains and their subdomains once each', () => {
+    const content = 'https://www.google-analytics.com/a.js //ssl.google-analytics.com/b.js https://static.hotjar.com/c.js';
+
+    expect(findTrackerDomains(content).sort()).toEqual(['google-analytics.com', 'hotjar.com']);
+  });
+
+  it('ignores domains that merely end the same way', () => {
+    expect(findTrackerDomains('https://notclarity.ms/ https://hotjar.com.example.org/ https://example.com/')).toEqual([]);
+  });
+});
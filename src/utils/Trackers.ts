@@ -0,0 +1,159 @@
+/**
+ * Known analytics, advertising and social tracking code found in the games
+ * we host. The rules strip the standard embed snippets; the domain list is
+ * what counts as a tracker when scanning what is left afterwards.
+ */
+
+export interface TrackerRule {
+  id: string;
+  description: string;
+  /** File extensions the rule applies to */
+  extensions: string[];
+  pattern: RegExp;
+}
+
+export const TRACKER_DOMAINS = [
+  'google-analytics.com',
+  'googletagmanager.com',
+  'googleadservices.com',
+  'googlesyndication.com',
+  'doubleclick.net',
+  'connect.facebook.net',
+  'platform.twitter.com',
+  'analytics.twitter.com',
+  'static.ads-twitter.com',
+  'hotjar.com',
+  'mixpanel.com',
+  'cdn.segment.com',
+  'quantserve.com',
+  'scorecardresearch.com',
+  'statcounter.com',
+  'clarity.ms',
+  'mc.yandex.ru',
+  'addthis.com',
+  'sharethis.com'
+];
+
+const HTML = ['.html', '.htm'];
+const HTML_AND_JS = [...HTML, '.js'];
+
+// Snippets are bounded so a start marker never swallows half a file
+// looking for an end marker that belongs to something else
+const BODY = '[\\s\\S]{0,2000}?';
+const QUOTE = '[\'"]';
+// Rest of a call's arguments, allowing one level of nested parentheses
+const REST_OF_CALL = '(?:[^()]|\\([^()]*\\))*\\);?';
+
+const domainPattern = TRACKER_DOMAINS.map(domain => domain.replace(/[.-]/g, '\\$&')).join('|');
+
+export const BUILTIN_TRACKER_RULES: TrackerRule[] = [
+  {
+    id: 'tracker-script-tag',
+    description: 'Script tags loading a tracker',
+    extensions: HTML,
+    pattern: new RegExp(
+      `<script\\b[^>]*\\bsrc\\s*=\\s*${QUOTE}?(?:https?:)?//(?:[a-z0-9-]+\\.)*(?:${domainPattern})[/?'"][^>]*>\\s*</script>`,
+      'gi'
+    )
+  },
+  {
+    id: 'google-tag-manager-noscript',
+    description: 'Google Tag Manager noscript iframe',
+    extensions: HTML,
+    pattern: /<noscript>\s*<iframe\b[^>]*googletagmanager\.com[^>]*>\s*<\/iframe>\s*<\/noscript>/gi
+  },
+  {
+    id: 'facebook-root',
+    description: 'Facebook SDK root element',
+    extensions: HTML,
+    pattern: /<div\s+id\s*=\s*['"]fb-root['"]\s*>\s*<\/div>/gi
+  },
+  {
+    id: 'google-analytics',
+    description: 'Google Analytics (analytics.js) loader',
+    extensions: HTML_AND_JS,
+    pattern: new RegExp(
+      `\\(function\\(i,s,o,g,r,a,m\\)\\{${BODY}\\}\\)\\(window,\\s*document,\\s*${QUOTE}script${QUOTE},\\s*${QUOTE}[^'"]*google-analytics\\.com/analytics(?:_debug)?\\.js${QUOTE},\\s*${QUOTE}(\\w+)${QUOTE}\\);?`,
+      'g'
+    )
+  },
+  {
+    id: 'google-analytics-command',
+    description: 'Google Analytics ga() calls',
+    extensions: HTML_AND_JS,
+    pattern: new RegExp(`\\bga\\(\\s*${QUOTE}(?:create|send|set|require)${QUOTE}${REST_OF_CALL}`, 'g')
+  },
+  {
+    id: 'google-analytics-legacy',
+    description: 'Legacy Google Analytics (ga.js) loader and _gaq calls',
+    extensions: HTML_AND_JS,
+    pattern: new RegExp(
+      `var\\s+_gaq\\s*=\\s*_gaq\\s*\\|\\|\\s*\\[\\];?|_gaq\\.push\\(${REST_OF_CALL}|\\(function\\(\\)\\s*\\{${BODY}google-analytics\\.com/(?:u/)?ga\\.js${BODY}\\}\\)\\(\\);?`,
+      'g'
+    )
+  },
+  {
+    id: 'google-tag',
+    description: 'Google tag (gtag.js) setup and calls',
+    extensions: HTML_AND_JS,
+    pattern: new RegExp(
+      `window\\.dataLayer\\s*=\\s*window\\.dataLayer\\s*\\|\\|\\s*\\[\\];?\\s*function\\s+gtag\\(\\)\\s*\\{\\s*dataLayer\\.push\\(arguments\\);?\\s*\\}|\\bgtag\\(\\s*${QUOTE}(?:js|config|event|set)${QUOTE}${REST_OF_CALL}`,
+      'g'
+    )
+  },
+  {
+    id: 'google-tag-manager',
+    description: 'Google Tag Manager loader',
+    extensions: HTML_AND_JS,
+    pattern: new RegExp(
+      `\\(function\\(w,d,s,l,i\\)\\{${BODY}googletagmanager\\.com${BODY}\\}\\)\\(window,\\s*document,\\s*${QUOTE}script${QUOTE},\\s*${QUOTE}dataLayer${QUOTE},\\s*${QUOTE}[^'"]+${QUOTE}\\);?`,
+      'g'
+    )
+  },
+  {
+    id: 'twitter-widgets',
+    description: 'Twitter widgets.js loader',
+    extensions: HTML_AND_JS,
+    pattern: new RegExp(
+      `!function\\(d,\\s*s,\\s*id\\)\\s*\\{${BODY}platform\\.twitter\\.com/widgets\\.js${BODY}\\}\\(document,\\s*${QUOTE}script${QUOTE},\\s*${QUOTE}twitter-wjs${QUOTE}\\);?`,
+      'g'
+    )
+  },
+  {
+    id: 'facebook-sdk',
+    description: 'Facebook JavaScript SDK loader',
+    extensions: HTML_AND_JS,
+    pattern: new RegExp(
+      `\\(function\\(d,\\s*s,\\s*id\\)\\s*\\{${BODY}connect\\.facebook\\.net${BODY}\\}\\(document,\\s*${QUOTE}script${QUOTE},\\s*${QUOTE}facebook-jssdk${QUOTE}\\)\\);?`,
+      'g'
+    )
+  },
+  {
+    id: 'facebook-pixel',
+    description: 'Facebook Pixel loader and fbq() calls',
+    extensions: HTML_AND_JS,
+    pattern: new RegExp(
+      `!function\\(f,b,e,v,n,t,s\\)\\s*\\{${BODY}\\}\\(window,\\s*document,\\s*${QUOTE}script${QUOTE},\\s*${QUOTE}[^'"]*connect\\.facebook\\.net/[^'"]*fbevents\\.js${QUOTE}\\);?|\\bfbq\\(\\s*${QUOTE}(?:init|track|trackCustom)${QUOTE}${REST_OF_CALL}`,
+      'g'
+    )
+  }
+];
+
+/**
+ * Inline script elements left empty once their tracker code is gone.
+ */
+export const EMPTY_SCRIPT_PATTERN = /<script\b(?![^>]*\bsrc\s*=)[^>]*>\s*<\/script>/gi;
+
+// Not followed by more labels, so hotjar.com.example.org is not hotjar.com
+const TRACKER_DOMAIN_PATTERN = new RegExp(`(?<![a-z0-9.-])(?:[a-z0-9-]+\\.)*(${domainPattern})(?![a-z0-9-]|\\.[a-z0-9])`, 'gi');
+
+/**
+ * The tracker domains referenced anywhere in a file's content.
+ */
+export function findTrackerDomains(content: string): string[] {
+  const domains = new Set<string>();
+  for (const match of content.matchAll(TRACKER_DOMAIN_PATTERN)) {
+    domains.add((match[1] as string).toLowerCase());
+  }
+  return [...domains];
+}
@@ -0,0 +1,146 @@
+import {
+  isReservedGameId, isSafeGameId, isSpdxExpression, validateGameCategories, validateGameCollection, validateGameTranslations, validateSiteConfig
+} from './Validator.js';
+import { GameCollection } from '../types/Game.js';
+
+const game = {
+  name: '2048',
+  tag: 'tile game',
+  license: 'MIT',
+  git: 'https://github.com/attogram/2048-lite.git',
+  mobile: true,
+  desktop: true
+};
+
+describe('isSpdxExpression', () => {
+  it('accepts known identifiers and expressions of them', () => {
+    for (const license of ['MIT', 'GPL-2.0+', '(MIT OR Apache-2.0)', 'GPL-2.0-only WITH Classpath-exception-2.0', 'MIT AND CC-BY-4.0']) {
+      expect(isSpdxExpression(license)).toBe(true);
+    }
+  });
+
+  it('rejects unknown identifiers and dangling operators', () => {
+    for (const license of ['', 'Proprietary', 'mit', 'MIT OR', 'MIT WITH ']) {
+      expect(isSpdxExpression(license)).toBe(false);
+    }
+  });
+});
+
+describe('isSafeGameId', () => {
+  it('allows ids that make safe directory names', () => {
+    expect(isSafeGameId('3d.city')).toBe(true);
+    expect(isSafeGameId('html5-hearts_2')).toBe(true);
+    expect(isSafeGameId('.hidden')).toBe(false);
+    expect(isSafeGameId('../up')).toBe(false);
+    expect(isSafeGameId('a'.repeat(101))).toBe(false);
+  });
+});
+
+describe('isReservedGameId', () => {
+  it('reserves the names of repository and generated files in the site root', () => {
+    expect(isReservedGameId('src')).toBe(true);
+    expect(isReservedGameId('Themes')).toBe(true);
+    expect(isReservedGameId('index.html')).toBe(true);
+    expect(isReservedGameId('api')).toBe(true);
+    expect(isReservedGameId('chess')).toBe(false);
+    expect(isReservedGameId('index.htm')).toBe(false);
+  });
+});
+
+describe('validateGameCollection', () => {
+  it('accepts a valid collection', () => {
+    expect(validateGameCollection({ 2048: game, chess: { ...game, build: ['npm ci', { run: 'npm run build', timeout: 60 }] } }))
+      .toEqual({ valid: true, gameCount: 2, errors: [] });
+  });
+
+  it('rejects anything but an object keyed by game id', () => {
+    expect(validateGameCollection([game]).valid).toBe(false);
+    expect(validateGameCollection(null).errors[0]?.path).toBe('$');
+  });
+
+  it('rejects game ids reserved for the site', () => {
+    expect(validateGameCollection({ dist: game }).errors).toEqual([
+      { gameId: 'dist', path: '$.dist', message: "Game id 'dist' is reserved for the site's own files" }
+    ]);
+  });
+
+  it('reports every problem with its path', () => {
+    const result = validateGameCollection({
+      'bad id': { ...game, license: 'Proprietary' },
+      '3d.city': { ...game, git: 'http://example.com/city.git', mobile: 'yes' }
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ gameId: 'bad id', path: "$['bad id']" }),
+      expect.objectContaining({ path: "$['bad id'].license", message: "'Proprietary' is not a recognised SPDX license identifier" }),
+      expect.objectContaining({ path: "$['3d.city'].git", message: 'Git URL must use https: or git:' }),
+      expect.objectContaining({ path: "$['3d.city'].mobile" })
+    ]));
+  });
+
+  it('names missing fields and suggests close matches for unknown ones', () => {
+    const { name: _name, ...unnamed } = game;
+    const result = validateGameCollection({ chess: { ...unnamed, licence: 'MIT', mobil: true } });
+
+    expect(result.errors.map(error => error.message)).toEqual(expect.arrayContaining([
+      "Missing required field 'name'",
+      "Unknown field 'licence' (did you mean 'license'?)",
+      "Unknown field 'mobil' (did you mean 'mobile'?)"
+    ]));
+  });
+
+  it('reports what is wrong with a structured build step', () => {
+    const result = validateGameCollection({ chess: { ...game, build: [{ run: 'make', retries: 2 }] } });
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ path: '$.chess.build[0].retries', message: "Unknown field 'retries'" })
+    ]);
+  });
+
+  it('rejects pinning both a commit and a tag', () => {
+    const result = validateGameCollection({ chess: { ...game, commit: 'abc1234', gitTag: 'v1.0' } });
+
+    expect(result.errors).toEqual([expect.objectContaining({ path: '$.chess.gitTag' })]);
+  });
+});
+
+describe('validateGameCategories', () => {
+  it('reports categories outside the taxonomy', () => {
+    const games: GameCollection = { chess: { ...game, categories: ['board', 'puzzle'] } };
+
+    expect(validateGameCategories(games, [{ id: 'board', name: 'Board' }])).toEqual([
+      expect.objectContaining({ path: '$.chess.categories[1]', message: "Unknown category 'puzzle' (expected one of: board)" })
+    ]);
+  });
+});
+
+describe('validateGameTranslations', () => {
+  it('reports unknown locales and games clashing with locale pages', () => {
+    const games: GameCollection = { fr: game, chess: { ...game, translations: { de: { name: 'Schach' } } } };
+
+    expect(validateGameTranslations(games, ['en', 'fr']).map(error => error.path)).toEqual(['$.fr', '$.chess.translations.de']);
+  });
+});
+
+describe('validateSiteConfig', () => {
+  it('reports unknown fields, duplicates and translations outside the locales', () => {
+    const issues = validateSiteConfig({
+      title: 'Games',
+      colour: 'red',
+      categories: [{ id: 'board', name: 'Board' }, { id: 'board', name: 'Again' }],
+      locales: ['en'],
+      translations: { fr: { title: 'Jeux' } }
+    });
+
+    expect(issues.map(issue => issue.message)).toEqual(expect.arrayContaining([
+      "Unknown field 'colour'",
+      "Duplicate category 'board'",
+      "Locale 'fr' is not in locales"
+    ]));
+  });
+
+  it('requires a title', () => {
+    expect(validateSiteConfig({})).toEqual([{ path: '$.title', message: "Missing required field 'title'" }]);
+  });
+});
@@ -0,0 +1,404 @@
+import { z } from 'zod';
+import { parseRequirement } from './Requirement.js';
+import type { GameCollection } from '../types/Game.js';
+import type { CategoryDefinition } from '../types/Site.js';
+import { LOCALE_PATTERN } from './I18n.js';
+
+export interface ValidationIssue {
+  gameId?: string;
+  /** JSON path of the offending value, e.g. `$['3d.city'].build[0]` */
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  gameCount: number;
+  errors: ValidationIssue[];
+}
+
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: ValidationIssue[], subject = 'Games configuration') {
+    super(`${subject} is invalid (${issues.length} error${issues.length === 1 ? '' : 's'})`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+// SPDX identifiers that open source web games actually use. Not the full
+// list, but anything outside it deserves a second look before inclusion.
+const SPDX_LICENSES = new Set([
+  '0BSD', 'AFL-3.0', 'AGPL-3.0', 'AGPL-3.0-only', 'AGPL-3.0-or-later', 'Apache-2.0', 'Artistic-2.0',
+  'BSD-2-Clause', 'BSD-3-Clause', 'BSL-1.0', 'CC-BY-3.0', 'CC-BY-4.0', 'CC-BY-NC-3.0', 'CC-BY-NC-4.0',
+  'CC-BY-NC-SA-3.0', 'CC-BY-NC-SA-4.0', 'CC-BY-SA-3.0', 'CC-BY-SA-4.0', 'CC0-1.0', 'EPL-1.0', 'EPL-2.0',
+  'EUPL-1.2', 'GPL-2.0', 'GPL-2.0-only', 'GPL-2.0-or-later', 'GPL-3.0', 'GPL-3.0-only', 'GPL-3.0-or-later',
+  'ISC', 'LGPL-2.1', 'LGPL-2.1-only', 'LGPL-2.1-or-later', 'LGPL-3.0', 'LGPL-3.0-only', 'LGPL-3.0-or-later',
+  'MIT', 'MIT-0', 'MPL-1.1', 'MPL-2.0', 'MS-PL', 'OFL-1.1', 'Unlicense', 'WTFPL', 'Zlib'
+]);
+
+const CATEGORY_ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const GAME_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const MAX_GAME_ID_LENGTH = 100;
+
+// Games are installed in the site root, next to the repository's own files,
+// the generated pages and the dev server's API. Compared case-insensitively,
+// as not every file system tells `SRC` from `src`.
+const RESERVED_GAME_IDS = new Set([
+  'api', 'coverage', 'dist', 'node_modules', 'scripts', 'src', 'themes',
+  'composer.json', 'jest.config.js', 'license', 'package.json', 'package-lock.json', 'readme.md', 'tsconfig.json',
+  '404.html', 'about.html', 'feed.xml', 'games.html', 'games-widget.js', 'index.html', 'maintenance.html',
+  'manifest.webmanifest', 'precache-manifest.json', 'robots.txt', 'search-index.json', 'sitemap.xml', 'sw.js'
+]);
+
+export function isSpdxExpression(license: string): boolean {
+  const terms = license
+    .replace(/[()]/g, ' ')
+    .split(/\s+(?:OR|AND)\s+/)
+    .map(term => term.trim());
+
+  return terms.length > 0 && terms.every(term => {
+    const [id, exception] = term.split(/\s+WITH\s+/);
+    if (!id || (exception !== undefined && exception.length === 0)) {
+      return false;
+    }
+    return SPDX_LICENSES.has(id.replace(/\+$/, ''));
+  });
+}
+
+export function isSafeGameId(gameId: string): boolean {
+  return gameId.length <= MAX_GAME_ID_LENGTH && GAME_ID_PATTERN.test(gameId);
+}
+
+export function isReservedGameId(gameId: string): boolean {
+  return RESERVED_GAME_IDS.has(gameId.toLowerCase());
+}
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'g');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const gitUrlSchema = z.string().url().refine(url => ['https:', 'git:'].includes(new URL(url).protocol), {
+  message: 'Git URL must use https: or git:'
+});
+
+const buildStepSchema = z.union([
+  z.string().min(1),
+  z.object({
+    run: z.string().min(1),
+    cwd: z.string().min(1).optional(),
+    env: z.record(z.string()).optional(),
+    timeout: z.number().positive().optional(),
+    allowFailure: z.boolean().optional()
+  }).strict()
+]);
+
+const scrubRuleSchema = z.object({
+  pattern: z.string().min(1).refine(isValidRegExp, pattern => ({
+    message: `'${pattern}' is not a valid regular expression`
+  })),
+  replacement: z.string().optional(),
+  files: z.array(z.string().regex(/^\.[A-Za-z0-9]+$/, 'File types must be extensions like \'.html\'')).optional(),
+  description: z.string().min(1).optional()
+}).strict();
+
+const scrubSchema = z.object({
+  builtin: z.boolean().optional(),
+  rules: z.array(scrubRuleSchema).optional(),
+  allowDomains: z.array(z.string().regex(/^(?:[A-Za-z0-9-]+\.)+[A-Za-z]{2,}$/, 'Expected a domain name like \'example.com\'')).optional()
+}).strict();
+
+const gameFieldsSchema = z.object({
+  name: z.string().min(1),
+  tag: z.string(),
+  license: z.string().refine(isSpdxExpression, license => ({
+    message: `'${license}' is not a recognised SPDX license identifier`
+  })),
+  git: gitUrlSchema,
+  branch: z.string().min(1).optional(),
+  commit: z.string().regex(/^[0-9a-f]{7,40}$/i, 'Commit must be a 7 to 40 character hex SHA').optional(),
+  gitTag: z.string().min(1).optional(),
+  index: z.string().optional(),
+  mobile: z.boolean(),
+  desktop: z.boolean(),
+  build: z.array(buildStepSchema).optional(),
+  require: z.array(z.string().refine(requirement => parseRequirement(requirement) !== null, requirement => ({
+    message: `'${requirement}' is not a tool name with an optional version range like 'node>=18'`
+  }))).optional(),
+  categories: z.array(z.string().min(1)).optional(),
+  keywords: z.array(z.string().min(1)).optional(),
+  translations: z.record(z.object({
+    name: z.string().min(1).optional(),
+    tag: z.string().optional()
+  }).strict()).optional(),
+  offline: z.boolean().optional(),
+  scrub: scrubSchema.optional(),
+  notes: z.array(z.string()).optional()
+}).strict();
+
+const gameConfigSchema = gameFieldsSchema.superRefine((game, context) => {
+  if (game.commit && game.gitTag) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['gitTag'],
+      message: 'Pin either a commit or a gitTag, not both'
+    });
+  }
+});
+
+const KNOWN_FIELDS = Object.keys(gameFieldsSchema.shape);
+
+const siteConfigSchema = z.object({
+  title: z.string().min(1),
+  headline: z.string().min(1).optional(),
+  description: z.string().optional(),
+  baseUrl: z.string().min(1).optional(),
+  footerLinks: z.array(z.object({
+    label: z.string().min(1),
+    url: z.string().min(1)
+  }).strict()).optional(),
+  categories: z.array(z.object({
+    id: z.string().regex(CATEGORY_ID_PATTERN, 'Category id must be lowercase letters, digits and "-"'),
+    name: z.string().min(1),
+    description: z.string().optional()
+  }).strict()).optional(),
+  groupByCategory: z.boolean().optional(),
+  locales: z.array(z.string().regex(LOCALE_PATTERN, 'Locale must be a language tag like "en" or "pt-BR"')).min(1).optional(),
+  translations: z.record(z.object({
+    title: z.string().min(1).optional(),
+    headline: z.string().min(1).optional(),
+    description: z.string().optional(),
+    categories: z.record(z.object({
+      name: z.string().min(1).optional(),
+      description: z.string().optional()
+    }).strict()).optional()
+  }).strict()).optional(),
+  pwa: z.object({
+    shortName: z.string().min(1).optional(),
+    themeColor: z.string().min(1).optional(),
+    backgroundColor: z.string().min(1).optional()
+  }).strict().optional(),
+  custom: z.record(z.unknown()).optional(),
+  legacyTemplates: z.boolean().optional()
+}).strict().superRefine((site, context) => {
+  const seen = new Set<string>();
+  site.categories?.forEach((category, index) => {
+    if (seen.has(category.id)) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['categories', index, 'id'], message: `Duplicate category '${category.id}'` });
+    }
+    seen.add(category.id);
+  });
+
+  const locales = new Set<string>();
+  site.locales?.forEach((locale, index) => {
+    if (locales.has(locale)) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['locales', index], message: `Duplicate locale '${locale}'` });
+    }
+    locales.add(locale);
+  });
+  Object.entries(site.translations ?? {}).forEach(([locale, translation]) => {
+    if (!locales.has(locale)) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['translations', locale], message: `Locale '${locale}' is not in locales` });
+    }
+    Object.keys(translation.categories ?? {}).forEach(id => {
+      if (!seen.has(id)) {
+        context.addIssue({ code: z.ZodIssueCode.custom, path: ['translations', locale, 'categories', id], message: `Unknown category '${id}'` });
+      }
+    });
+  });
+});
+
+/**
+ * Validate a parsed games.json. Every problem is reported, not just the first.
+ */
+export function validateGameCollection(data: unknown): ValidationResult {
+  const errors: ValidationIssue[] = [];
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    errors.push({ path: '$', message: 'Games configuration must be an object keyed by game id' });
+    return { valid: false, gameCount: 0, errors };
+  }
+
+  const entries = Object.entries(data as { [key: string]: unknown });
+  for (const [gameId, gameConfig] of entries) {
+    const gamePath = `$${formatPathSegment(gameId)}`;
+
+    if (!isSafeGameId(gameId)) {
+      errors.push({
+        gameId,
+        path: gamePath,
+        message: 'Game id must start with a letter or digit and contain only letters, digits, ".", "_" and "-"'
+      });
+    } else if (isReservedGameId(gameId)) {
+      errors.push({
+        gameId,
+        path: gamePath,
+        message: `Game id '${gameId}' is reserved for the site's own files`
+      });
+    }
+
+    const parsed = gameConfigSchema.safeParse(gameConfig);
+    if (parsed.success) {
+      continue;
+    }
+
+    for (const issue of flattenIssues(parsed.error.issues)) {
+      if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+        for (const key of issue.keys) {
+          const suggestion = issue.path.length === 0 ? suggestField(key) : undefined;
+          errors.push({
+            gameId,
+            path: gamePath + [...issue.path, key].map(formatPathSegment).join(''),
+            message: `Unknown field '${key}'${suggestion ? ` (did you mean '${suggestion}'?)` : ''}`
+          });
+        }
+        continue;
+      }
+
+      const missing = issue.code === z.ZodIssueCode.invalid_type && issue.received === 'undefined';
+      errors.push({
+        gameId,
+        path: gamePath + issue.path.map(formatPathSegment).join(''),
+        message: missing ? `Missing required field '${issue.path.join('.')}'` : issue.message
+      });
+    }
+  }
+
+  return { valid: errors.length === 0, gameCount: entries.length, errors };
+}
+
+/**
+ * Check that games only use categories from the site's taxonomy.
+ */
+export function validateGameCategories(games: GameCollection, categories: CategoryDefinition[] = []): ValidationIssue[] {
+  const known = new Set(categories.map(category => category.id));
+  const expected = known.size > 0
+    ? `expected one of: ${[...known].join(', ')}`
+    : 'the site defines no categories';
+  const errors: ValidationIssue[] = [];
+
+  for (const [gameId, game] of Object.entries(games)) {
+    game.categories?.forEach((category, index) => {
+      if (!known.has(category)) {
+        errors.push({
+          gameId,
+          path: `$${formatPathSegment(gameId)}.categories[${index}]`,
+          message: `Unknown category '${category}' (${expected})`
+        });
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Check that games only translate into the site's locales, and that no
+ * game directory is in the way of a locale's pages.
+ */
+export function validateGameTranslations(games: GameCollection, locales: string[]): ValidationIssue[] {
+  const errors: ValidationIssue[] = [];
+
+  for (const [gameId, game] of Object.entries(games)) {
+    if (locales.slice(1).includes(gameId)) {
+      errors.push({
+        gameId,
+        path: `$${formatPathSegment(gameId)}`,
+        message: `Game id '${gameId}' clashes with the pages of locale '${gameId}'`
+      });
+    }
+    Object.keys(game.translations ?? {}).forEach(locale => {
+      if (!locales.includes(locale)) {
+        errors.push({
+          gameId,
+          path: `$${formatPathSegment(gameId)}.translations${formatPathSegment(locale)}`,
+          message: `Locale '${locale}' is not in the site's locales (${locales.join(', ')})`
+        });
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a parsed site.json, returning every problem found.
+ */
+export function validateSiteConfig(data: unknown): ValidationIssue[] {
+  const parsed = siteConfigSchema.safeParse(data);
+  if (parsed.success) {
+    return [];
+  }
+
+  return parsed.error.issues.flatMap(issue => {
+    if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+      return issue.keys.map(key => ({
+        path: '$' + [...issue.path, key].map(formatPathSegment).join(''),
+        message: `Unknown field '${key}'`
+      }));
+    }
+    const missing = issue.code === z.ZodIssueCode.invalid_type && issue.received === 'undefined';
+    return [{
+      path: '$' + issue.path.map(formatPathSegment).join(''),
+      message: missing ? `Missing required field '${issue.path[issue.path.length - 1]}'` : issue.message
+    }];
+  });
+}
+
+/**
+ * Replace union failures with the issues of the alternative that got
+ * furthest, so `build` steps report what is actually wrong with them.
+ */
+function flattenIssues(issues: z.ZodIssue[]): z.ZodIssue[] {
+  return issues.flatMap(issue => {
+    if (issue.code !== z.ZodIssueCode.invalid_union) {
+      return [issue];
+    }
+
+    const isRootMismatch = (candidate: z.ZodIssue) =>
+      candidate.code === z.ZodIssueCode.invalid_type && candidate.path.length === issue.path.length;
+    const alternatives = issue.unionErrors.map(error => error.issues);
+    const closest = alternatives.find(candidates => !candidates.some(isRootMismatch));
+
+    if (closest) {
+      return flattenIssues(closest);
+    }
+
+    const mismatches = alternatives.flat().filter(isRootMismatch) as z.ZodInvalidTypeIssue[];
+    const expected = [...new Set(mismatches.map(mismatch => mismatch.expected))].join(' or ');
+    return [{ ...issue, message: `Expected ${expected}, received ${mismatches[0]?.received ?? 'unknown'}` }];
+  });
+}
+
+function formatPathSegment(segment: string | number): string {
+  if (typeof segment === 'number') {
+    return `[${segment}]`;
+  }
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(segment) ? `.${segment}` : `['${segment.replace(/'/g, '\\\'')}']`;
+}
+
+function suggestField(key: string): string | undefined {
+  return KNOWN_FIELDS.find(field => editDistance(field, key.toLowerCase()) <= 2);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        (previous[j] as number) + 1,
+        (current[j - 1] as number) + 1,
+        (previous[j - 1] as number) + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length] as number;
+}
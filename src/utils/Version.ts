@@ -0,0 +1,8 @@
+import fs from 'fs-extra';
+import { fileURLToPath } from 'url';
+
+// The project root, from src/utils and dist/utils alike
+const packageJson = fs.readJSONSync(fileURLToPath(new URL('../../package.json', import.meta.url)));
+
+/** Version of attogram-games, from package.json */
+export const VERSION: string = packageJson.version;
@@ -0,0 +1,62 @@
+import { assertWellFormed, checkWellFormed, escapeXml, XmlWellFormednessError } from './Xml.js';
+
+describe('escapeXml', () => {
+  it('escapes markup and drops characters XML cannot hold', () => {
+    expect(escapeXml('Tom & "Jerry" <3>\u0000\u0008')).toBe('Tom &amp; &quot;Jerry&quot; &lt;3&gt;');
+    expect(escapeXml('café 🎲')).toBe('café 🎲');
+  });
+});
+
+describe('checkWellFormed', () => {
+  it('accepts what the build writes', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- generated -->
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://example.com/?a=1&amp;b=2&#38;&#x26;</loc></url>
+  <empty attr='single' other="double"/>
+  <script><![CDATA[if (a < b) {}]]></script>
+</urlset>
+`;
+
+    expect(checkWellFormed(xml)).toEqual([]);
+  });
+
+  it('reports tags that do not match', () => {
+    expect(checkWellFormed('<a><b></a></b>')).toEqual(['line 1: </a> closes <b>']);
+    expect(checkWellFormed('<a>\n<b>\n</a>')).toEqual(['line 3: </a> closes <b>']);
+    expect(checkWellFormed('<a><b></b>')).toEqual(['line 1: unclosed <a>']);
+    expect(checkWellFormed('<a></a></b>')).toEqual(['line 1: </b> without a start tag']);
+  });
+
+  it('reports bad attributes', () => {
+    expect(checkWellFormed('<a x="1" x="2"/>')).toEqual(['line 1: duplicate attribute x on <a>']);
+    expect(checkWellFormed('<a x=1/>')).toEqual(['line 1: bad attribute or unterminated <a>']);
+    expect(checkWellFormed('<a x="<"/>')).toEqual(['line 1: bad attribute or unterminated <a>']);
+  });
+
+  it('reports bad entities and characters', () => {
+    expect(checkWellFormed('<a>Tom & Jerry</a>')).toEqual(['line 1: bad entity reference "&"']);
+    expect(checkWellFormed('<a>&nbsp;</a>')).toEqual(['line 1: bad entity reference "&nbsp;"']);
+    expect(checkWellFormed('<a>\u0001</a>')).toEqual(['line 1: invalid character']);
+  });
+
+  it('requires exactly one root element', () => {
+    expect(checkWellFormed('')).toEqual(['line 1: no root element']);
+    expect(checkWellFormed('<a/><b/>')).toEqual(['line 1: second root element <b>']);
+    expect(checkWellFormed('text<a/>')).toEqual(['line 1: text outside the root element']);
+  });
+
+  it('reports comments, declarations and CDATA it cannot take', () => {
+    expect(checkWellFormed('<a><!-- a -- b --></a>')).toEqual(['line 1: bad comment']);
+    expect(checkWellFormed('<!DOCTYPE a><a/>')).toEqual(['line 1: unsupported declaration']);
+    expect(checkWellFormed('<![CDATA[x]]><a/>')).toEqual(['line 1: bad CDATA section']);
+  });
+});
+
+describe('assertWellFormed', () => {
+  it('names the document and its problems', () => {
+    expect(() => assertWellFormed('feed.xml', '<feed>')).toThrow(XmlWellFormednessError);
+    expect(() => assertWellFormed('feed.xml', '<feed>')).toThrow('feed.xml is not well-formed XML: line 1: unclosed <feed>');
+    expect(() => assertWellFormed('feed.xml', '<feed/>')).not.toThrow();
+  });
+});
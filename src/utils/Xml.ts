@@ -0,0 +1,164 @@
+// Characters XML 1.0 does not allow anywhere in a document
+const INVALID_XML_CHARS = /[^\u0009\u000A\u000D\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+const NAME = /[A-Za-z_:][\w.:-]*/y;
+const ATTRIBUTE = /\s+([A-Za-z_:][\w.:-]*)\s*=\s*(?:"([^"<]*)"|'([^'<]*)')/y;
+const TAG_END = /\s*(\/?)>/y;
+const PREDEFINED_ENTITIES = new Set(['amp', 'lt', 'gt', 'quot', 'apos']);
+
+export class XmlWellFormednessError extends Error {
+  constructor(public readonly document: string, public readonly problems: string[]) {
+    super(`${document} is not well-formed XML: ${problems.join('; ')}`);
+    this.name = 'XmlWellFormednessError';
+  }
+}
+
+/**
+ * Escape text for element content or a double quoted attribute, dropping
+ * characters that cannot appear in XML at all.
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Problems that make a document not well-formed: unbalanced or crossed
+ * tags, bad attributes, unknown entities, stray markup or characters, and
+ * anything but exactly one root element. No DTDs, which the build never
+ * writes. Empty when the document is fine.
+ */
+export function checkWellFormed(xml: string): string[] {
+  const problems: string[] = [];
+  const open: string[] = [];
+  let roots = 0;
+  let position = 0;
+
+  const lineAt = (index: number) => xml.slice(0, index).split('\n').length;
+  const report = (message: string, index = position) => problems.push(`line ${lineAt(index)}: ${message}`);
+  const matchAt = (pattern: RegExp, index: number) => {
+    pattern.lastIndex = index;
+    return pattern.exec(xml);
+  };
+
+  const checkText = (text: string, start: number) => {
+    if (text.search(INVALID_XML_CHARS) !== -1) {
+      report('invalid character', start);
+    }
+    for (const match of text.matchAll(/&([^;\s]*);?/g)) {
+      const [reference, name = ''] = match;
+      if (!reference.endsWith(';') || !(PREDEFINED_ENTITIES.has(name) || /^#(\d+|x[\da-fA-F]+)$/.test(name))) {
+        report(`bad entity reference "${reference}"`, start + (match.index ?? 0));
+      }
+    }
+  };
+
+  if (xml.startsWith('<?xml')) {
+    const end = xml.indexOf('?>');
+    if (end === -1) {
+      return [`line 1: unterminated XML declaration`];
+    }
+    position = end + 2;
+  }
+
+  while (position < xml.length && problems.length === 0) {
+    const next = xml.indexOf('<', position);
+    const text = xml.slice(position, next === -1 ? xml.length : next);
+    if (open.length > 0) {
+      checkText(text, position);
+    } else if (text.trim().length > 0) {
+      report('text outside the root element');
+    }
+    if (next === -1) {
+      break;
+    }
+    position = next;
+
+    if (xml.startsWith('<!--', position)) {
+      const end = xml.indexOf('-->', position + 4);
+      if (end === -1 || xml.slice(position + 4, end).includes('--')) {
+        report('bad comment');
+      }
+      position = end === -1 ? xml.length : end + 3;
+    } else if (xml.startsWith('<![CDATA[', position)) {
+      const end = xml.indexOf(']]>', position);
+      if (open.length === 0 || end === -1) {
+        report('bad CDATA section');
+      }
+      position = end === -1 ? xml.length : end + 3;
+    } else if (xml.startsWith('<?', position)) {
+      const end = xml.indexOf('?>', position);
+      if (end === -1) {
+        report('unterminated processing instruction');
+      }
+      position = end === -1 ? xml.length : end + 2;
+    } else if (xml.startsWith('<!', position)) {
+      report('unsupported declaration');
+    } else if (xml.startsWith('</', position)) {
+      const name = matchAt(NAME, position + 2)?.[0];
+      const end = xml.indexOf('>', position);
+      const expected = open.pop();
+      if (!name || end === -1 || xml.slice(position + 2 + name.length, end).trim().length > 0) {
+        report('bad end tag');
+      } else if (name !== expected) {
+        report(expected ? `</${name}> closes <${expected}>` : `</${name}> without a start tag`);
+      }
+      position = end === -1 ? xml.length : end + 1;
+    } else {
+      const name = matchAt(NAME, position + 1)?.[0];
+      if (!name) {
+        report('bad start tag');
+        break;
+      }
+      if (open.length === 0 && ++roots > 1) {
+        report(`second root element <${name}>`);
+      }
+
+      // Attributes, up to the end of the tag
+      position += 1 + name.length;
+      const attributes = new Set<string>();
+      let match: RegExpExecArray | null;
+      while ((match = matchAt(ATTRIBUTE, position)) !== null) {
+        const [whole, attributeName = '', double, single] = match;
+        if (attributes.has(attributeName)) {
+          report(`duplicate attribute ${attributeName} on <${name}>`);
+        }
+        attributes.add(attributeName);
+        checkText(double ?? single ?? '', position);
+        position += whole.length;
+      }
+
+      const rest = matchAt(TAG_END, position);
+      if (!rest) {
+        report(`bad attribute or unterminated <${name}>`);
+        break;
+      }
+      if (rest[1] !== '/') {
+        open.push(name);
+      }
+      position += rest[0].length;
+    }
+  }
+
+  if (problems.length === 0) {
+    if (open.length > 0) {
+      report(`unclosed <${open[open.length - 1]}>`, xml.length);
+    } else if (roots === 0) {
+      report('no root element', xml.length);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Throw an XmlWellFormednessError unless the document is well-formed.
+ */
+export function assertWellFormed(document: string, xml: string): void {
+  const problems = checkWellFormed(xml);
+  if (problems.length > 0) {
+    throw new XmlWellFormednessError(document, problems);
+  }
+}
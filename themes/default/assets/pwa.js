@@ -0,0 +1,11 @@
+/* Registers the site's service worker, written by `build --pwa` */
+(function () {
+  'use strict';
+  var script = document.currentScript;
+  if (!script || !('serviceWorker' in navigator)) return;
+
+  var url = new URL(script.getAttribute('data-service-worker'), document.baseURI);
+  navigator.serviceWorker.register(url.href, { scope: url.href.replace(/[^/]*$/, '') }).catch(function (error) {
+    console.warn('Service worker registration failed', error);
+  });
+})();
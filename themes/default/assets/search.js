@@ -0,0 +1,105 @@
+/* Instant search and filters for the games index. The form only shows
+ * once the search index has loaded; until then, and without JavaScript,
+ * every game is listed. Filters live in the URL hash, e.g.
+ * index.html#q=space&platform=mobile&license=MIT&category=puzzle
+ */
+(function () {
+  'use strict';
+  var form = document.getElementById('search');
+  var grid = document.getElementById('games');
+  if (!form || !grid || !window.fetch || !window.URLSearchParams) return;
+
+  // The category filter only exists when the site has categories
+  var FIELDS = ['q', 'platform', 'license', 'category'].filter(function (name) { return form.elements[name]; });
+  var status = form.querySelector('.search-status');
+  // Translated by the theme, with {shown} and {total} to fill in
+  var statusMessage = form.getAttribute('data-status') || '{shown} of {total} games';
+  var sections = grid.querySelectorAll('[data-category-section]');
+  // Grouped by category, a game has a card in each of its sections
+  var cards = {};
+  Array.prototype.forEach.call(grid.querySelectorAll('[data-game-id]'), function (card) {
+    var id = card.getAttribute('data-game-id');
+    (cards[id] = cards[id] || []).push(card);
+  });
+
+  function readHash() {
+    var params = new URLSearchParams(window.location.hash.slice(1));
+    FIELDS.forEach(function (name) {
+      form.elements[name].value = params.get(name) || '';
+    });
+  }
+
+  function writeHash() {
+    var params = new URLSearchParams();
+    FIELDS.forEach(function (name) {
+      var value = form.elements[name].value.trim();
+      if (value) params.set(name, value);
+    });
+    var hash = params.toString();
+    history.replaceState(null, '', hash ? '#' + hash : window.location.pathname + window.location.search);
+  }
+
+  function value(name) {
+    return form.elements[name] ? form.elements[name].value : '';
+  }
+
+  function matches(game, filters) {
+    if (filters.platform && game.platforms.indexOf(filters.platform) === -1) return false;
+    if (filters.license && game.license !== filters.license) return false;
+    if (filters.category && game.categories.indexOf(filters.category) === -1) return false;
+    return filters.words.every(function (word) { return game.text.indexOf(word) !== -1; });
+  }
+
+  function apply(games) {
+    var filters = {
+      words: value('q').toLowerCase().split(/\s+/).filter(Boolean),
+      platform: value('platform'),
+      license: value('license'),
+      category: value('category')
+    };
+    var shown = 0;
+    games.forEach(function (game) {
+      var visible = matches(game, filters);
+      (cards[game.id] || []).forEach(function (card) { card.hidden = !visible; });
+      if (visible) shown++;
+    });
+    Array.prototype.forEach.call(sections, function (section) {
+      section.hidden = !section.querySelector('[data-game-id]:not([hidden])');
+    });
+    var filtered = filters.words.length > 0 || filters.platform || filters.license || filters.category;
+    status.textContent = filtered ? statusMessage.replace('{shown}', shown).replace('{total}', games.length) : '';
+  }
+
+  fetch(form.getAttribute('data-index'))
+    .then(function (response) {
+      if (!response.ok) throw new Error(response.statusText);
+      return response.json();
+    })
+    .then(function (index) {
+      var categoryNames = {};
+      index.categories.forEach(function (category) { categoryNames[category.id] = category.name; });
+      var games = index.games.map(function (game) {
+        var categories = game.categories.map(function (id) { return categoryNames[id] || id; });
+        game.text = [game.id, game.name, game.tag, game.license].concat(game.keywords, categories).join(' ').toLowerCase();
+        return game;
+      });
+      var update = function () {
+        writeHash();
+        apply(games);
+      };
+      form.addEventListener('input', update);
+      form.addEventListener('change', update);
+      form.addEventListener('submit', function (event) { event.preventDefault(); });
+      form.addEventListener('reset', function () { setTimeout(update, 0); });
+      window.addEventListener('hashchange', function () {
+        readHash();
+        apply(games);
+      });
+      readHash();
+      apply(games);
+      form.hidden = false;
+    })
+    .catch(function () {
+      // No index (e.g. opened from disk): keep the plain list
+    });
+})();